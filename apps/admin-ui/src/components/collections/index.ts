@@ -1,3 +1,4 @@
 // Re-export all collection components
 export { default as CollectionList } from './CollectionList.svelte'
 export { default as CollectionForm } from './CollectionForm.svelte'
+export { default as RuleTester } from './RuleTester.svelte'
@@ -2,3 +2,4 @@
 export { default as ThemeSettings } from './ThemeSettings.svelte'
 export { default as UserPreferences } from './UserPreferences.svelte'
 export { default as SystemInfo } from './SystemInfo.svelte'
+export { default as ApiKeys } from './ApiKeys.svelte'
@@ -2,3 +2,5 @@
 export { default as UserList } from './UserList.svelte'
 export { default as UserForm } from './UserForm.svelte'
 export { default as UserDetail } from './UserDetail.svelte'
+export { default as UserFactors } from './UserFactors.svelte'
+export { default as UserSessions } from './UserSessions.svelte'
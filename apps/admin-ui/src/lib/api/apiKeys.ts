@@ -0,0 +1,19 @@
+import type { ApiResponse, ApiKey, CreateApiKeyRequest, CreatedApiKey } from '@lib/types'
+import { apiClient } from './client'
+
+export const apiKeysApi = {
+  // Get all API keys (admin only)
+  async getAll(): Promise<ApiResponse<ApiKey[]>> {
+    return apiClient.get<ApiKey[]>('/api/admin/api-keys')
+  },
+
+  // Create API key (admin only)
+  async create(data: CreateApiKeyRequest): Promise<ApiResponse<CreatedApiKey>> {
+    return apiClient.post<CreatedApiKey>('/api/admin/api-keys', data)
+  },
+
+  // Revoke API key (admin only)
+  async revoke(id: string): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(`/api/admin/api-keys/${id}`)
+  }
+}
@@ -58,10 +58,5 @@ export const authApi = {
   // Check authentication status
   isAuthenticated(): boolean {
     return apiClient.isAuthenticated()
-  },
-
-  // Clear authentication
-  clearAuth(): void {
-    apiClient.clearTokens()
   }
 }
@@ -1,211 +1,97 @@
-import type { ApiResponse, ApiError, RequestConfig } from '@lib/types'
-import { storage } from '@lib/utils'
+import { AuthError, NetworkError, SwiftBaseError, type Session } from '@swiftbase/sdk'
+import type { ApiResponse, RequestConfig } from '@lib/types'
+import { sb } from './sdk'
 
-// API Configuration
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8090'
-const DEFAULT_TIMEOUT = 30000
-
-// Token storage keys
-const ACCESS_TOKEN_KEY = 'access_token'
-const REFRESH_TOKEN_KEY = 'refresh_token'
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
 
+// Adapts the SDK's HTTP client (base URL, auth header, error parsing) to the
+// ApiResponse shape used by the admin API modules
 class ApiClient {
-  private baseURL: string
-  private defaultTimeout: number
-  private refreshPromise: Promise<string> | null = null
-
-  constructor(baseURL: string = API_BASE_URL, timeout: number = DEFAULT_TIMEOUT) {
-    this.baseURL = baseURL
-    this.defaultTimeout = timeout
-  }
+  private refreshPromise: Promise<Session | null> | null = null
 
-  // Get access token
+  // Get access token (the session is owned by the SDK client)
   getAccessToken(): string | null {
-    return storage.get<string>(ACCESS_TOKEN_KEY)
+    return sb.auth.getSession()?.accessToken ?? null
   }
 
   // Get refresh token
   getRefreshToken(): string | null {
-    return storage.get<string>(REFRESH_TOKEN_KEY)
-  }
-
-  // Set tokens
-  setTokens(accessToken: string, refreshToken: string): void {
-    storage.set(ACCESS_TOKEN_KEY, accessToken)
-    storage.set(REFRESH_TOKEN_KEY, refreshToken)
-  }
-
-  // Clear tokens
-  clearTokens(): void {
-    storage.remove(ACCESS_TOKEN_KEY)
-    storage.remove(REFRESH_TOKEN_KEY)
+    return sb.auth.getSession()?.refreshToken ?? null
   }
 
   // Check if user is authenticated
   isAuthenticated(): boolean {
-    return !!this.getAccessToken()
-  }
-
-  // Refresh access token
-  private async refreshAccessToken(): Promise<string> {
-    // Prevent multiple simultaneous refresh requests
-    if (this.refreshPromise) {
-      return this.refreshPromise
-    }
-
-    this.refreshPromise = (async () => {
-      const refreshToken = this.getRefreshToken()
-      if (!refreshToken) {
-        this.clearTokens()
-        throw new Error('No refresh token available')
-      }
-
-      try {
-        const response = await fetch(`${this.baseURL}/api/admin/refresh`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ refreshToken })
-        })
-
-        if (!response.ok) {
-          throw new Error('Token refresh failed')
-        }
-
-        const data = await response.json()
-
-        // Backend returns TokenPair directly: { accessToken, refreshToken, expiresIn }
-        if (data.accessToken && data.refreshToken) {
-          this.setTokens(data.accessToken, data.refreshToken)
-          return data.accessToken
-        }
-
-        // Fallback: check if wrapped in success/data structure
-        if (data.success && data.data?.accessToken) {
-          this.setTokens(data.data.accessToken, data.data.refreshToken)
-          return data.data.accessToken
-        }
-
-        throw new Error('Invalid refresh response')
-      } catch (error) {
-        this.clearTokens()
-        throw error
-      } finally {
-        this.refreshPromise = null
-      }
-    })()
-
-    return this.refreshPromise
+    return sb.auth.isAuthenticated()
   }
 
   // Make HTTP request
   async request<T = any>(
+    method: HttpMethod,
     endpoint: string,
-    options: RequestInit & RequestConfig = {}
+    data?: unknown,
+    config: RequestConfig = {}
   ): Promise<ApiResponse<T>> {
-    const {
-      headers = {},
-      params,
-      timeout = this.defaultTimeout,
-      ...fetchOptions
-    } = options
-
-    // Build URL with query parameters
-    let url = `${this.baseURL}${endpoint}`
-    if (params) {
-      const queryString = new URLSearchParams(params).toString()
-      url += `?${queryString}`
-    }
-
-    // Build headers - convert HeadersInit to Record<string, string>
-    const requestHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...(headers as Record<string, string>)
-    }
-
-    // Add authorization header if authenticated
-    const accessToken = this.getAccessToken()
-    if (accessToken) {
-      requestHeaders['Authorization'] = `Bearer ${accessToken}`
-    }
-
-    // Create abort controller for timeout
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), timeout)
+    return this.run(async () => this.handleResponse<T>(await this.send(method, endpoint, data, config)))
+  }
 
+  // Run an SDK call, e.g. sb.query() or sb.storage.list()
+  async run<T>(operation: () => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> {
     try {
-      const response = await fetch(url, {
-        ...fetchOptions,
-        headers: requestHeaders,
-        signal: controller.signal
-      })
-
-      clearTimeout(timeoutId)
-
-      // Handle 401 Unauthorized - attempt token refresh
-      if (response.status === 401 && this.getRefreshToken()) {
-        try {
-          const newAccessToken = await this.refreshAccessToken()
-
-          // Retry request with new token
-          requestHeaders['Authorization'] = `Bearer ${newAccessToken}`
-          const retryResponse = await fetch(url, {
-            ...fetchOptions,
-            headers: requestHeaders
-          })
-
-          return this.handleResponse<T>(retryResponse)
-        } catch (refreshError) {
-          // Refresh failed, redirect to login
+      return await operation()
+    } catch (error) {
+      // Access token expired before the SDK refreshed it - refresh and retry once
+      if (error instanceof AuthError && error.status === 401 && this.getRefreshToken()) {
+        // The SDK clears the session when the refresh fails
+        if (!(await this.refreshSession())) {
           window.location.hash = '#/login'
           throw new Error('Session expired. Please login again.')
         }
-      }
-
-      return this.handleResponse<T>(response)
-    } catch (error) {
-      clearTimeout(timeoutId)
 
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Request timeout')
+        try {
+          return await operation()
+        } catch (retryError) {
+          return this.handleError(retryError)
+        }
       }
 
-      throw error
+      return this.handleError(error)
     }
   }
 
-  // Handle response
-  private async handleResponse<T>(response: Response): Promise<ApiResponse<T>> {
-    const contentType = response.headers.get('content-type')
-    const isJson = contentType?.includes('application/json')
-
-    if (!response.ok) {
-      let errorMessage = `HTTP ${response.status}: ${response.statusText}`
+  // Refresh the session - prevent multiple simultaneous refresh requests
+  private refreshSession(): Promise<Session | null> {
+    this.refreshPromise ??= sb.auth.refreshSession().finally(() => {
+      this.refreshPromise = null
+    })
+    return this.refreshPromise
+  }
 
-      if (isJson) {
-        try {
-          const errorData = await response.json()
-          // Handle nested error object: { error: { message, code } }
-          if (errorData.error && typeof errorData.error === 'object') {
-            errorMessage = errorData.error.message || errorMessage
-          } else {
-            errorMessage = errorData.error || errorData.message || errorMessage
-          }
-        } catch {
-          // Failed to parse error JSON
-        }
-      }
+  // Send request through the SDK client
+  private send(
+    method: HttpMethod,
+    endpoint: string,
+    data: unknown,
+    { headers, params, timeout }: RequestConfig
+  ): Promise<unknown> {
+    const url = params ? `${endpoint}?${new URLSearchParams(params)}` : endpoint
+    return sb._http.request<unknown>({ method, url, body: data ?? undefined, headers, timeout })
+  }
 
+  // Handle error - server errors become failed responses, network errors are thrown
+  private handleError(error: unknown): ApiResponse<never> {
+    if (error instanceof SwiftBaseError && !(error instanceof NetworkError)) {
       return {
         success: false,
-        error: errorMessage
+        error: error.message
       }
     }
 
-    if (isJson) {
-      const data = await response.json()
+    throw error
+  }
 
+  // Handle response
+  private handleResponse<T>(data: any): ApiResponse<T> {
+    if (typeof data === 'object' && data !== null) {
       // Check if response is already wrapped (has success property)
       if (data.hasOwnProperty('success')) {
         // If it has both success and data, return as-is
@@ -221,23 +107,18 @@ class ApiClient {
           data: actualData as T
         }
       }
-
-      // Response is completely unwrapped, wrap it
-      return {
-        success: true,
-        data: data as T
-      }
     }
 
+    // Response is completely unwrapped, wrap it
     return {
       success: true,
-      data: await response.text() as any
+      data: data as T
     }
   }
 
   // HTTP Methods
   async get<T = any>(endpoint: string, config?: RequestConfig): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, { method: 'GET', ...config })
+    return this.request<T>('GET', endpoint, undefined, config)
   }
 
   async post<T = any>(
@@ -245,11 +126,7 @@ class ApiClient {
     data?: any,
     config?: RequestConfig
   ): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, {
-      method: 'POST',
-      body: data ? JSON.stringify(data) : undefined,
-      ...config
-    })
+    return this.request<T>('POST', endpoint, data, config)
   }
 
   async put<T = any>(
@@ -257,11 +134,7 @@ class ApiClient {
     data?: any,
     config?: RequestConfig
   ): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, {
-      method: 'PUT',
-      body: data ? JSON.stringify(data) : undefined,
-      ...config
-    })
+    return this.request<T>('PUT', endpoint, data, config)
   }
 
   async patch<T = any>(
@@ -269,76 +142,11 @@ class ApiClient {
     data?: any,
     config?: RequestConfig
   ): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, {
-      method: 'PATCH',
-      body: data ? JSON.stringify(data) : undefined,
-      ...config
-    })
+    return this.request<T>('PATCH', endpoint, data, config)
   }
 
   async delete<T = any>(endpoint: string, config?: RequestConfig): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, { method: 'DELETE', ...config })
-  }
-
-  // Upload file as raw binary with headers
-  async upload<T = any>(
-    endpoint: string,
-    file: File,
-    metadata?: Record<string, any>,
-    onProgress?: (progress: number) => void
-  ): Promise<ApiResponse<T>> {
-    const accessToken = this.getAccessToken()
-
-    return new Promise((resolve, reject) => {
-      const xhr = new XMLHttpRequest()
-
-      xhr.upload.addEventListener('progress', (event) => {
-        if (event.lengthComputable && onProgress) {
-          const progress = (event.loaded / event.total) * 100
-          onProgress(progress)
-        }
-      })
-
-      xhr.addEventListener('load', () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          try {
-            const response = JSON.parse(xhr.responseText)
-            resolve(response)
-          } catch {
-            resolve({ success: true, data: xhr.responseText as any })
-          }
-        } else {
-          reject(new Error(`Upload failed: ${xhr.statusText}`))
-        }
-      })
-
-      xhr.addEventListener('error', () => {
-        reject(new Error('Upload failed'))
-      })
-
-      xhr.addEventListener('abort', () => {
-        reject(new Error('Upload cancelled'))
-      })
-
-      xhr.open('POST', `${this.baseURL}${endpoint}`)
-
-      // Set headers
-      if (accessToken) {
-        xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`)
-      }
-
-      // Send filename and content type as headers (backend expects these)
-      xhr.setRequestHeader('X-Filename', file.name)
-      xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream')
-
-      // Send metadata as header if provided
-      if (metadata) {
-        xhr.setRequestHeader('X-Metadata', JSON.stringify(metadata))
-      }
-
-      // Send raw file data
-      xhr.send(file)
-    })
+    return this.request<T>('DELETE', endpoint, undefined, config)
   }
 }
 
@@ -1,10 +1,20 @@
-import type {
-  ApiResponse,
-  FileMetadata,
-  UploadFileResponse,
-  FileListQuery
-} from '@lib/types'
+import type { FileListOptions, FileMetadata as StoredFile } from '@swiftbase/sdk'
+import type { ApiResponse, FileMetadata } from '@lib/types'
 import { apiClient } from './client'
+import { sb } from './sdk'
+
+// Convert SDK file metadata to the server field names used by the views
+function toFileMetadata(file: StoredFile): FileMetadata {
+  return {
+    id: file.id,
+    filename: file.filename,
+    original_name: file.originalName,
+    content_type: file.contentType ?? 'application/octet-stream',
+    size: file.size,
+    url: file.url,
+    created_at: file.createdAt
+  }
+}
 
 export const filesApi = {
   // Upload file
@@ -13,22 +23,29 @@ export const filesApi = {
     metadata?: Record<string, any>,
     onProgress?: (progress: number) => void
   ): Promise<ApiResponse<FileMetadata>> {
-    return apiClient.upload<FileMetadata>(
-      '/api/storage/upload',
-      file,
-      metadata,
-      onProgress
-    )
+    return apiClient.run(async () => {
+      const uploaded = await sb.storage.upload(file, {
+        ...(metadata && { metadata }),
+        ...(onProgress && { onProgress: (progress) => onProgress(progress.percentage) })
+      })
+      return { success: true, data: toFileMetadata(uploaded) }
+    })
   },
 
   // Get all files
-  async getAll(query?: FileListQuery): Promise<ApiResponse<FileMetadata[]>> {
-    return apiClient.get<FileMetadata[]>('/api/storage/files', { params: query })
+  async getAll(options?: FileListOptions): Promise<ApiResponse<FileMetadata[]>> {
+    return apiClient.run(async () => {
+      const { files } = await sb.storage.list(options)
+      return { success: true, data: files.map(toFileMetadata) }
+    })
   },
 
   // Get file by ID
   async getById(id: string): Promise<ApiResponse<FileMetadata>> {
-    return apiClient.get<FileMetadata>(`/api/storage/files/${id}`)
+    return apiClient.run(async () => ({
+      success: true,
+      data: toFileMetadata(await sb.storage.getFile(id))
+    }))
   },
 
   // Download file (returns download URL)
@@ -40,7 +57,10 @@ export const filesApi = {
 
   // Delete file
   async delete(id: string): Promise<ApiResponse<void>> {
-    return apiClient.delete<void>(`/api/storage/files/${id}`)
+    return apiClient.run(async () => {
+      await sb.storage.delete(id)
+      return { success: true }
+    })
   },
 
   // Update file metadata
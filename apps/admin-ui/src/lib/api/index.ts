@@ -1,8 +1,9 @@
 // Re-export all API modules
+export * from './sdk'
 export * from './client'
 export * from './auth'
 export * from './collections'
 export * from './query'
 export * from './users'
 export * from './files'
-export * from './realtime'
+export * from './apiKeys'
@@ -1,3 +1,4 @@
+import type { QueryRequest as SdkQueryRequest } from '@swiftbase/sdk'
 import type {
   ApiResponse,
   QueryRequest,
@@ -5,11 +6,13 @@ import type {
   CustomQuery
 } from '@lib/types'
 import { apiClient } from './client'
+import { sb } from './sdk'
 
 export const queryApi = {
   // Execute query
   async execute<T = any>(query: QueryRequest): Promise<ApiResponse<QueryResult<T>>> {
-    return apiClient.post<QueryResult<T>>('/api/query', query)
+    // Requests are sent as-is, including projections the SDK types leave out
+    return apiClient.run(() => sb.query<QueryResult<T>>(query as SdkQueryRequest))
   },
 
   // Find documents
@@ -105,12 +108,7 @@ export const queryApi = {
     queryName: string,
     params?: Record<string, any>
   ): Promise<ApiResponse<QueryResult<T>>> {
-    return this.execute<T>({
-      action: 'custom',
-      collection: '',
-      custom: queryName,
-      params
-    })
+    return apiClient.run(() => sb.customQuery<QueryResult<T>>(queryName, params))
   },
 
   // Get all custom queries (admin only)
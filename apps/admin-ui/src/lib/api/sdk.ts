@@ -0,0 +1,14 @@
+import { createClient } from '@swiftbase/sdk'
+
+// API Configuration
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8090'
+
+// Shared SDK client - owns the admin session (tokens, refresh, persistence)
+export const sb = createClient({
+  url: API_BASE_URL,
+  auth: {
+    storage: 'localStorage',
+    autoRefresh: true,
+    persistSession: true
+  }
+})
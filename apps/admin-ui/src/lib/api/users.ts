@@ -1,4 +1,4 @@
-import type { ApiResponse, User } from '@lib/types'
+import type { ApiResponse, MfaFactor, User, UserSession } from '@lib/types'
 import { apiClient } from './client'
 
 export const usersApi = {
@@ -20,6 +20,7 @@ export const usersApi = {
   async create(data: {
     email: string
     password: string
+    role?: string
     metadata?: Record<string, any>
   }): Promise<ApiResponse<User>> {
     return apiClient.post<User>('/api/admin/users', data)
@@ -30,6 +31,7 @@ export const usersApi = {
     email?: string
     password?: string
     email_verified?: boolean
+    role?: string
     metadata?: Record<string, any>
   }): Promise<ApiResponse<User>> {
     return apiClient.put<User>(`/api/admin/users/${id}`, data)
@@ -45,11 +47,31 @@ export const usersApi = {
     return apiClient.post<User>(`/api/admin/users/${id}/verify-email`)
   },
 
+  // Get user sessions (admin only)
+  async getSessions(id: string): Promise<ApiResponse<UserSession[]>> {
+    return apiClient.get<UserSession[]>(`/api/admin/users/${id}/sessions`)
+  },
+
+  // Revoke one user session (admin only)
+  async revokeSession(id: string, sessionId: string): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(`/api/admin/users/${id}/sessions/${sessionId}`)
+  },
+
   // Revoke all user sessions (admin only)
   async revokeSessions(id: string): Promise<ApiResponse<void>> {
     return apiClient.post<void>(`/api/admin/users/${id}/revoke-sessions`)
   },
 
+  // Get user MFA factors (admin only)
+  async getFactors(id: string): Promise<ApiResponse<MfaFactor[]>> {
+    return apiClient.get<MfaFactor[]>(`/api/admin/users/${id}/mfa/factors`)
+  },
+
+  // Remove all MFA factors and recovery codes of a user (admin only)
+  async resetFactors(id: string): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(`/api/admin/users/${id}/mfa/factors`)
+  },
+
   // Get user statistics (admin only)
   async getStats(): Promise<ApiResponse<{
     total_users: number
@@ -1,27 +1,49 @@
-import type { Admin, AuthResponse } from '@lib/types'
-import { authApi, apiClient } from '@lib/api'
-
-interface AuthState {
-  admin: Admin | null
-  isAuthenticated: boolean
-  isLoading: boolean
-  error: string | null
+import type { Admin } from '@swiftbase/sdk'
+import { authState } from '@swiftbase/svelte'
+import { authApi, sb } from '@lib/api'
+import { storage } from '@lib/utils'
+
+// Token keys used before the SDK owned the session
+const LEGACY_ACCESS_TOKEN_KEY = 'access_token'
+const LEGACY_REFRESH_TOKEN_KEY = 'refresh_token'
+
+// Move tokens stored under the legacy keys into the SDK session, so admins
+// signed in before the upgrade stay signed in
+async function migrateLegacySession(): Promise<void> {
+  const accessToken = storage.get<string>(LEGACY_ACCESS_TOKEN_KEY)
+  const refreshToken = storage.get<string>(LEGACY_REFRESH_TOKEN_KEY)
+  storage.remove(LEGACY_ACCESS_TOKEN_KEY)
+  storage.remove(LEGACY_REFRESH_TOKEN_KEY)
+
+  if (!accessToken || !refreshToken || sb.auth.getSession()) return
+
+  // The legacy keys did not keep the admin - the placeholder makes the SDK
+  // refresh through the admin endpoint until the admin is loaded
+  const placeholder: Admin = { id: '', username: '', createdAt: '' }
+  await sb.auth.setSession({ accessToken, refreshToken, expiresAt: 0, admin: placeholder })
+
+  if (!sb.auth.isAuthenticated() && !(await sb.auth.refreshSession())) return
+
+  const admin = await sb.auth.getAdmin()
+  const session = sb.auth.getSession()
+  if (session && admin && admin !== placeholder) {
+    await sb.auth.setSession({ ...session, admin })
+  } else {
+    await sb.auth.logout()
+  }
 }
 
-// Create auth store with Svelte 5 runes
+// Create auth store with Svelte 5 runes on top of the SDK session
 function createAuthStore() {
-  let state = $state<AuthState>({
-    admin: null,
-    isAuthenticated: false,
-    isLoading: true,
-    error: null
-  })
+  const auth = authState(sb)
+
+  let isPending = $state(false)
+  let error = $state<string | null>(null)
 
   // Derived values
-  const isAuthenticated = $derived(state.isAuthenticated)
-  const admin = $derived(state.admin)
-  const isLoading = $derived(state.isLoading)
-  const error = $derived(state.error)
+  const admin = $derived(auth.admin)
+  const isAuthenticated = $derived(auth.admin !== null)
+  const isLoading = $derived(auth.isLoading || isPending)
 
   // Track if initialized
   let initialized = false
@@ -29,82 +51,55 @@ function createAuthStore() {
   async function initAuth() {
     if (initialized) return
     initialized = true
-    state.isLoading = true
-    state.error = null
+    isPending = true
+    error = null
+
+    // Wait for the SDK to restore the stored session
+    await auth.ready
+    await migrateLegacySession()
 
-    if (apiClient.isAuthenticated()) {
+    if (sb.auth.isAuthenticated() && auth.admin) {
       try {
         const response = await authApi.getAdminMe()
 
-        if (response.success && response.data) {
-          state.admin = response.data
-          state.isAuthenticated = true
-        } else {
+        if (!response.success) {
           // Token is invalid, clear it
-          apiClient.clearTokens()
-          state.admin = null
-          state.isAuthenticated = false
+          await sb.auth.logout()
         }
       } catch (err) {
         console.error('Failed to verify authentication:', err)
-        apiClient.clearTokens()
-        state.admin = null
-        state.isAuthenticated = false
+        await sb.auth.logout()
       }
-    } else {
-      state.admin = null
-      state.isAuthenticated = false
     }
 
-    state.isLoading = false
+    isPending = false
   }
 
   async function login(username: string, password: string): Promise<boolean> {
-    state.isLoading = true
-    state.error = null
+    isPending = true
+    error = null
 
     try {
-      const response = await authApi.adminLogin(username, password)
-
-      if (response.success && response.data) {
-        const { admin: adminData, tokens } = response.data
-
-        // Store tokens
-        apiClient.setTokens(tokens.accessToken, tokens.refreshToken)
-
-        // Update state
-        state.admin = adminData!
-        state.isAuthenticated = true
-        state.error = null
-
-        return true
-      } else {
-        state.error = response.error || 'Login failed'
-        return false
-      }
+      await sb.auth.admin.login({ username, password })
+      return true
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Login failed'
-      state.error = message
+      error = message
       return false
     } finally {
-      state.isLoading = false
+      isPending = false
     }
   }
 
   async function logout(): Promise<void> {
-    state.isLoading = true
+    isPending = true
 
     try {
-      await authApi.adminLogout()
-    } catch (err) {
-      console.error('Logout error:', err)
+      // Clears the session regardless of the API response
+      await sb.auth.logout()
     } finally {
-      // Clear tokens and state regardless of API response
-      apiClient.clearTokens()
-      state.admin = null
-      state.isAuthenticated = false
-      state.error = null
-      state.isLoading = false
+      error = null
+      isPending = false
 
       // Redirect to login
       window.location.hash = '#/login'
@@ -112,37 +107,12 @@ function createAuthStore() {
   }
 
   async function refreshAuth(): Promise<boolean> {
-    const refreshToken = apiClient.getRefreshToken()
-
-    if (!refreshToken) {
-      return false
-    }
-
-    try {
-      const response = await authApi.adminRefresh(refreshToken)
-
-      if (response.success && response.data) {
-        const { admin: adminData, tokens } = response.data
-
-        // Update tokens
-        apiClient.setTokens(tokens.accessToken, tokens.refreshToken)
-
-        // Update state
-        state.admin = adminData!
-        state.isAuthenticated = true
-
-        return true
-      }
-
-      return false
-    } catch (err) {
-      console.error('Token refresh failed:', err)
-      return false
-    }
+    const session = await sb.auth.refreshSession()
+    return session?.admin != null
   }
 
   function clearError() {
-    state.error = null
+    error = null
   }
 
   return {
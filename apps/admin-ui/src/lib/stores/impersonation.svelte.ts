@@ -0,0 +1,72 @@
+import type { Session } from '@swiftbase/sdk'
+import { sb } from '@lib/api'
+
+// Create impersonation store with Svelte 5 runes. The user session is only
+// kept in memory and used by the API tester; the admin stays signed in.
+function createImpersonationStore() {
+  let session = $state<Session | null>(null)
+
+  // Derived values
+  const user = $derived(session?.user ?? null)
+  const isActive = $derived(session !== null)
+
+  // Revoke an impersonated session on the server, as the SDK's
+  // stopImpersonating() does; errors are ignored as it expires shortly anyway
+  async function revoke(accessToken: string): Promise<void> {
+    try {
+      await sb._http.post('/api/auth/logout', undefined, {
+        headers: { Authorization: `Bearer ${accessToken}` }
+      })
+    } catch {
+      // Ignore
+    }
+  }
+
+  async function start(userId: string): Promise<void> {
+    const previous = session
+    session = await sb.auth.admin.impersonate(userId)
+    if (previous) {
+      await revoke(previous.accessToken)
+    }
+  }
+
+  async function stop(): Promise<void> {
+    const current = session
+    if (!current) return
+
+    await revoke(current.accessToken)
+    if (session === current) {
+      session = null
+    }
+  }
+
+  // Access token of the impersonated session, null once it expired
+  function getAccessToken(): string | null {
+    if (session && session.expiresAt <= Date.now()) {
+      void revoke(session.accessToken)
+      session = null
+    }
+    return session?.accessToken ?? null
+  }
+
+  return {
+    // Getters (using $derived)
+    get session() {
+      return session
+    },
+    get user() {
+      return user
+    },
+    get isActive() {
+      return isActive
+    },
+
+    // Actions
+    start,
+    stop,
+    getAccessToken
+  }
+}
+
+// Export singleton instance
+export const impersonationStore = createImpersonationStore()
@@ -4,3 +4,4 @@ export * from './collections.svelte'
 export * from './theme.svelte'
 export * from './notifications.svelte'
 export * from './settings.svelte'
+export * from './impersonation.svelte'
@@ -0,0 +1,29 @@
+// API key types
+export type ApiKeyAction = 'read' | 'create' | 'update' | 'delete'
+
+// Actions a key may perform on a collection ('*' for all collections)
+export interface ApiKeyScope {
+  collection: string
+  actions: ApiKeyAction[]
+}
+
+export interface ApiKey {
+  id: string
+  name: string
+  key_prefix: string  // First characters of the key, to recognize it
+  scopes: ApiKeyScope[]
+  expires_at?: string
+  last_used_at?: string
+  created_at: string
+}
+
+export interface CreateApiKeyRequest {
+  name: string
+  scopes: ApiKeyScope[]
+  expires_at?: string
+}
+
+// The secret key is only returned once, when the key is created
+export interface CreatedApiKey extends ApiKey {
+  key: string
+}
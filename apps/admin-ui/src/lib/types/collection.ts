@@ -1,10 +1,22 @@
 // Collection types
+
+// Where clause a document must match for an operation; null allows admins only
+export type CollectionRule = Record<string, any> | null
+
+export interface CollectionRules {
+  read?: CollectionRule
+  create?: CollectionRule
+  update?: CollectionRule
+  delete?: CollectionRule
+}
+
 export interface Collection {
   id: string
   name: string
   schema?: Record<string, any>
   indexes?: string[]
   options?: Record<string, any>
+  rules?: CollectionRules
   metadata?: Record<string, any>
   documentCount?: number
   createdAt: string
@@ -26,12 +38,14 @@ export interface CreateCollectionRequest {
   schema?: Record<string, any>
   indexes?: Record<string, any>
   options?: Record<string, any>
+  rules?: CollectionRules
 }
 
 export interface UpdateCollectionRequest {
   schema?: Record<string, any>
   indexes?: Record<string, any>
   options?: Record<string, any>
+  rules?: CollectionRules
 }
 
 export interface BulkOperation {
@@ -19,10 +19,3 @@ export interface UploadFileResponse {
   data?: FileMetadata
   error?: string
 }
-
-export interface FileListQuery {
-  limit?: number
-  offset?: number
-  search?: string
-  content_type?: string
-}
@@ -6,3 +6,4 @@ export * from './document'
 export * from './query'
 export * from './file'
 export * from './realtime'
+export * from './apiKey'
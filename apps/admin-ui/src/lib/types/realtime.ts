@@ -1,20 +1,8 @@
+import type { RealtimeStatus } from '@swiftbase/sdk'
+
 // Realtime WebSocket types
-export type RealtimeAction = 'subscribe' | 'unsubscribe' | 'ping' | 'pong'
 export type RealtimeEventType = 'create' | 'update' | 'delete'
 
-export interface SubscriptionRequest {
-  action: 'subscribe'
-  collection: string
-  documentId?: string
-  query?: Record<string, any>
-}
-
-export interface UnsubscribeRequest {
-  action: 'unsubscribe'
-  collection: string
-  documentId?: string
-}
-
 export interface RealtimeEvent {
   event: RealtimeEventType
   collection: string
@@ -23,14 +11,6 @@ export interface RealtimeEvent {
   timestamp: string
 }
 
-export interface WebSocketMessage {
-  action: RealtimeAction
-  collection?: string
-  documentId?: string
-  query?: Record<string, any>
-  event?: RealtimeEvent
-}
-
 export interface Subscription {
   id: string
   collection: string
@@ -39,10 +19,13 @@ export interface Subscription {
   createdAt: Date
 }
 
-export enum ConnectionStatus {
-  CONNECTING = 'connecting',
-  CONNECTED = 'connected',
-  DISCONNECTED = 'disconnected',
-  RECONNECTING = 'reconnecting',
-  ERROR = 'error'
-}
+// Connection status of the SDK realtime client
+export type ConnectionStatus = RealtimeStatus
+
+export const ConnectionStatus = {
+  CONNECTING: 'connecting',
+  CONNECTED: 'connected',
+  DISCONNECTED: 'disconnected',
+  RECONNECTING: 'reconnecting',
+  ERROR: 'error'
+} as const satisfies Record<string, RealtimeStatus>
@@ -3,12 +3,33 @@ export interface User {
   id: string
   email: string
   email_verified: boolean
+  role?: string
   metadata: Record<string, any>
   last_login?: string
   created_at: string
   updated_at: string
 }
 
+// Signed-in device of a user (one per refresh token)
+export interface UserSession {
+  id: string
+  device?: string
+  ip_address?: string
+  user_agent?: string
+  created_at: string
+  last_used_at: string
+}
+
+// Second factor of a user (TOTP)
+export interface MfaFactor {
+  id: string
+  type: 'totp'
+  friendly_name?: string
+  status: 'verified' | 'unverified'
+  last_used_at?: string
+  created_at: string
+}
+
 export interface Admin {
   id: string
   username: string
@@ -38,6 +38,15 @@ export const validation = {
     }
   },
 
+  // Collection access rules validation (operation -> where clause object or null)
+  isValidRules(rules: unknown): boolean {
+    if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) return false
+    return Object.entries(rules).every(([operation, rule]) =>
+      ['read', 'create', 'update', 'delete'].includes(operation) &&
+      (rule === null || (typeof rule === 'object' && !Array.isArray(rule)))
+    )
+  },
+
   // Required field validation
   isRequired(value: any): boolean {
     if (value === null || value === undefined) return false
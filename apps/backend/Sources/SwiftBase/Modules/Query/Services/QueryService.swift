@@ -7,6 +7,11 @@ private struct SendableJSONDict: @unchecked Sendable {
     let dict: [String: Any]
 }
 
+/// Wrapper to make JSON value arrays Sendable
+private struct SendableJSONArray: @unchecked Sendable {
+    let values: [Any]
+}
+
 /// Main service for executing MongoDB-style queries
 public actor QueryService {
     private let dbService: DatabaseService
@@ -95,6 +100,10 @@ public actor QueryService {
         )
         logger.info("executeFind: Built SQL: \(sql)")
 
+        if parsedQuery.distinct != nil {
+            return try await executeDistinct(sql: sql, arguments: args, collection: request.collection)
+        }
+
         let sendableData = try await dbService.read { db in
             let rows = try Row.fetchAll(db, sql: sql, arguments: StatementArguments(args))
             return rows.compactMap { row -> SendableJSONDict? in
@@ -126,6 +135,43 @@ public actor QueryService {
         )
     }
 
+    /// Execute a find query with `distinct` (returns the distinct field values)
+    private func executeDistinct(
+        sql: String,
+        arguments: [DatabaseValue],
+        collection: String
+    ) async throws -> QueryResponse {
+        let sendableValues = try await dbService.read { db in
+            let rows = try Row.fetchAll(db, sql: sql, arguments: StatementArguments(arguments))
+            let values = rows.map { row -> Any in
+                // The only column is the extracted field value
+                let dbValue: DatabaseValue = row[0]
+                switch dbValue.storage {
+                case .null:
+                    return NSNull()
+                case .int64(let int):
+                    return Int(int)
+                case .double(let double):
+                    return double
+                case .string(let string):
+                    return string
+                case .blob(let data):
+                    return data.base64EncodedString()
+                }
+            }
+            return SendableJSONArray(values: values)
+        }
+
+        let values = sendableValues.values
+        logger.debug("Found \(values.count) distinct value(s) in collection '\(collection)'")
+
+        return QueryResponse(
+            success: true,
+            data: AnyCodable(values),
+            count: values.count
+        )
+    }
+
     /// Execute a findOne query (returns single document)
     private func executeFindOne(_ request: QueryRequest) async throws -> QueryResponse {
         let collectionId = try await getCollectionId(name: request.collection)
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useRef } from 'react'
 import {
   createClient,
   type SwiftBaseClient,
@@ -7,6 +7,14 @@ import {
   type FileMetadata,
   type Collection,
 } from '@swiftbase/sdk'
+import {
+  SwiftBaseProvider,
+  useSession,
+  useQuery,
+  useSubscription,
+  useRealtimeStatus,
+  useUpload,
+} from '@swiftbase/react'
 
 // Initialize SDK client
 const sb = createClient({
@@ -52,38 +60,19 @@ interface Document {
 }
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<Tab>('auth')
-  const [user, setUser] = useState<User | null>(null)
-  const [isAdmin, setIsAdmin] = useState(false)
-  const [loading, setLoading] = useState(true)
-
-  useEffect(() => {
-    // Initialize and restore session
-    sb.ready().then(async () => {
-      const session = sb.auth.getSession()
-      if (session?.user) {
-        setUser(session.user)
-      } else if (session?.admin) {
-        setIsAdmin(true)
-      }
-      setLoading(false)
-    })
-
-    // Listen to auth changes
-    const unsubscribe = sb.auth.onAuthStateChange((event, session) => {
-      if (event === 'SIGNED_IN') {
-        if (session?.user) setUser(session.user)
-        if (session?.admin) setIsAdmin(true)
-      } else if (event === 'SIGNED_OUT') {
-        setUser(null)
-        setIsAdmin(false)
-      }
-    })
+  return (
+    <SwiftBaseProvider client={sb}>
+      <Demo />
+    </SwiftBaseProvider>
+  )
+}
 
-    return () => unsubscribe()
-  }, [])
+function Demo() {
+  const [activeTab, setActiveTab] = useState<Tab>('auth')
+  const { user, admin, isLoading } = useSession()
+  const isAdmin = admin !== null
 
-  if (loading) {
+  if (isLoading) {
     return <div className="loading">Loading...</div>
   }
 
@@ -226,6 +215,9 @@ function AuthDemo({ sb, user, isAdmin }: { sb: SwiftBaseClient; user: User | nul
 function QueryDemo({ sb }: { sb: SwiftBaseClient }) {
   const [collection, setCollection] = useState('products')
   const [output, setOutput] = useState('')
+  const latest = useQuery(
+    sb.collection<Document>(collection).orderBy('createdAt', 'desc').limit(10)
+  )
 
   const log = (msg: string, data?: unknown) => {
     const text = data !== undefined ? `${msg}\n${formatData(data)}` : msg
@@ -315,6 +307,20 @@ function QueryDemo({ sb }: { sb: SwiftBaseClient }) {
         <button onClick={handleDelete}>Delete Inactive</button>
       </div>
 
+      <div className="collection-list">
+        <h3>
+          Latest documents ({latest.data?.length ?? 0}){latest.isFetching && ' - refreshing...'}
+        </h3>
+        <p className="hint">Kept up to date by realtime events.</p>
+        {latest.error && <p className="warning">{latest.error.message}</p>}
+        {latest.data?.map((doc) => (
+          <div key={doc.id} className="collection-item">
+            <span>{doc.name}</span>
+            <span>{doc.price ?? '-'}</span>
+          </div>
+        ))}
+      </div>
+
       <pre className="output">{output || 'Output will appear here...'}</pre>
     </section>
   )
@@ -324,35 +330,28 @@ function QueryDemo({ sb }: { sb: SwiftBaseClient }) {
 function RealtimeDemo({ sb }: { sb: SwiftBaseClient }) {
   const [collection, setCollection] = useState('products')
   const [events, setEvents] = useState<RealtimeEvent[]>([])
-  const [status, setStatus] = useState(sb.realtime.getStatus())
+  const status = useRealtimeStatus()
   const [isSubscribed, setIsSubscribed] = useState(false)
   const [output, setOutput] = useState('')
   const [lastCreatedId, setLastCreatedId] = useState<string | null>(null)
-  const unsubRef = useRef<(() => void) | null>(null)
 
   const log = (msg: string, data?: unknown) => {
     const text = data !== undefined ? `${msg}\n${formatData(data)}` : msg
     setOutput((prev) => `${text}\n\n${prev}`)
   }
 
-  useEffect(() => {
-    const unsub = sb.realtime.onStatusChange(setStatus)
-    return () => unsub()
-  }, [sb])
+  useSubscription(isSubscribed ? collection : null, (event) => {
+    setEvents((prev) => [event, ...prev].slice(0, 20))
+  })
 
   const handleSubscribe = () => {
-    if (unsubRef.current) return
-    unsubRef.current = sb.realtime.subscribe(collection, (event) => {
-      setEvents((prev) => [event, ...prev].slice(0, 20))
-    })
+    if (isSubscribed) return
     setIsSubscribed(true)
     log(`Subscribed to "${collection}" collection`)
   }
 
   const handleUnsubscribe = () => {
-    if (unsubRef.current) {
-      unsubRef.current()
-      unsubRef.current = null
+    if (isSubscribed) {
       setIsSubscribed(false)
       log(`Unsubscribed from "${collection}" collection`)
     }
@@ -366,7 +365,6 @@ function RealtimeDemo({ sb }: { sb: SwiftBaseClient }) {
   const handleDisconnect = () => {
     sb.realtime.disconnect()
     setIsSubscribed(false)
-    unsubRef.current = null
     log('Disconnected from WebSocket')
   }
 
@@ -483,7 +481,7 @@ function RealtimeDemo({ sb }: { sb: SwiftBaseClient }) {
 // ============ STORAGE DEMO ============
 function StorageDemo({ sb }: { sb: SwiftBaseClient }) {
   const [files, setFiles] = useState<FileMetadata[]>([])
-  const [uploadProgress, setUploadProgress] = useState(0)
+  const { upload, progress, isUploading, error: uploadError } = useUpload()
   const [output, setOutput] = useState('')
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -496,18 +494,13 @@ function StorageDemo({ sb }: { sb: SwiftBaseClient }) {
     const file = fileInputRef.current?.files?.[0]
     if (!file) return
 
-    try {
-      setUploadProgress(0)
-      const result = await sb.storage.upload(file, {
-        onProgress: (p) => setUploadProgress(p.percentage),
-        metadata: { uploadedAt: new Date().toISOString() },
-      })
+    // Failures are reported through uploadError
+    const result = await upload(file, {
+      metadata: { uploadedAt: new Date().toISOString() },
+    })
+    if (result) {
       log('Uploaded:', result)
-      setUploadProgress(0)
       handleListFiles()
-    } catch (err) {
-      log('Upload error:', err)
-      setUploadProgress(0)
     }
   }
 
@@ -548,7 +541,8 @@ function StorageDemo({ sb }: { sb: SwiftBaseClient }) {
       <div className="form-group">
         <input type="file" ref={fileInputRef} />
         <button onClick={handleUpload}>Upload</button>
-        {uploadProgress > 0 && <progress value={uploadProgress} max={100} />}
+        {isUploading && <progress value={progress?.percentage ?? 0} max={100} />}
+        {uploadError && <p className="warning">Upload error: {uploadError.message}</p>}
       </div>
 
       <div className="buttons">
@@ -0,0 +1,45 @@
+import { createContext, useContext, type ReactNode } from 'react'
+import type { AnyClient, DatabaseSchema, Document, SwiftBaseClient } from '@swiftbase/sdk'
+
+const SwiftBaseContext = createContext<AnyClient | null>(null)
+
+/**
+ * SwiftBaseProvider props
+ */
+export interface SwiftBaseProviderProps {
+  /** Client used by the hooks below this provider */
+  client: AnyClient
+  children?: ReactNode
+}
+
+/**
+ * Make a SwiftBase client available to the hooks of this package
+ *
+ * @example
+ * ```tsx
+ * const sb = createClient({ url: 'http://localhost:8090' })
+ *
+ * createRoot(root).render(
+ *   <SwiftBaseProvider client={sb}>
+ *     <App />
+ *   </SwiftBaseProvider>
+ * )
+ * ```
+ */
+export function SwiftBaseProvider({ client, children }: SwiftBaseProviderProps) {
+  return <SwiftBaseContext.Provider value={client}>{children}</SwiftBaseContext.Provider>
+}
+
+/**
+ * Get the client of the nearest `SwiftBaseProvider`
+ * @example
+ * const sb = useSwiftBase<Database>()
+ * const products = sb.collection('products')
+ */
+export function useSwiftBase<DB extends DatabaseSchema = Record<string, Document>>(): SwiftBaseClient<DB> {
+  const client = useContext(SwiftBaseContext)
+  if (!client) {
+    throw new Error('useSwiftBase() must be used within a <SwiftBaseProvider>')
+  }
+  return client as SwiftBaseClient<DB>
+}
@@ -0,0 +1,6 @@
+export { useSession, type UseSessionOptions } from './useSession.js'
+export { useQuery, type UseQueryOptions, type UseQueryResult } from './useQuery.js'
+export { useMutation, type UseMutationOptions, type UseMutationResult } from './useMutation.js'
+export { useSubscription, type UseSubscriptionOptions } from './useSubscription.js'
+export { useRealtimeStatus } from './useRealtimeStatus.js'
+export { useUpload, type UseUploadResult } from './useUpload.js'
@@ -0,0 +1,113 @@
+import { useCallback, useRef, useState } from 'react'
+import type { DatabaseSchema, Document, SwiftBaseClient } from '@swiftbase/sdk'
+import { useSwiftBase } from '../context.js'
+import { refetchQueries } from '../store.js'
+
+/**
+ * useMutation options
+ */
+export interface UseMutationOptions<V, D> {
+  /** Collections whose rendered queries are re-fetched after a successful mutation */
+  invalidates?: string[] | undefined
+  /** Called with the result of a successful mutation */
+  onSuccess?: ((data: D, variables: V) => void) | undefined
+  /** Called with the error of a failed mutation */
+  onError?: ((error: Error, variables: V) => void) | undefined
+}
+
+/**
+ * useMutation result
+ */
+export interface UseMutationResult<V, D> {
+  /** Run the mutation; failures are reported through `error` */
+  mutate: (variables: V) => Promise<D | undefined>
+  /** Run the mutation; failures reject */
+  mutateAsync: (variables: V) => Promise<D>
+  /** Result of the latest successful mutation */
+  data: D | undefined
+  /** Error of the latest mutation */
+  error: Error | null
+  /** True while the latest mutation is in flight */
+  isPending: boolean
+  /** Clear `data` and `error` */
+  reset: () => void
+}
+
+interface MutationState<D> {
+  data: D | undefined
+  error: Error | null
+  isPending: boolean
+}
+
+/**
+ * Run writes and track their state
+ *
+ * @remarks
+ * Only the latest call updates the state. Queries rendered with `useQuery`
+ * follow realtime events; list collections in `invalidates` to re-fetch them
+ * right away as well.
+ *
+ * @example
+ * ```tsx
+ * function AddProduct() {
+ *   const { mutate, isPending, error } = useMutation(
+ *     (name: string, sb) => sb.collection('products').create({ name }),
+ *     { invalidates: ['products'] }
+ *   )
+ *
+ *   return <button disabled={isPending} onClick={() => mutate('New product')}>Add</button>
+ * }
+ * ```
+ */
+export function useMutation<V = void, D = unknown, DB extends DatabaseSchema = Record<string, Document>>(
+  mutation: (variables: V, client: SwiftBaseClient<DB>) => Promise<D>,
+  options: UseMutationOptions<V, D> = {}
+): UseMutationResult<V, D> {
+  const client = useSwiftBase<DB>()
+  const [state, setState] = useState<MutationState<D>>({ data: undefined, error: null, isPending: false })
+  const latest = useRef({ mutation, options })
+  latest.current = { mutation, options }
+  const calls = useRef(0)
+
+  const mutateAsync = useCallback(async (variables: V): Promise<D> => {
+    const call = ++calls.current
+    const { mutation, options } = latest.current
+    setState((previous) => ({ ...previous, error: null, isPending: true }))
+
+    let data: D
+    try {
+      data = await mutation(variables, client)
+    } catch (error) {
+      if (call === calls.current) {
+        setState((previous) => ({ ...previous, error: error as Error, isPending: false }))
+      }
+      options.onError?.(error as Error, variables)
+      throw error
+    }
+
+    if (options.invalidates) {
+      refetchQueries(client, options.invalidates)
+    }
+    if (call === calls.current) {
+      setState({ data, error: null, isPending: false })
+    }
+    options.onSuccess?.(data, variables)
+    return data
+  }, [client])
+
+  const mutate = useCallback(async (variables: V): Promise<D | undefined> => {
+    try {
+      return await mutateAsync(variables)
+    } catch {
+      // Reported through the error state
+      return undefined
+    }
+  }, [mutateAsync])
+
+  const reset = useCallback(() => {
+    calls.current++
+    setState({ data: undefined, error: null, isPending: false })
+  }, [])
+
+  return { ...state, mutate, mutateAsync, reset }
+}
@@ -0,0 +1,100 @@
+import { useSyncExternalStore } from 'react'
+import type { QueryBuilder } from '@swiftbase/sdk'
+import { useSwiftBase } from '../context.js'
+import { getQueryStore, type QueryState } from '../store.js'
+
+/**
+ * useQuery options
+ */
+export interface UseQueryOptions<R> {
+  /** Keep the result set in sync with realtime events (default: true) */
+  live?: boolean | undefined
+  /** Suspend until the first result set is loaded instead of reporting `isLoading` */
+  suspense?: boolean | undefined
+  /** Result set to render before the first fetch, e.g. data loaded on the server */
+  initialData?: R[] | undefined
+}
+
+/**
+ * useQuery result
+ */
+export interface UseQueryResult<R> extends QueryState<R> {
+  /** Re-run the query */
+  refetch: () => Promise<R[]>
+}
+
+const IDLE: QueryState<never> = { data: undefined, error: null, isLoading: false, isFetching: false }
+const subscribeIdle = () => () => {}
+const getIdle = () => IDLE
+
+/**
+ * Run a query and re-render with its result set
+ *
+ * @remarks
+ * - Components rendering the same query (by `QueryBuilder.toKey()`) share one
+ *   fetch and one result set, so the builder can be created inline on every
+ *   render.
+ * - With `live` (the default) the result set follows realtime events through
+ *   a live query. Queries using `include()` are re-fetched on every event of
+ *   their collection instead.
+ * - Pass `null` to skip the query, e.g. until its parameters are known.
+ * - Nothing is fetched during server rendering unless `suspense` is set;
+ *   pass `initialData` to render server-loaded results.
+ *
+ * @example
+ * ```tsx
+ * function OpenOrders() {
+ *   const sb = useSwiftBase<Database>()
+ *   const { data, error, isLoading, refetch } = useQuery(
+ *     sb.collection('orders').where({ status: 'open' }).orderBy('createdAt', 'desc')
+ *   )
+ *
+ *   if (isLoading) return <Spinner />
+ *   if (error) return <button onClick={refetch}>Retry</button>
+ *   return <OrderList orders={data} />
+ * }
+ * ```
+ */
+export function useQuery<T, R>(
+  builder: QueryBuilder<T, R> | null | undefined,
+  options: UseQueryOptions<R> & { suspense: true }
+): UseQueryResult<R> & { data: R[] }
+export function useQuery<T, R>(
+  builder: QueryBuilder<T, R> | null | undefined,
+  options?: UseQueryOptions<R>
+): UseQueryResult<R>
+export function useQuery<T, R>(
+  builder: QueryBuilder<T, R> | null | undefined,
+  options: UseQueryOptions<R> = {}
+): UseQueryResult<R> {
+  const client = useSwiftBase()
+  const live = options.live ?? true
+  const key = builder ? `${live ? 'live' : 'once'}:${builder.toKey()}` : null
+
+  // The builder is recreated on every render; stores are looked up by the
+  // key of its query, so every render with the same key gets the same store
+  const store = builder && key ? getQueryStore(client, key, builder, live, options.initialData) : null
+
+  const state = useSyncExternalStore<QueryState<R>>(
+    store?.subscribe ?? subscribeIdle,
+    store?.getSnapshot ?? getIdle,
+    store?.getServerSnapshot ?? getIdle
+  )
+  const refetch = store?.fetch ?? fetchIdle
+
+  if (!options.suspense || !store) {
+    return { ...state, refetch }
+  }
+
+  // The server snapshot never has data; suspending reads the live state
+  const current = store.getSnapshot()
+  if (current.data === undefined) {
+    if (current.error) throw current.error
+    throw store.fetch()
+  }
+  return { ...current, refetch }
+}
+
+async function fetchIdle(): Promise<never[]> {
+  return []
+}
@@ -0,0 +1,24 @@
+import { useCallback, useSyncExternalStore } from 'react'
+import type { RealtimeStatus } from '@swiftbase/sdk'
+import { useSwiftBase } from '../context.js'
+
+const getServerStatus = (): RealtimeStatus => 'disconnected'
+
+/**
+ * Connection status of the realtime WebSocket.
+ * Reported as `'disconnected'` during server rendering and hydration.
+ *
+ * @example
+ * ```tsx
+ * function ConnectionBadge() {
+ *   const status = useRealtimeStatus()
+ *   return <span className={`status ${status}`}>{status}</span>
+ * }
+ * ```
+ */
+export function useRealtimeStatus(): RealtimeStatus {
+  const { realtime } = useSwiftBase()
+  const subscribe = useCallback((listener: () => void) => realtime.onStatusChange(listener), [realtime])
+
+  return useSyncExternalStore(subscribe, () => realtime.getStatus(), getServerStatus)
+}
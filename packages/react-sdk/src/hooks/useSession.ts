@@ -0,0 +1,40 @@
+import { useSyncExternalStore } from 'react'
+import { useSwiftBase } from '../context.js'
+import { getSessionStore, type SessionState } from '../store.js'
+
+/**
+ * useSession options
+ */
+export interface UseSessionOptions {
+  /** Suspend until the stored session is restored instead of reporting `isLoading` */
+  suspense?: boolean | undefined
+}
+
+/**
+ * Current session, user and admin, updated on every auth state change
+ *
+ * @remarks
+ * During server rendering and hydration the session is reported as loading.
+ *
+ * @example
+ * ```tsx
+ * function Header() {
+ *   const { user, isLoading } = useSession()
+ *   if (isLoading) return <Spinner />
+ *   return user ? <span>{user.email}</span> : <LoginButton />
+ * }
+ * ```
+ */
+export function useSession(options: UseSessionOptions = {}): SessionState {
+  const store = getSessionStore(useSwiftBase())
+  const state = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getServerSnapshot)
+
+  if (!options.suspense) return state
+
+  // The server snapshot is always loading; suspending reads the live state
+  const current = store.getSnapshot()
+  if (current.isLoading) {
+    throw store.ready
+  }
+  return current
+}
@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react'
+import type { RealtimeCallback } from '@swiftbase/sdk'
+import { useSwiftBase } from '../context.js'
+
+/**
+ * useSubscription options
+ */
+export interface UseSubscriptionOptions {
+  /** Only receive events for this document */
+  documentId?: string | undefined
+}
+
+/**
+ * Receive realtime events of a collection (or one document) while mounted
+ *
+ * @remarks
+ * The callback may change between renders without resubscribing.
+ * Pass `null` as collection to unsubscribe. Nothing is subscribed during
+ * server rendering.
+ *
+ * @example
+ * ```tsx
+ * function ActivityFeed() {
+ *   const [events, setEvents] = useState<RealtimeEvent[]>([])
+ *   useSubscription('orders', (event) => setEvents((prev) => [event, ...prev]))
+ *   return <EventList events={events} />
+ * }
+ * ```
+ */
+export function useSubscription<T = unknown>(
+  collection: string | null | undefined,
+  callback: RealtimeCallback<T>,
+  options: UseSubscriptionOptions = {}
+): void {
+  const client = useSwiftBase()
+  const latest = useRef(callback)
+  latest.current = callback
+  const { documentId } = options
+
+  useEffect(() => {
+    if (!collection) return
+
+    const listener: RealtimeCallback<T> = (event) => latest.current(event)
+    return documentId !== undefined
+      ? client.realtime.subscribe<T>(collection, documentId, listener)
+      : client.realtime.subscribe<T>(collection, listener)
+  }, [client, collection, documentId])
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { FileInput, FileMetadata, UploadOptions, UploadProgress } from '@swiftbase/sdk'
+import { useSwiftBase } from '../context.js'
+
+/**
+ * useUpload result
+ */
+export interface UseUploadResult {
+  /** Upload a file; failures resolve to undefined and are reported through `error` */
+  upload: (file: FileInput, options?: UploadOptions) => Promise<FileMetadata | undefined>
+  /** Abort the upload in flight */
+  cancel: () => void
+  /** Clear `data`, `error` and `progress` */
+  reset: () => void
+  /** Progress of the upload in flight, or of the last one */
+  progress: UploadProgress | null
+  /** Metadata of the last uploaded file */
+  data: FileMetadata | undefined
+  /** Error of the last upload */
+  error: Error | null
+  /** True while an upload is in flight */
+  isUploading: boolean
+}
+
+interface UploadState {
+  progress: UploadProgress | null
+  data: FileMetadata | undefined
+  error: Error | null
+  isUploading: boolean
+}
+
+const INITIAL_STATE: UploadState = { progress: null, data: undefined, error: null, isUploading: false }
+
+/**
+ * Upload files with progress
+ *
+ * @remarks
+ * Starting an upload aborts the previous one, as does unmounting.
+ * Progress comes from `UploadOptions.onProgress`; a callback passed in the
+ * options is still called.
+ *
+ * @example
+ * ```tsx
+ * function AvatarUpload() {
+ *   const { upload, progress, isUploading, cancel } = useUpload()
+ *
+ *   return (
+ *     <>
+ *       <input type="file" onChange={(e) => e.target.files?.[0] && upload(e.target.files[0])} />
+ *       {isUploading && <progress value={progress?.percentage ?? 0} max={100} />}
+ *       {isUploading && <button onClick={cancel}>Cancel</button>}
+ *     </>
+ *   )
+ * }
+ * ```
+ */
+export function useUpload(): UseUploadResult {
+  const { storage } = useSwiftBase()
+  const [state, setState] = useState<UploadState>(INITIAL_STATE)
+  const controller = useRef<AbortController | null>(null)
+
+  useEffect(() => () => controller.current?.abort(), [])
+
+  const upload = useCallback(async (file: FileInput, options: UploadOptions = {}): Promise<FileMetadata | undefined> => {
+    controller.current?.abort()
+    const current = new AbortController()
+    controller.current = current
+    options.signal?.addEventListener('abort', () => current.abort())
+    setState({ progress: null, data: undefined, error: null, isUploading: true })
+
+    try {
+      const data = await storage.upload(file, {
+        ...options,
+        signal: current.signal,
+        onProgress: (progress) => {
+          if (controller.current === current) {
+            setState((previous) => ({ ...previous, progress }))
+          }
+          options.onProgress?.(progress)
+        },
+      })
+      if (controller.current === current) {
+        setState((previous) => ({ ...previous, data, isUploading: false }))
+      }
+      return data
+    } catch (error) {
+      if (controller.current === current) {
+        setState((previous) => ({ ...previous, error: error as Error, isUploading: false }))
+      }
+      return undefined
+    } finally {
+      if (controller.current === current) {
+        controller.current = null
+      }
+    }
+  }, [storage])
+
+  const cancel = useCallback(() => {
+    controller.current?.abort()
+  }, [])
+
+  const reset = useCallback(() => {
+    controller.current?.abort()
+    controller.current = null
+    setState(INITIAL_STATE)
+  }, [])
+
+  return { ...state, upload, cancel, reset }
+}
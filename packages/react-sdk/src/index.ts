@@ -0,0 +1,55 @@
+/**
+ * @swiftbase/react - React bindings for the SwiftBase SDK
+ *
+ * Hooks for sessions, queries, writes, realtime and uploads. All hooks are
+ * safe to render on the server and support Suspense where they load data.
+ *
+ * @packageDocumentation
+ *
+ * @example Quick Start
+ * ```tsx
+ * import { createClient } from '@swiftbase/sdk'
+ * import { SwiftBaseProvider, useQuery, useSwiftBase } from '@swiftbase/react'
+ *
+ * const sb = createClient({ url: 'http://localhost:8090' })
+ *
+ * function Products() {
+ *   const sb = useSwiftBase()
+ *   const { data = [], isLoading } = useQuery(sb.collection('products').where({ active: true }))
+ *
+ *   if (isLoading) return <p>Loading...</p>
+ *   return <ul>{data.map((product) => <li key={product.id}>{product.name}</li>)}</ul>
+ * }
+ *
+ * createRoot(root).render(
+ *   <SwiftBaseProvider client={sb}>
+ *     <Products />
+ *   </SwiftBaseProvider>
+ * )
+ * ```
+ */
+
+// Provider
+export { SwiftBaseProvider, useSwiftBase, type SwiftBaseProviderProps } from './context.js'
+
+// Hooks
+export {
+  useSession,
+  useQuery,
+  useMutation,
+  useSubscription,
+  useRealtimeStatus,
+  useUpload,
+} from './hooks/index.js'
+
+// Types
+export type {
+  UseSessionOptions,
+  UseQueryOptions,
+  UseQueryResult,
+  UseMutationOptions,
+  UseMutationResult,
+  UseSubscriptionOptions,
+  UseUploadResult,
+} from './hooks/index.js'
+export type { SessionState, QueryState } from './store.js'
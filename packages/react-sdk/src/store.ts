@@ -0,0 +1,314 @@
+import type { Admin, AnyClient, LiveQuery, QueryBuilder, Session, Unsubscribe, User } from '@swiftbase/sdk'
+
+/**
+ * How long results of unused queries are kept, in ms
+ */
+const UNUSED_QUERY_TTL = 5 * 60 * 1000
+
+/**
+ * Auth state of a client
+ */
+export interface SessionState {
+  session: Session | null
+  user: User | null
+  admin: Admin | null
+  /** True until the client has restored the stored session */
+  isLoading: boolean
+}
+
+/**
+ * State of a query
+ */
+export interface QueryState<R> {
+  /** Latest result set, undefined until the first fetch completes */
+  data: R[] | undefined
+  /** Error of the latest fetch */
+  error: Error | null
+  /** True while fetching without a result set to show */
+  isLoading: boolean
+  /** True while any fetch is in flight */
+  isFetching: boolean
+}
+
+/**
+ * Parts of a query builder a query store uses
+ * @internal
+ */
+export type QuerySource<R> = Pick<QueryBuilder<unknown, R>, 'find' | 'live' | 'getCollection'>
+
+const LOADING_SESSION: SessionState = { session: null, user: null, admin: null, isLoading: true }
+
+/**
+ * Auth state of a client as an external store for `useSyncExternalStore`
+ * @internal
+ */
+export class SessionStore {
+  readonly ready: Promise<void>
+  private state: SessionState = LOADING_SESSION
+  private isReady = false
+  private readonly listeners = new Set<() => void>()
+
+  constructor(private readonly client: AnyClient) {
+    const onReady = (): void => {
+      this.isReady = true
+      this.update()
+    }
+    // A failed restore leaves the client signed out
+    this.ready = client.ready().then(onReady, onReady)
+    client.auth.onAuthStateChange(() => this.update())
+  }
+
+  subscribe = (listener: () => void): Unsubscribe => {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  getSnapshot = (): SessionState => this.state
+
+  getServerSnapshot = (): SessionState => LOADING_SESSION
+
+  /**
+   * Rebuild the snapshot when the session or ready state changed
+   */
+  private update(): void {
+    const session = this.client.auth.getSession()
+    if (this.isReady && !this.state.isLoading && session === this.state.session) return
+
+    this.state = {
+      session,
+      user: session?.user ?? null,
+      admin: session?.admin ?? null,
+      isLoading: !this.isReady,
+    }
+    for (const listener of this.listeners) listener()
+  }
+}
+
+/**
+ * Result set of one query, shared by every component rendering it
+ *
+ * @remarks
+ * The first subscriber starts the query and, when `live` is set, keeps it in
+ * sync with realtime events: through a `LiveQuery` when the builder supports
+ * one, otherwise by re-fetching on every event of the collection. The last
+ * subscriber to leave stops it; the result set is kept so remounting shows
+ * it at once while re-fetching.
+ * @internal
+ */
+export class QueryStore<R> {
+  readonly collection: string
+  private state: QueryState<R>
+  private readonly initialState: QueryState<R>
+  private readonly listeners = new Set<() => void>()
+  private pending: Promise<R[]> | null = null
+  private version = 0
+  private errors = 0
+  private liveQuery: LiveQuery<R> | null = null
+  private stopWatching: Unsubscribe | null = null
+  unusedSince: number | null = Date.now()
+
+  constructor(
+    private readonly client: AnyClient,
+    private readonly source: QuerySource<R>,
+    private readonly live: boolean,
+    initialData: R[] | undefined
+  ) {
+    this.collection = source.getCollection()
+    this.initialState = {
+      data: initialData,
+      error: null,
+      isLoading: initialData === undefined,
+      isFetching: false,
+    }
+    this.state = this.initialState
+  }
+
+  subscribe = (listener: () => void): Unsubscribe => {
+    this.listeners.add(listener)
+    if (this.listeners.size === 1) {
+      this.unusedSince = null
+      this.start()
+    }
+
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) {
+        this.stop()
+        this.unusedSince = Date.now()
+      }
+    }
+  }
+
+  getSnapshot = (): QueryState<R> => this.state
+
+  getServerSnapshot = (): QueryState<R> => this.initialState
+
+  /**
+   * Whether any component renders this query
+   */
+  isActive(): boolean {
+    return this.listeners.size > 0
+  }
+
+  /**
+   * Re-run the query, sharing a fetch already in flight
+   */
+  fetch = (): Promise<R[]> => {
+    if (this.pending) return this.pending
+
+    const version = ++this.version
+    this.setState({ isFetching: true, isLoading: this.state.data === undefined })
+
+    const request = this.liveQuery ? this.refetchLive(this.liveQuery) : this.source.find()
+    const promise = request
+      .then((data) => {
+        if (version === this.version) {
+          this.setState({ data, error: null, isLoading: false, isFetching: false })
+        }
+        return data
+      }, (error: unknown) => {
+        if (version === this.version) {
+          this.setState({ error: error as Error, isLoading: false, isFetching: false })
+        }
+        throw error
+      })
+      .finally(() => {
+        if (this.pending === promise) this.pending = null
+      })
+
+    this.pending = promise
+    return promise
+  }
+
+  /**
+   * Start fetching and watching realtime events
+   */
+  private start(): void {
+    if (this.live) {
+      try {
+        this.liveQuery = this.source.live()
+      } catch {
+        // Queries with include() cannot be evaluated client-side
+        this.liveQuery = null
+      }
+    }
+
+    if (this.liveQuery) {
+      this.setState({ isFetching: true, isLoading: this.state.data === undefined })
+      this.stopWatching = this.liveQuery.subscribe(
+        ({ data }) => this.setState({ data, error: null, isLoading: false, isFetching: false }),
+        (error) => {
+          this.errors++
+          this.setState({ error, isLoading: false, isFetching: false })
+        }
+      )
+      return
+    }
+
+    if (this.live) {
+      this.stopWatching = this.client.realtime.subscribe(this.collection, () => {
+        this.fetch().catch(() => {
+          // Kept in the query state
+        })
+      })
+    }
+    this.fetch().catch(() => {
+      // Kept in the query state
+    })
+  }
+
+  /**
+   * Stop watching realtime events; fetches in flight no longer update the state
+   */
+  private stop(): void {
+    this.stopWatching?.()
+    this.stopWatching = null
+    this.liveQuery = null
+    this.pending = null
+    this.version++
+    if (this.state.isFetching) {
+      this.setState({ isFetching: false })
+    }
+  }
+
+  /**
+   * Re-run a live query; it reports errors to its listeners instead of rejecting
+   */
+  private async refetchLive(liveQuery: LiveQuery<R>): Promise<R[]> {
+    const errors = this.errors
+    const data = await liveQuery.refetch()
+    if (this.errors !== errors) throw this.state.error
+    return data
+  }
+
+  /**
+   * Replace the snapshot and notify subscribers
+   */
+  private setState(patch: Partial<QueryState<R>>): void {
+    this.state = { ...this.state, ...patch }
+    for (const listener of this.listeners) listener()
+  }
+}
+
+const sessionStores = new WeakMap<AnyClient, SessionStore>()
+const queryStores = new WeakMap<AnyClient, Map<string, QueryStore<unknown>>>()
+
+/**
+ * Get the auth state store of a client
+ * @internal
+ */
+export function getSessionStore(client: AnyClient): SessionStore {
+  let store = sessionStores.get(client)
+  if (!store) {
+    store = new SessionStore(client)
+    sessionStores.set(client, store)
+  }
+  return store
+}
+
+/**
+ * Get the store of a query, creating it on first use.
+ * Creating a store drops stores nothing has rendered for a while.
+ * @internal
+ */
+export function getQueryStore<R>(
+  client: AnyClient,
+  key: string,
+  source: QuerySource<R>,
+  live: boolean,
+  initialData: R[] | undefined
+): QueryStore<R> {
+  let stores = queryStores.get(client)
+  if (!stores) {
+    stores = new Map()
+    queryStores.set(client, stores)
+  }
+
+  const existing = stores.get(key)
+  if (existing) return existing as QueryStore<R>
+
+  const now = Date.now()
+  for (const [storeKey, store] of stores) {
+    if (store.unusedSince !== null && now - store.unusedSince > UNUSED_QUERY_TTL) {
+      stores.delete(storeKey)
+    }
+  }
+
+  const store = new QueryStore<R>(client, source, live, initialData)
+  stores.set(key, store as QueryStore<unknown>)
+  return store
+}
+
+/**
+ * Re-fetch the queries of collections that components render
+ * @internal
+ */
+export function refetchQueries(client: AnyClient, collections: string[]): void {
+  for (const store of queryStores.get(client)?.values() ?? []) {
+    if (store.isActive() && collections.includes(store.collection)) {
+      store.fetch().catch(() => {
+        // Kept in the query state
+      })
+    }
+  }
+}
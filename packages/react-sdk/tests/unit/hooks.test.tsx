@@ -0,0 +1,292 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Suspense, type ReactNode } from 'react'
+import { act, render, renderHook, screen, waitFor } from '@testing-library/react'
+import type { AnyClient, FileMetadata, Session, UploadOptions } from '@swiftbase/sdk'
+import {
+  SwiftBaseProvider,
+  useMutation,
+  useQuery,
+  useRealtimeStatus,
+  useSession,
+  useSubscription,
+  useSwiftBase,
+  useUpload,
+} from '../../src'
+import { createMockClient, createMockQuery } from '../mocks'
+
+const session: Session = {
+  accessToken: 'access',
+  refreshToken: 'refresh',
+  expiresAt: Date.now() + 60_000,
+  user: { id: 'u1', email: 'ada@example.com' } as Session['user'],
+}
+
+function wrapper(client: AnyClient) {
+  return ({ children }: { children: ReactNode }) => (
+    <SwiftBaseProvider client={client}>{children}</SwiftBaseProvider>
+  )
+}
+
+describe('useSwiftBase', () => {
+  it('should return the client of the provider', () => {
+    const { client } = createMockClient()
+
+    const { result } = renderHook(() => useSwiftBase(), { wrapper: wrapper(client) })
+
+    expect(result.current).toBe(client)
+  })
+
+  it('should throw outside a provider', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(() => renderHook(() => useSwiftBase())).toThrow('within a <SwiftBaseProvider>')
+    consoleError.mockRestore()
+  })
+})
+
+describe('useSession', () => {
+  it('should follow the session of the client', async () => {
+    const mock = createMockClient()
+    const { result } = renderHook(() => useSession(), { wrapper: wrapper(mock.client) })
+    expect(result.current.isLoading).toBe(true)
+
+    await act(async () => mock.resolveReady())
+    expect(result.current).toEqual({ session: null, user: null, admin: null, isLoading: false })
+
+    act(() => mock.setSession(session))
+    expect(result.current.user).toEqual(session.user)
+  })
+
+  it('should suspend until the session is restored', async () => {
+    const mock = createMockClient()
+    mock.setSession(session)
+    function Email() {
+      return <p>{useSession({ suspense: true }).user?.email}</p>
+    }
+
+    render(<Suspense fallback={<p>Loading</p>}><Email /></Suspense>, { wrapper: wrapper(mock.client) })
+    expect(screen.getByText('Loading')).toBeDefined()
+
+    await act(async () => mock.resolveReady())
+    expect(screen.getByText('ada@example.com')).toBeDefined()
+  })
+})
+
+describe('useQuery', () => {
+  it('should render the result set of the query', async () => {
+    const mock = createMockClient()
+    const find = vi.fn(async () => [{ id: 'p1' }])
+
+    const { result, rerender } = renderHook(
+      () => useQuery(createMockQuery('products', find), { live: false }),
+      { wrapper: wrapper(mock.client) }
+    )
+    expect(result.current.isLoading).toBe(true)
+
+    await waitFor(() => expect(result.current.data).toEqual([{ id: 'p1' }]))
+    rerender()
+    expect(find).toHaveBeenCalledTimes(1)
+  })
+
+  it('should switch stores when the query changes', async () => {
+    const mock = createMockClient()
+    const { result, rerender } = renderHook(
+      ({ status }: { status: string }) =>
+        useQuery(createMockQuery('orders', async () => [{ id: status }], { key: `orders:${status}` }), { live: false }),
+      { wrapper: wrapper(mock.client), initialProps: { status: 'open' } }
+    )
+    await waitFor(() => expect(result.current.data).toEqual([{ id: 'open' }]))
+
+    rerender({ status: 'closed' })
+
+    await waitFor(() => expect(result.current.data).toEqual([{ id: 'closed' }]))
+  })
+
+  it('should share one fetch between components rendering the same query', async () => {
+    const mock = createMockClient()
+    const find = vi.fn(async () => [{ id: 'p1' }])
+
+    const { result } = renderHook(
+      () => [
+        useQuery(createMockQuery('products', find), { live: false }),
+        useQuery(createMockQuery('products', find), { live: false }),
+      ],
+      { wrapper: wrapper(mock.client) }
+    )
+
+    await waitFor(() => expect(result.current[1]!.data).toEqual([{ id: 'p1' }]))
+    expect(find).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stay idle without a query', () => {
+    const mock = createMockClient()
+
+    const { result } = renderHook(() => useQuery(null), { wrapper: wrapper(mock.client) })
+
+    expect(result.current).toMatchObject({ data: undefined, error: null, isLoading: false, isFetching: false })
+  })
+
+  it('should suspend until the first result set is loaded', async () => {
+    const mock = createMockClient()
+    function Products() {
+      const { data } = useQuery(createMockQuery('products', async () => [{ id: 'p1' }]), { suspense: true })
+      return <p>{data.map((product) => product.id).join(',')}</p>
+    }
+
+    render(<Suspense fallback={<p>Loading</p>}><Products /></Suspense>, { wrapper: wrapper(mock.client) })
+    expect(screen.getByText('Loading')).toBeDefined()
+
+    expect(await screen.findByText('p1')).toBeDefined()
+  })
+})
+
+describe('useMutation', () => {
+  it('should track the state of the latest mutation', async () => {
+    const mock = createMockClient()
+    const onSuccess = vi.fn()
+    const { result } = renderHook(
+      () => useMutation(async (name: string) => ({ id: 'p1', name }), { onSuccess }),
+      { wrapper: wrapper(mock.client) }
+    )
+
+    await act(() => result.current.mutate('Keyboard'))
+
+    expect(result.current).toMatchObject({ data: { id: 'p1', name: 'Keyboard' }, error: null, isPending: false })
+    expect(onSuccess).toHaveBeenCalledWith({ id: 'p1', name: 'Keyboard' }, 'Keyboard')
+
+    act(() => result.current.reset())
+    expect(result.current.data).toBeUndefined()
+  })
+
+  it('should report failures through the error state', async () => {
+    const mock = createMockClient()
+    const onError = vi.fn()
+    const { result } = renderHook(
+      () => useMutation<void>(async () => { throw new Error('boom') }, { onError }),
+      { wrapper: wrapper(mock.client) }
+    )
+
+    await act(async () => {
+      await expect(result.current.mutate()).resolves.toBeUndefined()
+    })
+
+    expect(result.current.error).toEqual(new Error('boom'))
+    expect(onError).toHaveBeenCalledTimes(1)
+    await act(async () => {
+      await expect(result.current.mutateAsync()).rejects.toThrow('boom')
+    })
+  })
+
+  it('should re-fetch rendered queries of invalidated collections', async () => {
+    const mock = createMockClient()
+    const find = vi.fn(async () => [{ id: 'p1' }])
+    const { result } = renderHook(
+      () => ({
+        query: useQuery(createMockQuery('products', find), { live: false }),
+        mutation: useMutation<void>(async () => undefined, { invalidates: ['products'] }),
+      }),
+      { wrapper: wrapper(mock.client) }
+    )
+    await waitFor(() => expect(result.current.query.data).toBeDefined())
+
+    await act(() => result.current.mutation.mutate())
+
+    expect(find).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('useSubscription', () => {
+  it('should pass events to the latest callback while mounted', () => {
+    const mock = createMockClient()
+    const first = vi.fn()
+    const second = vi.fn()
+    const { rerender, unmount } = renderHook(
+      ({ callback }) => useSubscription('orders', callback),
+      { wrapper: wrapper(mock.client), initialProps: { callback: first } }
+    )
+
+    rerender({ callback: second })
+    mock.subscriptions.get('orders')!({ type: 'create', collection: 'orders', documentId: 'o1' })
+
+    expect(mock.realtime.subscribe).toHaveBeenCalledTimes(1)
+    expect(first).not.toHaveBeenCalled()
+    expect(second).toHaveBeenCalledTimes(1)
+    unmount()
+    expect(mock.subscriptions.has('orders')).toBe(false)
+  })
+
+  it('should subscribe to one document', () => {
+    const mock = createMockClient()
+
+    renderHook(() => useSubscription('orders', () => {}, { documentId: 'o1' }), { wrapper: wrapper(mock.client) })
+
+    expect(mock.realtime.subscribe).toHaveBeenCalledWith('orders', 'o1', expect.any(Function))
+  })
+
+  it('should not subscribe without a collection', () => {
+    const mock = createMockClient()
+
+    renderHook(() => useSubscription(null, () => {}), { wrapper: wrapper(mock.client) })
+
+    expect(mock.realtime.subscribe).not.toHaveBeenCalled()
+  })
+})
+
+describe('useRealtimeStatus', () => {
+  it('should follow the connection status', () => {
+    const mock = createMockClient()
+    const { result } = renderHook(() => useRealtimeStatus(), { wrapper: wrapper(mock.client) })
+    expect(result.current).toBe('disconnected')
+
+    act(() => mock.setStatus('connected'))
+
+    expect(result.current).toBe('connected')
+  })
+})
+
+describe('useUpload', () => {
+  const file: FileMetadata = {
+    id: 'f1',
+    filename: 'avatar.png',
+    originalName: 'avatar.png',
+    size: 4,
+    url: '/files/f1',
+    createdAt: '2025-01-01T00:00:00Z',
+  } as FileMetadata
+
+  it('should report progress and the uploaded file', async () => {
+    const mock = createMockClient()
+    const onProgress = vi.fn()
+    mock.storage.upload.mockImplementation(async (_file: Blob, options: UploadOptions) => {
+      options.onProgress?.({ loaded: 2, total: 4, percentage: 50 })
+      return file
+    })
+    const { result } = renderHook(() => useUpload(), { wrapper: wrapper(mock.client) })
+
+    await act(() => result.current.upload(new Blob(['data']), { onProgress }))
+
+    expect(result.current).toMatchObject({ data: file, error: null, isUploading: false })
+    expect(result.current.progress).toEqual({ loaded: 2, total: 4, percentage: 50 })
+    expect(onProgress).toHaveBeenCalledTimes(1)
+  })
+
+  it('should abort the upload on cancel and report the error', async () => {
+    const mock = createMockClient()
+    mock.storage.upload.mockImplementation((_file: Blob, options: UploadOptions) =>
+      new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new Error('aborted')))
+      })
+    )
+    const { result } = renderHook(() => useUpload(), { wrapper: wrapper(mock.client) })
+
+    let upload!: Promise<FileMetadata | undefined>
+    act(() => { upload = result.current.upload(new Blob(['data'])) })
+    expect(result.current.isUploading).toBe(true)
+    act(() => result.current.cancel())
+
+    await act(async () => {
+      await expect(upload).resolves.toBeUndefined()
+    })
+    expect(result.current).toMatchObject({ error: new Error('aborted'), isUploading: false })
+  })
+})
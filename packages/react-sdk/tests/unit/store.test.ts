@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { Session } from '@swiftbase/sdk'
+import { QueryStore, SessionStore, getQueryStore, getSessionStore, refetchQueries } from '../../src/store'
+import { createMockClient, createMockLiveQuery, createMockQuery } from '../mocks'
+
+const session: Session = {
+  accessToken: 'access',
+  refreshToken: 'refresh',
+  expiresAt: Date.now() + 60_000,
+  user: { id: 'u1', email: 'ada@example.com' } as Session['user'],
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('SessionStore', () => {
+  it('should report loading until the client restored the session', async () => {
+    const mock = createMockClient()
+    const store = new SessionStore(mock.client)
+    expect(store.getSnapshot().isLoading).toBe(true)
+
+    mock.setSession(session)
+    mock.resolveReady()
+    await store.ready
+
+    expect(store.getSnapshot()).toEqual({ session, user: session.user, admin: null, isLoading: false })
+  })
+
+  it('should report a signed out client when restoring fails', async () => {
+    const mock = createMockClient()
+    const store = new SessionStore(mock.client)
+
+    mock.rejectReady(new Error('offline'))
+    await store.ready
+
+    expect(store.getSnapshot()).toEqual({ session: null, user: null, admin: null, isLoading: false })
+  })
+
+  it('should notify listeners of auth state changes', async () => {
+    const mock = createMockClient()
+    const store = new SessionStore(mock.client)
+    mock.resolveReady()
+    await store.ready
+    const listener = vi.fn()
+    store.subscribe(listener)
+
+    mock.setSession(session)
+    expect(store.getSnapshot().user).toEqual(session.user)
+    mock.setSession(null)
+    expect(store.getSnapshot().user).toBeNull()
+
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+
+  it('should keep the snapshot while the session is unchanged', async () => {
+    const mock = createMockClient()
+    const store = new SessionStore(mock.client)
+    mock.resolveReady()
+    await store.ready
+    const snapshot = store.getSnapshot()
+
+    mock.setSession(null)
+
+    expect(store.getSnapshot()).toBe(snapshot)
+  })
+
+  it('should always report loading on the server', async () => {
+    const mock = createMockClient()
+    const store = new SessionStore(mock.client)
+    mock.resolveReady()
+    await store.ready
+
+    expect(store.getServerSnapshot().isLoading).toBe(true)
+  })
+
+  it('should create one store per client', () => {
+    const mock = createMockClient()
+
+    expect(getSessionStore(mock.client)).toBe(getSessionStore(mock.client))
+    expect(getSessionStore(createMockClient().client)).not.toBe(getSessionStore(mock.client))
+  })
+})
+
+describe('QueryStore', () => {
+  it('should fetch when the first listener subscribes', async () => {
+    const mock = createMockClient()
+    const query = createMockQuery('products', async () => [{ id: 'p1' }])
+    const store = new QueryStore(mock.client, query, false, undefined)
+    expect(store.getSnapshot()).toMatchObject({ data: undefined, isLoading: true, isFetching: false })
+
+    store.subscribe(() => {})
+    expect(store.getSnapshot()).toMatchObject({ isLoading: true, isFetching: true })
+    store.subscribe(() => {})
+    await flush()
+
+    expect(query.find).toHaveBeenCalledTimes(1)
+    expect(store.getSnapshot()).toEqual({ data: [{ id: 'p1' }], error: null, isLoading: false, isFetching: false })
+  })
+
+  it('should share fetches in flight', async () => {
+    const mock = createMockClient()
+    const query = createMockQuery('products', async () => [{ id: 'p1' }])
+    const store = new QueryStore(mock.client, query, false, undefined)
+
+    const [first, second] = [store.fetch(), store.fetch()]
+
+    expect(first).toBe(second)
+    await expect(first).resolves.toEqual([{ id: 'p1' }])
+    expect(query.find).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep errors in the state', async () => {
+    const mock = createMockClient()
+    const error = new Error('boom')
+    const query = createMockQuery('products', async () => { throw error })
+    const store = new QueryStore(mock.client, query, false, undefined)
+
+    store.subscribe(() => {})
+    await flush()
+
+    expect(store.getSnapshot()).toEqual({ data: undefined, error, isLoading: false, isFetching: false })
+    await expect(store.fetch()).rejects.toThrow('boom')
+  })
+
+  it('should not report loading with initial data', () => {
+    const mock = createMockClient()
+    const query = createMockQuery('products', async () => [])
+    const store = new QueryStore(mock.client, query, false, [{ id: 'p0' }])
+
+    expect(store.getSnapshot()).toMatchObject({ data: [{ id: 'p0' }], isLoading: false })
+    expect(store.getServerSnapshot()).toBe(store.getSnapshot())
+  })
+
+  it('should follow live queries while subscribed', async () => {
+    const mock = createMockClient()
+    const data = [{ id: 'p1' }]
+    const live = createMockLiveQuery(async () => data)
+    const query = createMockQuery('products', async () => [], { live: () => live.liveQuery })
+    const store = new QueryStore(mock.client, query, true, undefined)
+
+    const unsubscribe = store.subscribe(() => {})
+    await flush()
+    expect(store.getSnapshot().data).toEqual([{ id: 'p1' }])
+
+    data.push({ id: 'p2' })
+    await store.fetch()
+    expect(store.getSnapshot().data).toEqual([{ id: 'p1' }, { id: 'p2' }])
+    expect(live.liveQuery.refetch).toHaveBeenCalledTimes(1)
+    expect(query.find).not.toHaveBeenCalled()
+
+    unsubscribe()
+    expect(live.isSubscribed()).toBe(false)
+  })
+
+  it('should reject re-fetches of live queries that fail', async () => {
+    const mock = createMockClient()
+    const fetch = vi.fn(async () => [{ id: 'p1' }])
+    const live = createMockLiveQuery(fetch)
+    const query = createMockQuery('products', async () => [], { live: () => live.liveQuery })
+    const store = new QueryStore(mock.client, query, true, undefined)
+    store.subscribe(() => {})
+    await flush()
+
+    fetch.mockRejectedValueOnce(new Error('boom'))
+
+    await expect(store.fetch()).rejects.toThrow('boom')
+    expect(store.getSnapshot()).toMatchObject({ data: [{ id: 'p1' }], error: new Error('boom') })
+  })
+
+  it('should re-fetch on realtime events of queries that cannot be live', async () => {
+    const mock = createMockClient()
+    const query = createMockQuery('orders', async () => [{ id: 'o1' }])
+    const store = new QueryStore(mock.client, query, true, undefined)
+
+    const unsubscribe = store.subscribe(() => {})
+    await flush()
+    mock.subscriptions.get('orders')!({ type: 'update', collection: 'orders', documentId: 'o1' })
+    await flush()
+
+    expect(query.find).toHaveBeenCalledTimes(2)
+    unsubscribe()
+    expect(mock.subscriptions.has('orders')).toBe(false)
+  })
+
+  it('should keep the result set but drop fetches in flight when the last listener leaves', async () => {
+    const mock = createMockClient()
+    let resolve!: (data: { id: string }[]) => void
+    const query = createMockQuery('products', async () => [{ id: 'p1' }])
+    const store = new QueryStore(mock.client, query, false, undefined)
+    const unsubscribe = store.subscribe(() => {})
+    await flush()
+
+    query.find.mockReturnValueOnce(new Promise((res) => { resolve = res }))
+    void store.fetch()
+    unsubscribe()
+    resolve([{ id: 'p2' }])
+    await flush()
+
+    expect(store.isActive()).toBe(false)
+    expect(store.getSnapshot()).toEqual({ data: [{ id: 'p1' }], error: null, isLoading: false, isFetching: false })
+  })
+})
+
+describe('getQueryStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should share stores by key', () => {
+    const mock = createMockClient()
+    const query = createMockQuery('products', async () => [])
+
+    const store = getQueryStore(mock.client, 'products', query, false, undefined)
+
+    expect(getQueryStore(mock.client, 'products', createMockQuery('products', async () => []), false, undefined)).toBe(store)
+    expect(getQueryStore(mock.client, 'orders', query, false, undefined)).not.toBe(store)
+  })
+
+  it('should drop stores that have been unused for a while', () => {
+    const mock = createMockClient()
+    const query = createMockQuery('products', async () => [])
+    const unused = getQueryStore(mock.client, 'unused', query, false, undefined)
+    const used = getQueryStore(mock.client, 'used', query, false, undefined)
+    used.subscribe(() => {})
+
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1)
+    getQueryStore(mock.client, 'other', query, false, undefined)
+
+    expect(getQueryStore(mock.client, 'used', query, false, undefined)).toBe(used)
+    expect(getQueryStore(mock.client, 'unused', query, false, undefined)).not.toBe(unused)
+  })
+})
+
+describe('refetchQueries', () => {
+  it('should re-fetch the rendered queries of the given collections', async () => {
+    const mock = createMockClient()
+    const products = createMockQuery('products', async () => [])
+    const orders = createMockQuery('orders', async () => [])
+    const unused = createMockQuery('products', async () => [], { key: 'products:unused' })
+    getQueryStore(mock.client, 'products', products, false, undefined).subscribe(() => {})
+    getQueryStore(mock.client, 'orders', orders, false, undefined).subscribe(() => {})
+    getQueryStore(mock.client, 'products:unused', unused, false, undefined)
+    await flush()
+
+    refetchQueries(mock.client, ['products'])
+    await flush()
+
+    expect(products.find).toHaveBeenCalledTimes(2)
+    expect(orders.find).toHaveBeenCalledTimes(1)
+    expect(unused.find).not.toHaveBeenCalled()
+  })
+})
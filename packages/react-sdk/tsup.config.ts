@@ -0,0 +1,19 @@
+import { defineConfig } from 'tsup'
+
+export default defineConfig({
+  entry: ['src/index.ts'],
+  format: ['esm', 'cjs'],
+  dts: true,
+  splitting: false,
+  sourcemap: true,
+  clean: true,
+  minify: false,
+  // Rollup tree-shaking drops the 'use client' banner
+  treeshake: false,
+  target: 'es2022',
+  outDir: 'dist',
+  external: ['react', '@swiftbase/sdk'],
+  banner: {
+    js: "'use client'",
+  },
+})
@@ -0,0 +1,80 @@
+import type { Admin, AnyClient, Session, User } from '@swiftbase/sdk'
+
+/**
+ * Reactive auth state of a client
+ */
+export interface AuthState {
+  readonly session: Session | null
+  readonly user: User | null
+  readonly admin: Admin | null
+  /** True until the client has restored the stored session */
+  readonly isLoading: boolean
+  /** Resolves once the stored session is restored */
+  readonly ready: Promise<void>
+}
+
+const states = new WeakMap<AnyClient, AuthState>()
+
+/**
+ * Reactive session, user and admin of a client, updated on every auth
+ * state change. Every call for the same client returns the same state, so
+ * it can be used in components and module-level stores alike.
+ *
+ * @example
+ * ```svelte
+ * <script lang="ts">
+ *   import { authState } from '@swiftbase/svelte'
+ *   import { sb } from '$lib/sb'
+ *
+ *   const auth = authState(sb)
+ * </script>
+ *
+ * {#if auth.isLoading}
+ *   <Spinner />
+ * {:else if auth.user}
+ *   <span>{auth.user.email}</span>
+ * {/if}
+ * ```
+ */
+export function authState(client: AnyClient): AuthState {
+  let state = states.get(client)
+  if (!state) {
+    state = createAuthState(client)
+    states.set(client, state)
+  }
+  return state
+}
+
+function createAuthState(client: AnyClient): AuthState {
+  let session = $state.raw<Session | null>(client.auth.getSession())
+  let isLoading = $state(true)
+  const user = $derived(session?.user ?? null)
+  const admin = $derived(session?.admin ?? null)
+
+  client.auth.onAuthStateChange(() => {
+    session = client.auth.getSession()
+  })
+
+  const onReady = (): void => {
+    session = client.auth.getSession()
+    isLoading = false
+  }
+  // A failed restore leaves the client signed out
+  const ready = client.ready().then(onReady, onReady)
+
+  return {
+    get session() {
+      return session
+    },
+    get user() {
+      return user
+    },
+    get admin() {
+      return admin
+    },
+    get isLoading() {
+      return isLoading
+    },
+    ready,
+  }
+}
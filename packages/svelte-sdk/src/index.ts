@@ -0,0 +1,38 @@
+/**
+ * @swiftbase/svelte - Svelte 5 bindings for the SwiftBase SDK
+ *
+ * Rune-based state for sessions, queries and realtime subscriptions over a
+ * `SwiftBaseClient`.
+ *
+ * @packageDocumentation
+ *
+ * @example Quick Start
+ * ```svelte
+ * <script lang="ts">
+ *   import { createClient } from '@swiftbase/sdk'
+ *   import { authState, createQuery } from '@swiftbase/svelte'
+ *
+ *   const sb = createClient({ url: 'http://localhost:8090' })
+ *   const auth = authState(sb)
+ *   const products = createQuery(() => sb.collection('products').where({ active: true }))
+ * </script>
+ *
+ * {#if products.isLoading}
+ *   <p>Loading...</p>
+ * {:else}
+ *   <ul>
+ *     {#each products.data ?? [] as product (product.id)}
+ *       <li>{product.name}</li>
+ *     {/each}
+ *   </ul>
+ * {/if}
+ * ```
+ */
+
+export { authState, type AuthState } from './auth.svelte.js'
+export { createQuery, type CreateQueryOptions, type QueryResult } from './query.svelte.js'
+export {
+  createSubscription,
+  type CreateSubscriptionOptions,
+  type SubscriptionResult,
+} from './subscription.svelte.js'
@@ -0,0 +1,189 @@
+import { untrack } from 'svelte'
+import type { LiveQuery, QueryBuilder, Unsubscribe } from '@swiftbase/sdk'
+
+/**
+ * createQuery options
+ */
+export interface CreateQueryOptions<R> {
+  /** Keep the result set in sync with realtime events (default: true) */
+  live?: boolean | undefined
+  /** Result set to show before the first fetch, e.g. data loaded on the server */
+  initialData?: R[] | undefined
+}
+
+/**
+ * Reactive query state
+ */
+export interface QueryResult<R> {
+  /** Latest result set, undefined until the first fetch completes */
+  readonly data: R[] | undefined
+  /** Error of the latest fetch */
+  readonly error: Error | null
+  /** True while fetching without a result set to show */
+  readonly isLoading: boolean
+  /** True while any fetch is in flight */
+  readonly isFetching: boolean
+  /** Re-run the query */
+  refetch(): Promise<R[]>
+}
+
+/**
+ * Run a query and expose its result set as reactive state
+ *
+ * @remarks
+ * - The builder function is tracked: the query restarts whenever state it
+ *   reads changes. Return `null` to skip the query.
+ * - With `live` (the default) the result set follows realtime events through
+ *   a live query. Queries using `include()` are fetched once; call
+ *   `refetch()` to update them.
+ * - The query runs in an effect, so call `createQuery()` while a component
+ *   initializes (or inside `$effect.root()`). Nothing is fetched during
+ *   server rendering; pass `initialData` to render server-loaded results.
+ *
+ * @example
+ * ```svelte
+ * <script lang="ts">
+ *   import { createQuery } from '@swiftbase/svelte'
+ *   import { sb } from '$lib/sb'
+ *
+ *   let status = $state('open')
+ *   const orders = createQuery(() =>
+ *     sb.collection('orders').where({ status }).orderBy('createdAt', 'desc')
+ *   )
+ * </script>
+ *
+ * {#if orders.isLoading}
+ *   <Spinner />
+ * {:else if orders.error}
+ *   <button onclick={orders.refetch}>Retry</button>
+ * {:else}
+ *   {#each orders.data ?? [] as order (order.id)}
+ *     <OrderRow {order} />
+ *   {/each}
+ * {/if}
+ * ```
+ */
+export function createQuery<T, R>(
+  builder: () => QueryBuilder<T, R> | null | undefined,
+  options: CreateQueryOptions<R> = {}
+): QueryResult<R> {
+  let data = $state.raw<R[] | undefined>(options.initialData)
+  let error = $state.raw<Error | null>(null)
+  let isLoading = $state(options.initialData === undefined)
+  let isFetching = $state(false)
+
+  let active: QueryBuilder<T, R> | null = null
+  let liveQuery: LiveQuery<R> | null = null
+  let stopLive: Unsubscribe | null = null
+  let version = 0
+  let errors = 0
+  let started = false
+
+  const settle = (next: R[]): void => {
+    data = next
+    error = null
+    isLoading = false
+    isFetching = false
+  }
+
+  const fail = (reason: Error): void => {
+    error = reason
+    isLoading = false
+    isFetching = false
+  }
+
+  // Live queries report errors to their listeners instead of rejecting
+  const refetchLive = async (query: LiveQuery<R>): Promise<R[]> => {
+    const before = errors
+    const result = await query.refetch()
+    if (errors !== before) throw error
+    return result
+  }
+
+  const fetch = (): Promise<R[]> => {
+    if (!active) return Promise.resolve([])
+
+    const current = ++version
+    isFetching = true
+    isLoading = data === undefined
+
+    const request = liveQuery ? refetchLive(liveQuery) : active.find()
+    return request.then((result) => {
+      if (current === version) settle(result)
+      return result
+    }, (reason: unknown) => {
+      if (current === version) fail(reason as Error)
+      throw reason
+    })
+  }
+
+  const start = (source: QueryBuilder<T, R>): void => {
+    // A different query starts without the previous result set
+    if (started) {
+      data = undefined
+      error = null
+    }
+    started = true
+    active = source
+
+    if (options.live ?? true) {
+      try {
+        liveQuery = source.live()
+      } catch {
+        // Queries with include() cannot be evaluated client-side
+        liveQuery = null
+      }
+    }
+
+    if (liveQuery) {
+      isFetching = true
+      isLoading = data === undefined
+      stopLive = liveQuery.subscribe(({ data: next }) => settle(next), (reason) => {
+        errors++
+        fail(reason)
+      })
+    } else {
+      fetch().catch(() => {
+        // Kept in the query state
+      })
+    }
+  }
+
+  const stop = (): void => {
+    stopLive?.()
+    stopLive = null
+    liveQuery = null
+    active = null
+    version++
+    isFetching = false
+  }
+
+  $effect(() => {
+    const source = builder()
+    if (!source) {
+      untrack(() => {
+        isLoading = false
+      })
+      return
+    }
+
+    untrack(() => start(source))
+    return stop
+  })
+
+  return {
+    get data() {
+      return data
+    },
+    get error() {
+      return error
+    },
+    get isLoading() {
+      return isLoading
+    },
+    get isFetching() {
+      return isFetching
+    },
+    refetch: fetch,
+  }
+}
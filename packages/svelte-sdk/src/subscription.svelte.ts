@@ -0,0 +1,67 @@
+import type { AnyClient, RealtimeCallback, RealtimeEvent } from '@swiftbase/sdk'
+
+/**
+ * createSubscription options
+ */
+export interface CreateSubscriptionOptions {
+  /** Only receive events for this document */
+  documentId?: string | undefined
+}
+
+/**
+ * Reactive subscription state
+ */
+export interface SubscriptionResult<T> {
+  /** Most recent event, null until the first one arrives */
+  readonly lastEvent: RealtimeEvent<T> | null
+}
+
+/**
+ * Receive realtime events of a collection (or one document) while the
+ * calling component is mounted
+ *
+ * @remarks
+ * Pass a function as collection to resubscribe whenever state it reads
+ * changes; returning `null` unsubscribes. Like `createQuery()`, call it while
+ * a component initializes (or inside `$effect.root()`).
+ *
+ * @example
+ * ```svelte
+ * <script lang="ts">
+ *   import { createSubscription } from '@swiftbase/svelte'
+ *   import { sb } from '$lib/sb'
+ *
+ *   let events = $state<RealtimeEvent[]>([])
+ *   createSubscription(sb, 'orders', (event) => {
+ *     events = [event, ...events].slice(0, 50)
+ *   })
+ * </script>
+ * ```
+ */
+export function createSubscription<T = unknown>(
+  client: AnyClient,
+  collection: string | (() => string | null | undefined),
+  callback?: RealtimeCallback<T>,
+  options: CreateSubscriptionOptions = {}
+): SubscriptionResult<T> {
+  let lastEvent = $state.raw<RealtimeEvent<T> | null>(null)
+
+  $effect(() => {
+    const name = typeof collection === 'function' ? collection() : collection
+    if (!name) return
+
+    const listener: RealtimeCallback<T> = (event) => {
+      lastEvent = event
+      callback?.(event)
+    }
+    return options.documentId !== undefined
+      ? client.realtime.subscribe<T>(name, options.documentId, listener)
+      : client.realtime.subscribe<T>(name, listener)
+  })
+
+  return {
+    get lastEvent() {
+      return lastEvent
+    },
+  }
+}
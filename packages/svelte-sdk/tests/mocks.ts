@@ -0,0 +1,103 @@
+import { vi } from 'vitest'
+import type {
+  AnyClient,
+  AuthStateChangeCallback,
+  LiveQuery,
+  LiveQueryCallback,
+  QueryBuilder,
+  RealtimeCallback,
+  Session,
+} from '@swiftbase/sdk'
+
+/**
+ * Client with in-memory auth and realtime state
+ */
+export function createMockClient() {
+  let session: Session | null = null
+  let resolveReady!: () => void
+  let rejectReady!: (error: Error) => void
+  const ready = new Promise<void>((resolve, reject) => {
+    resolveReady = resolve
+    rejectReady = reject
+  })
+  const authListeners = new Set<AuthStateChangeCallback>()
+  const subscriptions = new Map<string, RealtimeCallback>()
+
+  const client = {
+    ready: () => ready,
+    auth: {
+      getSession: () => session,
+      onAuthStateChange: (listener: AuthStateChangeCallback) => {
+        authListeners.add(listener)
+        return () => authListeners.delete(listener)
+      },
+    },
+    realtime: {
+      subscribe: vi.fn((collection: string, ...args: [RealtimeCallback] | [string, RealtimeCallback]) => {
+        subscriptions.set(collection, args[args.length - 1] as RealtimeCallback)
+        return () => subscriptions.delete(collection)
+      }),
+    },
+  }
+
+  return {
+    client: client as unknown as AnyClient,
+    realtime: client.realtime,
+    subscriptions,
+    resolveReady,
+    rejectReady,
+    setSession(next: Session | null) {
+      session = next
+      for (const listener of authListeners) listener(next ? 'SIGNED_IN' : 'SIGNED_OUT', next)
+    },
+  }
+}
+
+/**
+ * Live query that loads its result sets with the given fetch
+ */
+export function createMockLiveQuery<R>(fetch: () => Promise<R[]>) {
+  let callback: LiveQueryCallback<R> | null = null
+  let onError: ((error: Error) => void) | undefined
+  const load = async (): Promise<R[]> => {
+    try {
+      const data = await fetch()
+      callback?.({ data, diff: { added: [], changed: [], removed: [] } })
+      return data
+    } catch (error) {
+      onError?.(error as Error)
+      return []
+    }
+  }
+
+  const liveQuery = {
+    subscribe: vi.fn((next: LiveQueryCallback<R>, error?: (error: Error) => void) => {
+      callback = next
+      onError = error
+      void load()
+      return () => { callback = null }
+    }),
+    refetch: vi.fn(load),
+  }
+
+  return {
+    liveQuery: liveQuery as unknown as LiveQuery<R>,
+    isSubscribed: () => callback !== null,
+  }
+}
+
+/**
+ * Query builder of a collection with the given fetch
+ */
+export function createMockQuery<R>(
+  collection: string,
+  find: () => Promise<R[]>,
+  options: { live?: () => LiveQuery<R> } = {}
+) {
+  const query = {
+    find: vi.fn(find),
+    live: vi.fn(options.live ?? (() => { throw new Error('include() queries cannot be live') })),
+    getCollection: () => collection,
+  }
+  return query as typeof query & QueryBuilder<unknown, R>
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { flushSync } from 'svelte'
+import type { Session } from '@swiftbase/sdk'
+import { authState } from '../../src/auth.svelte'
+import { createMockClient } from '../mocks'
+
+const session: Session = {
+  accessToken: 'access',
+  refreshToken: 'refresh',
+  expiresAt: Date.now() + 60_000,
+  user: { id: 'u1', email: 'ada@example.com' } as Session['user'],
+}
+
+describe('authState', () => {
+  it('should return one state per client', () => {
+    const mock = createMockClient()
+
+    expect(authState(mock.client)).toBe(authState(mock.client))
+    expect(authState(createMockClient().client)).not.toBe(authState(mock.client))
+  })
+
+  it('should report loading until the client restored the session', async () => {
+    const mock = createMockClient()
+    const auth = authState(mock.client)
+    expect(auth.isLoading).toBe(true)
+
+    mock.setSession(session)
+    mock.resolveReady()
+    await auth.ready
+
+    expect(auth.isLoading).toBe(false)
+    expect(auth.session).toBe(session)
+    expect(auth.user).toEqual(session.user)
+    expect(auth.admin).toBeNull()
+  })
+
+  it('should report a signed out client when restoring fails', async () => {
+    const mock = createMockClient()
+    const auth = authState(mock.client)
+
+    mock.rejectReady(new Error('offline'))
+    await auth.ready
+
+    expect(auth.isLoading).toBe(false)
+    expect(auth.session).toBeNull()
+  })
+
+  it('should update effects on auth state changes', async () => {
+    const mock = createMockClient()
+    const auth = authState(mock.client)
+    mock.resolveReady()
+    await auth.ready
+    const emails: (string | undefined)[] = []
+    const destroy = $effect.root(() => {
+      $effect(() => {
+        emails.push(auth.user?.email)
+      })
+    })
+    flushSync()
+
+    mock.setSession(session)
+    flushSync()
+    mock.setSession(null)
+    flushSync()
+
+    expect(emails).toEqual([undefined, 'ada@example.com', undefined])
+    destroy()
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { flushSync } from 'svelte'
+import type { QueryBuilder } from '@swiftbase/sdk'
+import { createQuery, type CreateQueryOptions, type QueryResult } from '../../src/query.svelte'
+import { createMockLiveQuery, createMockQuery } from '../mocks'
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+let destroy: (() => void) | null = null
+
+function run<R>(
+  builder: () => QueryBuilder<unknown, R> | null,
+  options?: CreateQueryOptions<R>
+): QueryResult<R> {
+  let result!: QueryResult<R>
+  destroy = $effect.root(() => {
+    result = createQuery(builder, options)
+  })
+  flushSync()
+  return result
+}
+
+afterEach(() => {
+  destroy?.()
+  destroy = null
+})
+
+describe('createQuery', () => {
+  it('should expose the result set of the query', async () => {
+    const query = createMockQuery('products', async () => [{ id: 'p1' }])
+
+    const products = run(() => query, { live: false })
+    expect(products).toMatchObject({ data: undefined, isLoading: true, isFetching: true })
+    await flush()
+
+    expect(products).toMatchObject({ data: [{ id: 'p1' }], error: null, isLoading: false, isFetching: false })
+    expect(query.find).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep errors in the state', async () => {
+    const query = createMockQuery('products', async () => { throw new Error('boom') })
+
+    const products = run(() => query, { live: false })
+    await flush()
+
+    expect(products).toMatchObject({ data: undefined, error: new Error('boom'), isLoading: false })
+    await expect(products.refetch()).rejects.toThrow('boom')
+  })
+
+  it('should not report loading with initial data', () => {
+    const query = createMockQuery('products', async () => [])
+
+    const products = run(() => query, { live: false, initialData: [{ id: 'p0' }] })
+
+    expect(products).toMatchObject({ data: [{ id: 'p0' }], isLoading: false })
+  })
+
+  it('should stay idle without a query', () => {
+    const products = run(() => null)
+
+    expect(products).toMatchObject({ data: undefined, error: null, isLoading: false, isFetching: false })
+  })
+
+  it('should restart when state read by the builder changes', async () => {
+    let status = $state('open')
+    const find = vi.fn(async (current: string) => [{ id: current }])
+
+    const orders = run(() => {
+      const current = status
+      return createMockQuery('orders', () => find(current))
+    }, { live: false })
+    await flush()
+    expect(orders.data).toEqual([{ id: 'open' }])
+
+    status = 'closed'
+    flushSync()
+    expect(orders).toMatchObject({ data: undefined, isLoading: true })
+    await flush()
+
+    expect(orders.data).toEqual([{ id: 'closed' }])
+    expect(find).toHaveBeenCalledTimes(2)
+  })
+
+  it('should follow live queries until destroyed', async () => {
+    const data = [{ id: 'p1' }]
+    const live = createMockLiveQuery(async () => [...data])
+    const query = createMockQuery('products', async () => [], { live: () => live.liveQuery })
+
+    const products = run(() => query)
+    await flush()
+    expect(products.data).toEqual([{ id: 'p1' }])
+
+    data.push({ id: 'p2' })
+    await products.refetch()
+    expect(products.data).toEqual([{ id: 'p1' }, { id: 'p2' }])
+    expect(query.find).not.toHaveBeenCalled()
+
+    destroy?.()
+    expect(live.isSubscribed()).toBe(false)
+  })
+
+  it('should reject re-fetches of live queries that fail', async () => {
+    const fetch = vi.fn(async () => [{ id: 'p1' }])
+    const live = createMockLiveQuery(fetch)
+    const query = createMockQuery('products', async () => [], { live: () => live.liveQuery })
+    const products = run(() => query)
+    await flush()
+
+    fetch.mockRejectedValueOnce(new Error('boom'))
+
+    await expect(products.refetch()).rejects.toThrow('boom')
+    expect(products).toMatchObject({ data: [{ id: 'p1' }], error: new Error('boom') })
+  })
+
+  it('should ignore fetches that complete after the query stopped', async () => {
+    let resolve!: (data: { id: string }[]) => void
+    const query = createMockQuery('products', () => new Promise<{ id: string }[]>((res) => { resolve = res }))
+
+    const products = run(() => query, { live: false })
+    destroy?.()
+    resolve([{ id: 'p1' }])
+    await flush()
+
+    expect(products).toMatchObject({ data: undefined, isFetching: false })
+  })
+})
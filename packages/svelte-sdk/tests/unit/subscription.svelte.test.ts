@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest'
+import { flushSync } from 'svelte'
+import { createSubscription, type CreateSubscriptionOptions, type SubscriptionResult } from '../../src/subscription.svelte'
+import { createMockClient } from '../mocks'
+
+function run(
+  mock: ReturnType<typeof createMockClient>,
+  collection: string | (() => string | null),
+  callback?: () => void,
+  options?: CreateSubscriptionOptions
+) {
+  let result!: SubscriptionResult<unknown>
+  const destroy = $effect.root(() => {
+    result = createSubscription(mock.client, collection, callback, options)
+  })
+  flushSync()
+  return { result, destroy }
+}
+
+describe('createSubscription', () => {
+  it('should receive events until destroyed', () => {
+    const mock = createMockClient()
+    const callback = vi.fn()
+    const { result, destroy } = run(mock, 'orders', callback)
+    expect(result.lastEvent).toBeNull()
+
+    const event = { type: 'create' as const, collection: 'orders', documentId: 'o1' }
+    mock.subscriptions.get('orders')!(event)
+
+    expect(result.lastEvent).toEqual(event)
+    expect(callback).toHaveBeenCalledWith(event)
+    destroy()
+    expect(mock.subscriptions.has('orders')).toBe(false)
+  })
+
+  it('should subscribe to one document', () => {
+    const mock = createMockClient()
+
+    const { destroy } = run(mock, 'orders', undefined, { documentId: 'o1' })
+
+    expect(mock.realtime.subscribe).toHaveBeenCalledWith('orders', 'o1', expect.any(Function))
+    destroy()
+  })
+
+  it('should resubscribe when state read by the collection function changes', () => {
+    const mock = createMockClient()
+    let collection = $state<string | null>('orders')
+    const { destroy } = run(mock, () => collection)
+    expect(mock.subscriptions.has('orders')).toBe(true)
+
+    collection = 'products'
+    flushSync()
+    expect(mock.subscriptions.has('orders')).toBe(false)
+    expect(mock.subscriptions.has('products')).toBe(true)
+
+    collection = null
+    flushSync()
+    expect(mock.subscriptions.size).toBe(0)
+    destroy()
+  })
+})
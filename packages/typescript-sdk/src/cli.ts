@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+import { HttpClient } from './core/http.js'
+import { Collections } from './modules/collections/index.js'
+import { generateTypes, parseCollections } from './modules/typegen/index.js'
+import type { Collection } from './types/collections.js'
+
+const USAGE = `Usage: swiftbase-typegen [options]
+
+Generate TypeScript types from SwiftBase collection schemas.
+
+Options:
+  -i, --input <file>    Read collections from a JSON dump of sb.collections.list()
+  -u, --url <url>       Fetch collections from a running server instead
+  -t, --token <token>   Admin access token for --url (default: $SWIFTBASE_ADMIN_TOKEN)
+  -o, --output <file>   Write to a file instead of stdout
+  -h, --help            Show this help
+`
+
+/**
+ * Load collections from a dump file or a server
+ */
+async function loadCollections(input?: string, url?: string, token?: string): Promise<Collection[]> {
+  if (input) {
+    return parseCollections(await readFile(input, 'utf8'))
+  }
+
+  const http = new HttpClient({ baseUrl: url!, retry: false })
+  http.setAuthHeader(token ?? null)
+  return new Collections(http).list()
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      input: { type: 'string', short: 'i' },
+      url: { type: 'string', short: 'u' },
+      token: { type: 'string', short: 't' },
+      output: { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help || (!values.input && !values.url)) {
+    process.stdout.write(USAGE)
+    process.exitCode = values.help ? 0 : 1
+    return
+  }
+
+  const collections = await loadCollections(
+    values.input,
+    values.url,
+    values.token ?? process.env['SWIFTBASE_ADMIN_TOKEN']
+  )
+  const source = generateTypes(collections)
+
+  if (values.output) {
+    await writeFile(values.output, source)
+    process.stderr.write(`Generated types for ${collections.length} collection(s) in ${values.output}\n`)
+  } else {
+    process.stdout.write(source)
+  }
+}
+
+main().catch((error: unknown) => {
+  process.stderr.write(`swiftbase-typegen: ${error instanceof Error ? error.message : String(error)}\n`)
+  process.exitCode = 1
+})
@@ -1,15 +1,32 @@
 import { HttpClient } from './core/http.js'
 import type { Interceptors } from './core/interceptors.js'
-import { Auth } from './modules/auth/index.js'
+import { Auth, CookieStorage } from './modules/auth/index.js'
+import { QueryCache } from './modules/cache/index.js'
 import { Collections } from './modules/collections/index.js'
+import { OfflineManager } from './modules/offline/index.js'
 import { QueryBuilder, QueryService } from './modules/query/index.js'
 import { RealtimeManager } from './modules/realtime/index.js'
+import { Relations } from './modules/relations/index.js'
 import { Storage } from './modules/storage/index.js'
-import type { SwiftBaseConfig, RetryConfig } from './types/client.js'
+import { Transaction, runTransaction } from './modules/transaction/index.js'
+import { Validation } from './modules/validation/index.js'
+import type { Session } from './types/auth.js'
+import type { SwiftBaseConfig, RetryConfig, ServerClientConfig } from './types/client.js'
+import type { CollectionName, DatabaseSchema } from './types/collections.js'
 import { DEFAULT_CONFIG } from './types/client.js'
 import type { Document, QueryRequest, QueryResponse } from './types/query.js'
+import type { TransactionOptions } from './types/transaction.js'
 import { deepMerge } from './utils/helpers.js'
 
+/**
+ * ID of the user or admin a session belongs to
+ */
+function sessionOwner(session: Session | null): string | null {
+  if (session?.user) return session.user.id
+  if (session?.admin) return `admin:${session.admin.id}`
+  return null
+}
+
 /**
  * SwiftBase client for interacting with a SwiftBase backend.
  *
@@ -49,11 +66,35 @@ import { deepMerge } from './utils/helpers.js'
  *     reconnect: true,
  *     reconnectDelay: 1000,
  *     maxReconnectDelay: 30000
+ *   },
+ *   offline: {
+ *     enabled: true,
+ *     store: 'indexedDB'
+ *   },
+ *   validation: {
+ *     enabled: true
  *   }
  * })
  * ```
+ *
+ * @example With Generated Types
+ * ```typescript
+ * import type { Database } from './database.types' // from swiftbase-typegen
+ *
+ * const sb = createClient<Database>({ url: 'http://localhost:8090' })
+ * const products = await sb.collection('products').find() // Product[]
+ * ```
+ *
+ * @example With an API Key (server-to-server)
+ * ```typescript
+ * const sb = createClient({
+ *   url: process.env.SWIFTBASE_URL!,
+ *   apiKey: process.env.SWIFTBASE_API_KEY!
+ * })
+ * const orders = await sb.collection('orders').where({ status: 'pending' }).find()
+ * ```
  */
-export class SwiftBaseClient {
+export class SwiftBaseClient<DB extends DatabaseSchema = Record<string, Document>> {
   private readonly config: Required<SwiftBaseConfig>
   private readonly httpClient: HttpClient
   private readonly authModule: Auth
@@ -61,6 +102,10 @@ export class SwiftBaseClient {
   private readonly queryService: QueryService
   private readonly realtimeManager: RealtimeManager
   private readonly storageModule: Storage
+  private readonly offlineManager: OfflineManager | null
+  private readonly validationModule: Validation
+  private readonly relationsModule: Relations
+  private readonly cacheModule: QueryCache
   private initPromise: Promise<void> | null = null
 
   constructor(config: SwiftBaseConfig) {
@@ -76,36 +121,96 @@ export class SwiftBaseClient {
     ) as Required<SwiftBaseConfig>
 
     // Initialize HTTP client
+    const apiKey = config.apiKey
     const retryConfig = this.config.request.retry
+    const dedupeConfig = this.config.request.dedupe
     this.httpClient = new HttpClient({
       baseUrl: this.config.url,
       timeout: this.config.request.timeout,
       retry: retryConfig === false ? false : retryConfig as Partial<RetryConfig>,
       headers: this.config.request.headers,
+      dedupe: dedupeConfig === true ? {} : dedupeConfig ?? false,
+      apiKey,
     })
 
-    // Initialize auth module
-    this.authModule = new Auth(this.httpClient, this.config.auth)
+    // Initialize auth module; API key clients have no session to restore or refresh
+    this.authModule = new Auth(
+      this.httpClient,
+      apiKey
+        ? { storage: 'memory', autoRefresh: false, persistSession: false, syncTabs: false }
+        : this.config.auth
+    )
 
     // Initialize collections module
     this.collectionsModule = new Collections(this.httpClient)
 
-    // Initialize query service
-    this.queryService = new QueryService(this.httpClient)
+    // Initialize client-side validation
+    this.validationModule = new Validation(this.collectionsModule, this.config.validation)
+
+    // Initialize relations between collections
+    this.relationsModule = new Relations(this.config.relations)
+
+    // Initialize offline manager (opt-in)
+    this.offlineManager = this.config.offline.enabled
+      ? new OfflineManager(this.httpClient, this.config.offline)
+      : null
 
     // Initialize realtime manager
     this.realtimeManager = new RealtimeManager(this.config.url, this.config.realtime)
+    if (apiKey) {
+      this.realtimeManager.setAuthToken(apiKey)
+    }
+
+    // Initialize query result cache (opt-in)
+    this.cacheModule = new QueryCache(this.config.cache, this.realtimeManager)
+    const cache = this.config.cache.enabled ? this.cacheModule : undefined
+
+    // Initialize query service
+    this.queryService = new QueryService(this.httpClient, {
+      offline: this.offlineManager ?? undefined,
+      realtime: this.realtimeManager,
+      validation: this.validationModule,
+      relations: this.relationsModule,
+      dedupe: Boolean(dedupeConfig),
+      cache,
+    })
+
+    // Replay queued offline writes when the socket comes back
+    if (this.offlineManager) {
+      const offline = this.offlineManager
+      this.realtimeManager.onStatusChange((status) => {
+        if (status === 'connected') {
+          offline.setOnline(true)
+        }
+      })
+    }
 
     // Initialize storage module
     this.storageModule = new Storage(this.httpClient, this.config.url)
 
     // Sync auth token with realtime manager
-    this.authModule.onAuthStateChange((_event, session) => {
-      this.realtimeManager.setAuthToken(session?.accessToken ?? null)
+    this.authModule.onAuthStateChange((event, session) => {
+      if (!apiKey) {
+        this.realtimeManager.setAuthToken(session?.accessToken ?? null)
+      }
+
+      // Offline results and queued writes belong to the signed-in user
+      this.offlineManager?.setUser(sessionOwner(session))
+
+      // Cached results belong to the previous user
+      const userChanged = event === 'SIGNED_IN' || event === 'SIGNED_OUT' ||
+        event === 'IMPERSONATION_STARTED' || event === 'IMPERSONATION_ENDED'
+      if (cache && userChanged) {
+        cache.invalidate().catch(() => {
+          // Storage errors leave the entries to expire
+        })
+      }
     })
 
     // Auto-initialize auth (lazy)
-    this.initPromise = this.authModule.initialize()
+    this.initPromise = this.authModule.initialize().then(() => {
+      this.offlineManager?.setUser(sessionOwner(this.authModule.getSession()))
+    })
   }
 
   /**
@@ -136,6 +241,34 @@ export class SwiftBaseClient {
     return this.collectionsModule
   }
 
+  /**
+   * Offline cache and mutation queue (null unless `offline.enabled` is set)
+   */
+  get offline(): OfflineManager | null {
+    return this.offlineManager
+  }
+
+  /**
+   * Client-side validation of writes
+   */
+  get validation(): Validation {
+    return this.validationModule
+  }
+
+  /**
+   * Query result cache (inactive unless `cache.enabled` is set)
+   */
+  get cache(): QueryCache {
+    return this.cacheModule
+  }
+
+  /**
+   * Relations between collections, resolved by `include()`
+   */
+  get relations(): Relations {
+    return this.relationsModule
+  }
+
   /**
    * Wait for client initialization (auth session restore)
    */
@@ -144,7 +277,9 @@ export class SwiftBaseClient {
   }
 
   /**
-   * Create a query builder for a collection
+   * Create a query builder for a collection.
+   * When the client is typed with a `Database` map, the document type is
+   * inferred from the collection name.
    * @example
    * const products = await sb.collection('products')
    *   .where({ price: { $gte: 50 } })
@@ -152,8 +287,10 @@ export class SwiftBaseClient {
    *   .limit(20)
    *   .find()
    */
-  collection<T = Document>(name: string): QueryBuilder<T> {
-    return this.queryService.collection<T>(name)
+  collection<K extends CollectionName<DB>>(name: K): QueryBuilder<DB[K]>
+  collection<T = Document>(name: string): QueryBuilder<T>
+  collection(name: string): QueryBuilder<unknown> {
+    return this.queryService.collection(name)
   }
 
   /**
@@ -169,6 +306,36 @@ export class SwiftBaseClient {
     return this.queryService.query<T>(request)
   }
 
+  /**
+   * Run writes atomically: everything done through `tx` commits together, or
+   * rolls back if the callback throws. On a serialization conflict the whole
+   * callback is re-run (up to `maxRetries` times), so keep side effects out of it.
+   * @example
+   * const order = await sb.transaction(async (tx) => {
+   *   const item = await tx.collection('inventory').where({ sku }).findOne()
+   *   if (!item || item.stock < quantity) throw new Error('Out of stock')
+   *
+   *   await tx.collection('inventory').where({ sku }).update({ $inc: { stock: -quantity } })
+   *   return tx.collection('orders').create({ sku, quantity, status: 'placed' })
+   * })
+   */
+  async transaction<R>(
+    callback: (tx: Transaction<DB>) => Promise<R>,
+    options?: TransactionOptions
+  ): Promise<R> {
+    return runTransaction<R, DB>(
+      this.httpClient,
+      callback,
+      {
+        validation: this.validationModule,
+        relations: this.relationsModule,
+        dedupe: Boolean(this.config.request.dedupe),
+        cache: this.config.cache.enabled ? this.cacheModule : undefined,
+      },
+      options
+    )
+  }
+
   /**
    * Execute a custom registered query
    * @example
@@ -212,6 +379,13 @@ export class SwiftBaseClient {
   }
 }
 
+/**
+ * Client of any database schema: the members that do not depend on it.
+ * Lets libraries such as UI bindings accept typed and untyped clients alike;
+ * cast back with `as SwiftBaseClient<DB>` to query collections.
+ */
+export type AnyClient = Omit<SwiftBaseClient<DatabaseSchema>, 'collection' | 'transaction'>
+
 /**
  * Create a new SwiftBase client instance.
  *
@@ -240,6 +414,59 @@ export class SwiftBaseClient {
  * })
  * ```
  */
-export function createClient(config: SwiftBaseConfig): SwiftBaseClient {
-  return new SwiftBaseClient(config)
+export function createClient<DB extends DatabaseSchema = Record<string, Document>>(
+  config: SwiftBaseConfig
+): SwiftBaseClient<DB> {
+  return new SwiftBaseClient<DB>(config)
+}
+
+/**
+ * Create a client for one server request (SSR, route handlers, actions).
+ *
+ * The session is read from and written to the request's cookies, so each
+ * request gets its own authenticated client. A session whose access token
+ * expired is refreshed once and the new cookies are written to the response;
+ * no refresh timers are started.
+ *
+ * @param config - Client configuration with the request's cookies
+ * @returns A new SwiftBaseClient instance scoped to the request
+ *
+ * @example Fetch API (Remix, SvelteKit, route handlers)
+ * ```typescript
+ * import { createServerClient, cookiesFromHeaders } from '@swiftbase/sdk'
+ *
+ * const headers = new Headers()
+ * const sb = createServerClient({
+ *   url: process.env.SWIFTBASE_URL!,
+ *   cookies: cookiesFromHeaders(request, headers),
+ * })
+ * await sb.ready()
+ * ```
+ *
+ * @example Next.js
+ * ```typescript
+ * const store = await cookies()
+ * const sb = createServerClient({
+ *   url: process.env.SWIFTBASE_URL!,
+ *   cookies: {
+ *     get: (name) => store.get(name)?.value,
+ *     set: (name, value, options) => store.set(name, value, options),
+ *   },
+ * })
+ * ```
+ */
+export function createServerClient<DB extends DatabaseSchema = Record<string, Document>>(
+  config: ServerClientConfig
+): SwiftBaseClient<DB> {
+  const { cookies, cookieOptions, auth, ...rest } = config
+
+  return new SwiftBaseClient<DB>({
+    ...rest,
+    auth: {
+      autoRefresh: false,
+      refreshExpiredSession: true,
+      ...auth,
+      storage: new CookieStorage(cookies, cookieOptions),
+    },
+  })
 }
@@ -0,0 +1,103 @@
+/**
+ * Request deduplication configuration
+ */
+export interface DedupeConfig {
+  /** How long completed responses are reused, in ms (default: 1000) */
+  ttl: number
+}
+
+/**
+ * Default deduplication configuration
+ */
+export const DEFAULT_DEDUPE_CONFIG: DedupeConfig = {
+  ttl: 1000,
+}
+
+/**
+ * Completed response kept for reuse
+ */
+interface CachedResponse {
+  data: unknown
+  tags: string[]
+  expiresAt: number
+}
+
+/**
+ * Coalesces identical concurrent requests into one and reuses their
+ * responses for a short time.
+ *
+ * @remarks
+ * Every caller gets its own copy of the response, so callers can mutate
+ * results without affecting each other. Failed requests are not cached.
+ */
+export class RequestDeduper {
+  private readonly config: DedupeConfig
+  private readonly inFlight = new Map<string, { promise: Promise<unknown>; tags: string[] }>()
+  private readonly cache = new Map<string, CachedResponse>()
+
+  constructor(config: Partial<DedupeConfig> = {}) {
+    this.config = { ...DEFAULT_DEDUPE_CONFIG, ...config }
+  }
+
+  /**
+   * Run a request, sharing the in-flight or recently completed response for the same key
+   * @param key - Identifies identical requests (method, URL and serialized body)
+   * @param tags - Tags used to invalidate the cached response
+   */
+  async run<T>(key: string, tags: string[], request: () => Promise<T>): Promise<T> {
+    const cached = this.cache.get(key)
+    if (cached && cached.expiresAt > Date.now()) {
+      return structuredClone(cached.data) as T
+    }
+    this.cache.delete(key)
+
+    let entry = this.inFlight.get(key)
+    if (!entry) {
+      const promise = request()
+        .then((data) => {
+          // Invalidated while in flight: the response may already be stale
+          if (this.inFlight.get(key)?.promise === promise && this.config.ttl > 0) {
+            this.store(key, data, tags)
+          }
+          return data
+        })
+        .finally(() => {
+          if (this.inFlight.get(key)?.promise === promise) {
+            this.inFlight.delete(key)
+          }
+        })
+      entry = { promise, tags }
+      this.inFlight.set(key, entry)
+    }
+
+    return structuredClone(await entry.promise) as T
+  }
+
+  /**
+   * Cache a response, first dropping expired ones so responses of keys that
+   * are never requested again are not kept
+   */
+  private store(key: string, data: unknown, tags: string[]): void {
+    const now = Date.now()
+    // Entries are inserted in expiry order, so expired ones come first
+    for (const [cachedKey, entry] of this.cache) {
+      if (entry.expiresAt > now) break
+      this.cache.delete(cachedKey)
+    }
+    this.cache.delete(key)
+    this.cache.set(key, { data, tags, expiresAt: now + this.config.ttl })
+  }
+
+  /**
+   * Drop cached responses with a tag (default: all). Requests in flight are
+   * detached, so later callers send a new request.
+   */
+  invalidate(tag?: string): void {
+    for (const [key, entry] of this.cache) {
+      if (tag === undefined || entry.tags.includes(tag)) this.cache.delete(key)
+    }
+    for (const [key, entry] of this.inFlight) {
+      if (tag === undefined || entry.tags.includes(tag)) this.inFlight.delete(key)
+    }
+  }
+}
@@ -223,12 +223,18 @@ export class ValidationError extends SwiftBaseError {
 }
 
 /**
- * Parse error response from server and throw appropriate error
+ * Parse error response from server and throw appropriate error.
+ * Accepts both flat bodies and the server's `{ error: { code, message } }`.
  */
 export function parseErrorResponse(
   status: number,
-  body: unknown
+  response: unknown
 ): SwiftBaseError {
+  const nested = typeof response === 'object' && response !== null && 'error' in response
+    ? (response as { error: unknown }).error
+    : undefined
+  const body = typeof nested === 'object' && nested !== null ? nested : response
+
   const message = typeof body === 'object' && body !== null && 'message' in body
     ? String((body as { message: unknown }).message)
     : 'An error occurred'
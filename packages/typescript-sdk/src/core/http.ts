@@ -1,3 +1,5 @@
+import { stableStringify } from '../utils/helpers.js'
+import { RequestDeduper, type DedupeConfig } from './dedupe.js'
 import { NetworkError, parseErrorResponse, SwiftBaseError } from './errors.js'
 import {
   createInterceptors,
@@ -24,6 +26,10 @@ export interface HttpClientOptions {
   retry?: Partial<RetryConfig> | false | undefined
   /** Default headers */
   headers?: Record<string, string> | undefined
+  /** Coalesce identical concurrent requests and briefly reuse responses (default: false) */
+  dedupe?: Partial<DedupeConfig> | false | undefined
+  /** API key sent as the bearer token of every request, instead of session tokens */
+  apiKey?: string | undefined
 }
 
 /**
@@ -38,6 +44,13 @@ export interface HttpRequestOptions {
   signal?: AbortSignal
   /** Skip retry for this request */
   skipRetry?: boolean
+  /**
+   * Share identical in-flight requests and recent responses when deduplication
+   * is enabled (default: true for GET, false otherwise)
+   */
+  dedupe?: boolean
+  /** Tags for invalidating the deduplicated response */
+  tags?: string[]
 }
 
 /**
@@ -48,6 +61,8 @@ export class HttpClient {
   private timeout: number
   private retryConfig: Partial<RetryConfig> | false
   private defaultHeaders: Record<string, string>
+  private deduper: RequestDeduper | null
+  private readonly apiKey: string | null
   public readonly interceptors: Interceptors
 
   constructor(options: HttpClientOptions) {
@@ -55,13 +70,25 @@ export class HttpClient {
     this.timeout = options.timeout ?? 30000
     this.retryConfig = options.retry ?? {}
     this.defaultHeaders = options.headers ?? {}
+    this.deduper = options.dedupe ? new RequestDeduper(options.dedupe) : null
     this.interceptors = createInterceptors()
+
+    this.apiKey = options.apiKey ?? null
+    if (this.apiKey) {
+      this.defaultHeaders['Authorization'] = `Bearer ${this.apiKey}`
+    }
   }
 
   /**
-   * Set authorization header
+   * Set authorization header.
+   * Deduplicated responses are dropped, as they belong to the previous session.
+   * Ignored when the client authenticates with an API key.
    */
   setAuthHeader(token: string | null): void {
+    if (this.apiKey) return
+
+    this.deduper?.invalidate()
+
     if (token) {
       this.defaultHeaders['Authorization'] = `Bearer ${token}`
     } else {
@@ -83,6 +110,13 @@ export class HttpClient {
     return this.baseUrl
   }
 
+  /**
+   * Drop deduplicated responses with a tag (default: all)
+   */
+  invalidate(tag?: string): void {
+    this.deduper?.invalidate(tag)
+  }
+
   /**
    * Get full URL for a path
    */
@@ -144,13 +178,31 @@ export class HttpClient {
   }
 
   /**
-   * Execute HTTP request
+   * Execute HTTP request, through the deduplicator when enabled.
+   * Requests with an abort signal are never shared.
    */
   private async execute<T>(
     method: HttpMethod,
     path: string,
     body?: unknown,
     options?: HttpRequestOptions
+  ): Promise<T> {
+    if (this.deduper && !options?.signal && (options?.dedupe ?? method === 'GET')) {
+      const key = `${method} ${path} ${stableStringify(body)} ${stableStringify(options?.headers ?? {})}`
+      return this.deduper.run(key, options?.tags ?? [], () => this.send<T>(method, path, body, options))
+    }
+
+    return this.send<T>(method, path, body, options)
+  }
+
+  /**
+   * Send HTTP request
+   */
+  private async send<T>(
+    method: HttpMethod,
+    path: string,
+    body?: unknown,
+    options?: HttpRequestOptions
   ): Promise<T> {
     const url = this.getUrl(path)
     const headers = this.mergeHeaders(options?.headers)
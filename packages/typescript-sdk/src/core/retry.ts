@@ -87,10 +87,12 @@ export function sleep(ms: number): Promise<void> {
 
 /**
  * Execute a function with retry logic
+ * @param retryIf - Decides which errors are retried, replacing the default network/status check
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
-  config: Partial<RetryConfig> = {}
+  config: Partial<RetryConfig> = {},
+  retryIf?: (error: unknown) => boolean
 ): Promise<T> {
   const fullConfig: RetryConfig = { ...DEFAULT_RETRY_CONFIG, ...config }
   let lastError: Error | undefined
@@ -109,7 +111,10 @@ export async function withRetry<T>(
 
       // Check if we should retry
       const isLastAttempt = attempt === fullConfig.attempts
-      if (isLastAttempt || !shouldRetry(lastStatus, lastError, fullConfig)) {
+      const retryable = retryIf
+        ? retryIf(error)
+        : shouldRetry(lastStatus, lastError, fullConfig)
+      if (isLastAttempt || !retryable) {
         throw error
       }
 
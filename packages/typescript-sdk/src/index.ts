@@ -53,18 +53,29 @@
  */
 
 // Client
-export { SwiftBaseClient, createClient } from './client.js'
+export { SwiftBaseClient, createClient, createServerClient, type AnyClient } from './client.js'
 
 // Auth module
-export { Auth, AdminAuth } from './modules/auth/index.js'
+export { Auth, AdminAuth, AuthMFA } from './modules/auth/index.js'
 export {
   MemoryStorage,
   LocalStorageAdapter,
   SessionStorageAdapter,
+  CookieStorage,
+  cookiesFromHeaders,
+  parseCookieHeader,
+  serializeCookie,
 } from './modules/auth/index.js'
 
 // Query module
-export { QueryBuilder, QueryService } from './modules/query/index.js'
+export {
+  QueryBuilder,
+  QueryService,
+  LiveQuery,
+  GroupByBuilder,
+  matches,
+  applyUpdate,
+} from './modules/query/index.js'
 
 // Realtime module
 export { RealtimeManager, RealtimeChannel } from './modules/realtime/index.js'
@@ -73,7 +84,29 @@ export { RealtimeManager, RealtimeChannel } from './modules/realtime/index.js'
 export { Storage, type FileInput } from './modules/storage/index.js'
 
 // Collections module
-export { Collections } from './modules/collections/index.js'
+export { Collections, evaluateRule } from './modules/collections/index.js'
+
+// Offline module
+export {
+  OfflineManager,
+  MemoryOfflineStore,
+  IndexedDBOfflineStore,
+} from './modules/offline/index.js'
+
+// Cache module
+export { QueryCache } from './modules/cache/index.js'
+
+// Relations module
+export { Relations } from './modules/relations/index.js'
+
+// Transaction module
+export { Transaction } from './modules/transaction/index.js'
+
+// Validation module
+export { Validation } from './modules/validation/index.js'
+
+// Type generation
+export { generateTypes, parseCollections } from './modules/typegen/index.js'
 
 // Types
 export type {
@@ -83,8 +116,14 @@ export type {
   RequestConfig,
   RetryConfig,
   RealtimeConfig,
+  OfflineConfig,
+  ValidationConfig,
+  CacheConfig,
+  ServerClientConfig,
   // Auth
   StorageAdapter,
+  CookieOptions,
+  CookieMethods,
   User,
   Admin,
   Session,
@@ -95,13 +134,53 @@ export type {
   RegisterRequest,
   LoginRequest,
   AdminLoginRequest,
+  UpdateUserRequest,
+  ResetPasswordOptions,
+  OAuthProvider,
+  SignInWithOAuthOptions,
+  OAuthResponse,
+  MagicLinkOptions,
+  VerifyOtpRequest,
+  Identity,
+  ActiveSession,
+  MfaFactorType,
+  MfaFactor,
+  MfaChallenge,
+  LoginResponse,
+  MfaEnrollOptions,
+  MfaEnrollment,
+  ImpersonateOptions,
   // Query
   ComparisonOperators,
   LogicalOperators,
   WhereClause,
+  FieldPath,
+  PathValue,
+  FieldPathOfType,
+  FieldOperators,
+  FieldCondition,
+  Comparable,
+  Selected,
+  IsUntyped,
   OrderDirection,
   OrderByClause,
   QueryOptions,
+  CursorPage,
+  FieldReference,
+  AggregateAccumulator,
+  GroupKey,
+  MatchStage,
+  GroupStage,
+  SortStage,
+  ProjectStage,
+  LimitStage,
+  UnwindStage,
+  AggregateStage,
+  GroupResult,
+  SearchOptions,
+  HighlightOptions,
+  SearchRequest,
+  SearchHit,
   UpdateOperators,
   QueryAction,
   QueryRequest,
@@ -109,6 +188,9 @@ export type {
   BulkOperation,
   BulkResult,
   Document,
+  LiveQueryDiff,
+  LiveQueryResult,
+  LiveQueryCallback,
   // Realtime
   RealtimeStatus,
   EventType,
@@ -127,10 +209,35 @@ export type {
   // Collections
   CollectionSchema,
   CollectionIndex,
+  CollectionRule,
+  CollectionRules,
   Collection,
   CreateCollectionRequest,
   UpdateCollectionRequest,
   CollectionStats,
+  DatabaseSchema,
+  CollectionName,
+  // Offline
+  OfflineStore,
+  QueuedMutation,
+  ConflictResolution,
+  ConflictHandler,
+  FlushResult,
+  QueueChangeCallback,
+  // Validation
+  StandardSchemaV1,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+  SafeParseSchema,
+  SchemaLike,
+  CollectionValidator,
+  // Relations
+  RelationDefinition,
+  CollectionRelations,
+  RelationsConfig,
+  // Transactions
+  TransactionOptions,
+  TransactionBeginResponse,
 } from './types/index.js'
 
 // Errors
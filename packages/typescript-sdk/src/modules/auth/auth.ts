@@ -10,15 +10,39 @@ import type {
   RegisterRequest,
   LoginRequest,
   AdminLoginRequest,
+  UpdateUserRequest,
+  ResetPasswordOptions,
+  SignInWithOAuthOptions,
+  OAuthResponse,
+  MagicLinkOptions,
+  VerifyOtpRequest,
+  Identity,
+  ActiveSession,
+  LoginResponse,
+  MfaChallenge,
+  MfaEnrollOptions,
+  MfaEnrollment,
+  MfaFactor,
+  ImpersonateOptions,
+  StorageAdapter,
   RawAuthResponse,
   RawAdminAuthResponse,
   RawUser,
   RawAdmin,
+  RawIdentity,
+  RawActiveSession,
+  RawMfaChallenge,
+  RawMfaEnrollment,
+  RawMfaFactor,
   TokenPair,
 } from '../../types/auth.js'
 import type { AuthConfig } from '../../types/client.js'
-import { API_ENDPOINTS } from '../../utils/constants.js'
+import { AuthError } from '../../core/errors.js'
+import { API_ENDPOINTS, STORAGE_KEYS } from '../../utils/constants.js'
+import { isBrowser } from '../../utils/helpers.js'
+import { createPkcePair } from './pkce.js'
 import { createStorageAdapter } from './storage.js'
+import { SessionSync } from './sync.js'
 import { TokenManager } from './token.js'
 
 /**
@@ -29,6 +53,7 @@ function transformUser(raw: RawUser): User {
     id: raw.id,
     email: raw.email,
     emailVerified: raw.email_verified,
+    role: raw.role,
     metadata: raw.metadata,
     lastLogin: raw.last_login,
     createdAt: raw.created_at,
@@ -47,6 +72,49 @@ function transformAdmin(raw: RawAdmin): Admin {
   }
 }
 
+/**
+ * Transform raw identity from server (snake_case) to SDK format (camelCase)
+ */
+function transformIdentity(raw: RawIdentity): Identity {
+  return {
+    id: raw.id,
+    provider: raw.provider,
+    providerUserId: raw.provider_user_id,
+    email: raw.email,
+    lastSignInAt: raw.last_sign_in_at,
+    createdAt: raw.created_at,
+  }
+}
+
+/**
+ * Transform raw active session from server (snake_case) to SDK format (camelCase)
+ */
+function transformActiveSession(raw: RawActiveSession): ActiveSession {
+  return {
+    id: raw.id,
+    device: raw.device,
+    ipAddress: raw.ip_address,
+    userAgent: raw.user_agent,
+    createdAt: raw.created_at,
+    lastUsedAt: raw.last_used_at,
+    current: raw.current,
+  }
+}
+
+/**
+ * Transform raw MFA factor from server (snake_case) to SDK format (camelCase)
+ */
+function transformMfaFactor(raw: RawMfaFactor): MfaFactor {
+  return {
+    id: raw.id,
+    type: raw.type,
+    friendlyName: raw.friendly_name,
+    status: raw.status,
+    lastUsedAt: raw.last_used_at,
+    createdAt: raw.created_at,
+  }
+}
+
 /**
  * Transform token pair to session with computed expiresAt
  */
@@ -83,6 +151,90 @@ export class AdminAuth {
   async getAdmin(): Promise<Admin | null> {
     return this.auth.getAdmin()
   }
+
+  /**
+   * Get a short-lived session of a user to reproduce what they see. The
+   * server records the impersonation in the audit log.
+   */
+  async impersonate(userId: string, options: ImpersonateOptions = {}): Promise<Session> {
+    return this.auth.impersonate(userId, options)
+  }
+
+  /**
+   * Switch back to the admin session after impersonating with `switchSession`
+   */
+  async stopImpersonating(): Promise<Session | null> {
+    return this.auth.stopImpersonating()
+  }
+
+  /**
+   * Check if the client has switched into an impersonated session
+   */
+  isImpersonating(): boolean {
+    return this.auth.getImpersonator() !== null
+  }
+}
+
+/**
+ * Multi-factor authentication methods (TOTP and recovery codes)
+ */
+export class AuthMFA {
+  private http: HttpClient
+  private auth: Auth
+
+  constructor(http: HttpClient, auth: Auth) {
+    this.http = http
+    this.auth = auth
+  }
+
+  /**
+   * Complete a login challenge, or activate a factor with the challenge of
+   * `enroll()`. The code is a current TOTP code or an unused recovery code.
+   */
+  async verify(challengeId: string, code: string): Promise<AuthResponse> {
+    return this.auth.verifyMfa(challengeId, code)
+  }
+
+  /**
+   * Start enrolling a TOTP factor for the signed-in user
+   */
+  async enroll(options: MfaEnrollOptions = {}): Promise<MfaEnrollment> {
+    const raw = await this.http.post<RawMfaEnrollment>(API_ENDPOINTS.AUTH_MFA_FACTORS, {
+      type: 'totp',
+      ...options,
+    })
+
+    return {
+      factor: transformMfaFactor(raw.factor),
+      challengeId: raw.challenge_id,
+      secret: raw.secret,
+      uri: raw.uri,
+    }
+  }
+
+  /**
+   * Remove a factor of the signed-in user
+   */
+  async unenroll(factorId: string): Promise<void> {
+    await this.http.delete(`${API_ENDPOINTS.AUTH_MFA_FACTORS}/${encodeURIComponent(factorId)}`)
+  }
+
+  /**
+   * List the factors of the signed-in user
+   */
+  async listFactors(): Promise<MfaFactor[]> {
+    const raw = await this.http.get<{ factors: RawMfaFactor[] }>(API_ENDPOINTS.AUTH_MFA_FACTORS)
+    return raw.factors.map(transformMfaFactor)
+  }
+
+  /**
+   * Generate new single-use recovery codes, invalidating the previous ones.
+   * The codes are only returned once.
+   */
+  async generateRecoveryCodes(): Promise<string[]> {
+    const raw = await this.http.post<{ codes: string[] }>(API_ENDPOINTS.AUTH_MFA_RECOVERY_CODES)
+    return raw.codes
+  }
 }
 
 /**
@@ -91,21 +243,35 @@ export class AdminAuth {
 export class Auth {
   private http: HttpClient
   private config: AuthConfig
+  private storage: StorageAdapter
   private tokenManager: TokenManager
   private listeners: Set<AuthStateChangeCallback> = new Set()
   private initialized: boolean = false
   private currentUser: User | null = null
   private currentAdmin: Admin | null = null
+  private sync: SessionSync | null = null
 
   public readonly admin: AdminAuth
+  public readonly mfa: AuthMFA
 
   constructor(http: HttpClient, config: AuthConfig) {
     this.http = http
     this.config = config
 
-    const storage = createStorageAdapter(config.storage ?? 'memory')
-    this.tokenManager = new TokenManager(storage)
+    this.storage = createStorageAdapter(config.storage ?? 'memory')
+    this.tokenManager = new TokenManager(this.storage)
     this.admin = new AdminAuth(this)
+    this.mfa = new AuthMFA(http, this)
+
+    // Tabs sharing the stored session follow each other's auth state
+    const sharedStorage = config.storage === 'localStorage' || config.storage === 'cookie'
+    if (config.syncTabs ?? (sharedStorage && isBrowser())) {
+      this.sync = new SessionSync((event, session) => {
+        this.applyRemoteEvent(event, session).catch(() => {
+          // Storage errors leave this tab on its previous session
+        })
+      })
+    }
   }
 
   /**
@@ -114,7 +280,18 @@ export class Auth {
   async initialize(): Promise<void> {
     if (this.initialized) return
 
-    const session = await this.tokenManager.initialize()
+    // A session handed over from server rendering replaces the stored one
+    const initial = this.config.initialSession
+    let session: Session | null
+    if (initial && !this.tokenManager.isSessionExpired(initial)) {
+      session = initial
+      await this.tokenManager.setSession(initial, this.config.persistSession ?? true)
+    } else {
+      session = await this.tokenManager.initialize({
+        keepExpired: this.config.refreshExpiredSession ?? false,
+      })
+    }
+
     if (session) {
       // Set auth header
       this.http.setAuthHeader(session.accessToken)
@@ -127,8 +304,13 @@ export class Auth {
         this.currentAdmin = session.admin
       }
 
+      // Only kept with refreshExpiredSession
+      if (this.tokenManager.isSessionExpired()) {
+        await this.refreshSession()
+      }
+
       // Start auto-refresh if enabled
-      if (this.config.autoRefresh) {
+      if (this.config.autoRefresh && this.tokenManager.getSession()) {
         this.startAutoRefresh()
       }
     }
@@ -157,23 +339,45 @@ export class Auth {
   }
 
   /**
-   * Login with email and password
+   * Login with email and password. Users with MFA get an `MfaChallenge`
+   * instead of a session; pass its `challengeId` and a code to
+   * `mfa.verify()` to finish signing in.
+   *
+   * @remarks
+   * Returns `AuthResponse | MfaChallenge`; narrow on `mfaRequired` before
+   * reading `user` or `session`.
    */
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
-    const raw = await this.http.post<RawAuthResponse>(
+  async login(credentials: LoginRequest): Promise<LoginResponse> {
+    const raw = await this.http.post<RawAuthResponse | RawMfaChallenge>(
       API_ENDPOINTS.AUTH_LOGIN,
       credentials
     )
 
-    // Transform to SDK format
-    const user = transformUser(raw.user)
-    const session = tokensToSession(raw.tokens, user)
-    const response: AuthResponse = { user, session }
+    if ('mfa_required' in raw && raw.mfa_required) {
+      const challenge: MfaChallenge = {
+        mfaRequired: true,
+        challengeId: raw.challenge_id,
+        factors: raw.factors.map(transformMfaFactor),
+        expiresAt: Date.now() + raw.expires_in * 1000,
+      }
 
-    await this.handleAuthResponse(response)
-    this.emitEvent('SIGNED_IN', session)
+      // Nothing was stored, so other tabs are not told
+      this.emitEvent('MFA_CHALLENGE', this.tokenManager.getSession(), false)
+      return challenge
+    }
 
-    return response
+    return this.completeSignIn(raw as RawAuthResponse)
+  }
+
+  /**
+   * Verify a second factor for an MFA challenge
+   */
+  async verifyMfa(challengeId: string, code: string): Promise<AuthResponse> {
+    const raw = await this.http.post<RawAuthResponse>(
+      API_ENDPOINTS.AUTH_MFA_VERIFY,
+      { challengeId, code }
+    )
+    return this.completeSignIn(raw)
   }
 
   /**
@@ -196,13 +400,194 @@ export class Auth {
     return response
   }
 
+  /**
+   * Get a short-lived session of a user as the signed-in admin. With
+   * `switchSession` the client continues as that user, keeping the admin
+   * session until `stopImpersonating()`. Impersonated sessions are not
+   * refreshed; auto-refresh switches back to the admin session before they
+   * expire.
+   */
+  async impersonate(userId: string, options: ImpersonateOptions = {}): Promise<Session> {
+    const admin = this.currentAdmin
+    if (!admin) {
+      throw new AuthError('Sign in as an admin before impersonating a user', 'UNAUTHORIZED')
+    }
+
+    const { switchSession, ...params } = options
+    const raw = await this.http.post<RawAuthResponse>(
+      `${API_ENDPOINTS.ADMIN_USERS}/${encodeURIComponent(userId)}/impersonate`,
+      params
+    )
+
+    const session: Session = {
+      ...tokensToSession(raw.tokens, transformUser(raw.user)),
+      impersonator: admin,
+    }
+
+    if (switchSession) {
+      const persist = this.config.persistSession ?? true
+      await this.tokenManager.setImpersonator(this.tokenManager.getSession(), persist)
+      await this.tokenManager.setSession(session, persist)
+      this.currentUser = session.user ?? null
+      this.currentAdmin = null
+      this.http.setAuthHeader(session.accessToken)
+
+      if (this.config.autoRefresh) {
+        this.startAutoRefresh()
+      }
+
+      this.emitEvent('IMPERSONATION_STARTED', session)
+    }
+
+    return session
+  }
+
+  /**
+   * End an impersonated session and switch back to the admin session
+   */
+  async stopImpersonating(): Promise<Session | null> {
+    if (!this.tokenManager.getImpersonator()) {
+      return null
+    }
+
+    try {
+      // Revoke the impersonated session on the server
+      await this.http.post(API_ENDPOINTS.AUTH_LOGOUT)
+    } catch {
+      // Ignore errors, it expires shortly anyway
+    }
+
+    await this.endImpersonation()
+
+    // The admin access token may have expired while impersonating
+    return this.tokenManager.isSessionExpired()
+      ? this.refreshSession()
+      : this.tokenManager.getSession()
+  }
+
+  /**
+   * Get the admin session kept while impersonating a user
+   */
+  getImpersonator(): Session | null {
+    return this.tokenManager.getImpersonator()
+  }
+
+  /**
+   * Start an OAuth sign-in with PKCE. In the browser this redirects to the
+   * provider unless `skipBrowserRedirect` is set; finish it on the
+   * `redirectTo` page with `exchangeCodeForSession()`.
+   *
+   * The code verifier is kept in the auth storage until the exchange, so
+   * the storage must survive the redirect (not 'memory').
+   */
+  async signInWithOAuth(options: SignInWithOAuthOptions): Promise<OAuthResponse> {
+    return this.startOAuth(options, false)
+  }
+
+  /**
+   * Link an OAuth identity to the signed-in user. Finished like a sign-in
+   * with `exchangeCodeForSession()`.
+   */
+  async linkIdentity(options: SignInWithOAuthOptions): Promise<OAuthResponse> {
+    if (!this.tokenManager.getAccessToken()) {
+      throw new AuthError('Sign in before linking an identity', 'UNAUTHORIZED')
+    }
+    return this.startOAuth(options, true)
+  }
+
+  /**
+   * Exchange the authorization code of an OAuth redirect for a session.
+   * In the browser the code is read from the current URL when omitted.
+   */
+  async exchangeCodeForSession(code?: string): Promise<AuthResponse> {
+    const authCode = code ?? readAuthorizationCode()
+    const verifier = await this.storage.get(STORAGE_KEYS.CODE_VERIFIER)
+    if (!verifier) {
+      throw new AuthError('No code verifier found, start the flow with signInWithOAuth()', 'UNAUTHORIZED', 400)
+    }
+
+    try {
+      const raw = await this.http.post<RawAuthResponse>(
+        API_ENDPOINTS.AUTH_OAUTH_TOKEN,
+        { code: authCode, codeVerifier: verifier }
+      )
+      return await this.completeSignIn(raw)
+    } finally {
+      // Authorization codes are single-use
+      await this.storage.remove(STORAGE_KEYS.CODE_VERIFIER)
+    }
+  }
+
+  /**
+   * Email a sign-in link (and a one-time code) to the user
+   */
+  async signInWithMagicLink(email: string, options: MagicLinkOptions = {}): Promise<void> {
+    await this.http.post(API_ENDPOINTS.AUTH_MAGIC_LINK, { email, ...options })
+  }
+
+  /**
+   * Sign in with the token of a magic link or the code from the email
+   */
+  async verifyOtp(request: VerifyOtpRequest): Promise<AuthResponse> {
+    const raw = await this.http.post<RawAuthResponse>(
+      API_ENDPOINTS.AUTH_OTP_VERIFY,
+      { type: 'magiclink', ...request }
+    )
+    return this.completeSignIn(raw)
+  }
+
+  /**
+   * List the OAuth identities linked to the signed-in user
+   */
+  async listIdentities(): Promise<Identity[]> {
+    const raw = await this.http.get<{ identities: RawIdentity[] }>(API_ENDPOINTS.AUTH_IDENTITIES)
+    return raw.identities.map(transformIdentity)
+  }
+
+  /**
+   * Unlink an OAuth identity from the signed-in user
+   */
+  async unlinkIdentity(identityId: string): Promise<void> {
+    await this.http.delete(`${API_ENDPOINTS.AUTH_IDENTITIES}/${encodeURIComponent(identityId)}`)
+  }
+
+  /**
+   * List the devices the signed-in user is signed in on
+   */
+  async listSessions(): Promise<ActiveSession[]> {
+    const raw = await this.http.get<{ sessions: RawActiveSession[] }>(API_ENDPOINTS.AUTH_SESSIONS)
+    return raw.sessions.map(transformActiveSession)
+  }
+
+  /**
+   * Sign the user out on another device. Revoking the current session
+   * expires this client's session at its next refresh; use `logout()` instead.
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.http.delete(`${API_ENDPOINTS.AUTH_SESSIONS}/${encodeURIComponent(sessionId)}`)
+  }
+
+  /**
+   * Sign the user out on every device except this one
+   */
+  async revokeOtherSessions(): Promise<void> {
+    // The server keeps the session this refresh token belongs to
+    const refreshToken = this.tokenManager.getRefreshToken()
+    if (!refreshToken) {
+      throw new AuthError('Sign in before revoking sessions', 'UNAUTHORIZED')
+    }
+
+    await this.http.post(API_ENDPOINTS.AUTH_SESSIONS_REVOKE_OTHERS, { refreshToken })
+  }
+
   /**
    * Logout current user/admin
    */
   async logout(): Promise<void> {
     try {
       // Call server logout endpoint
-      await this.http.post(API_ENDPOINTS.AUTH_LOGOUT)
+      const isAdmin = Boolean(this.tokenManager.getSession()?.admin)
+      await this.http.post(isAdmin ? API_ENDPOINTS.ADMIN_LOGOUT : API_ENDPOINTS.AUTH_LOGOUT)
     } catch {
       // Ignore errors, clear session anyway
     }
@@ -229,6 +614,64 @@ export class Auth {
     }
   }
 
+  /**
+   * Email a password reset link. Resolves even when no account exists for
+   * the email, so the response does not reveal registered addresses.
+   */
+  async resetPasswordForEmail(email: string, options: ResetPasswordOptions = {}): Promise<void> {
+    await this.http.post(API_ENDPOINTS.AUTH_RECOVER, { email, ...options })
+  }
+
+  /**
+   * Set a new password with the token from a password reset email.
+   * Existing sessions of the user are revoked by the server; sign in again
+   * with the new password.
+   */
+  async confirmPasswordReset(token: string, newPassword: string): Promise<void> {
+    await this.http.post(API_ENDPOINTS.AUTH_RESET_PASSWORD, { token, password: newPassword })
+  }
+
+  /**
+   * Confirm an email address with the token from a verification email
+   */
+  async verifyEmail(token: string): Promise<User> {
+    const raw = await this.http.post<RawUser>(API_ENDPOINTS.AUTH_VERIFY_EMAIL, { token })
+    const user = transformUser(raw)
+
+    // The link may be opened without being signed in as that user
+    if (this.currentUser?.id === user.id) {
+      await this.updateSessionUser(user)
+    }
+    return user
+  }
+
+  /**
+   * Update the signed-in user's email, password or metadata
+   */
+  async updateUser(changes: UpdateUserRequest): Promise<User> {
+    if (!this.currentUser) {
+      throw new AuthError('Sign in before updating the user', 'UNAUTHORIZED')
+    }
+
+    const raw = await this.http.patch<RawUser>(API_ENDPOINTS.AUTH_ME, changes)
+    const user = transformUser(raw)
+    await this.updateSessionUser(user)
+    return user
+  }
+
+  /**
+   * Delete the signed-in user's account and sign out
+   */
+  async deleteAccount(): Promise<void> {
+    if (!this.currentUser) {
+      throw new AuthError('Sign in before deleting the account', 'UNAUTHORIZED')
+    }
+
+    await this.http.delete(API_ENDPOINTS.AUTH_ME)
+    await this.clearSession()
+    this.emitEvent('SIGNED_OUT', null)
+  }
+
   /**
    * Get current admin from server
    */
@@ -255,40 +698,44 @@ export class Auth {
   }
 
   /**
-   * Refresh the current session
+   * Adopt a session obtained elsewhere, e.g. the server session when
+   * hydrating a browser client, without a refresh request
    */
-  async refreshSession(): Promise<Session | null> {
-    const refreshToken = this.tokenManager.getRefreshToken()
-    if (!refreshToken) {
-      return null
-    }
+  async setSession(session: Session): Promise<void> {
+    this.currentUser = session.user ?? null
+    this.currentAdmin = session.admin ?? null
 
-    try {
-      // Backend returns TokenPair with expiresIn (seconds)
-      const tokens = await this.http.post<TokenPair>(
-        API_ENDPOINTS.AUTH_REFRESH,
-        { refreshToken }
-      )
+    await this.tokenManager.setSession(session, this.config.persistSession ?? true)
+    this.http.setAuthHeader(session.accessToken)
 
-      // Convert expiresIn to expiresAt timestamp
-      const expiresAt = Date.now() + tokens.expiresIn * 1000
-
-      await this.tokenManager.updateTokens(
-        tokens.accessToken,
-        tokens.refreshToken,
-        expiresAt
-      )
+    if (this.config.autoRefresh) {
+      this.startAutoRefresh()
+    }
 
-      this.http.setAuthHeader(tokens.accessToken)
-      this.emitEvent('TOKEN_REFRESHED', this.tokenManager.getSession())
+    this.emitEvent('SIGNED_IN', session)
+  }
 
-      return this.tokenManager.getSession()
-    } catch {
-      // Refresh failed, clear session
-      await this.clearSession()
-      this.emitEvent('SESSION_EXPIRED', null)
-      return null
+  /**
+   * Refresh the current session
+   */
+  async refreshSession(): Promise<Session | null> {
+    const sync = this.sync
+    if (!sync) {
+      return this.performRefresh()
     }
+
+    return sync.withRefreshLock(async () => {
+      // Another tab may have rotated the tokens while this one waited
+      return (await this.adoptStoredSession()) ?? this.performRefresh()
+    })
+  }
+
+  /**
+   * Stop following auth state changes of other tabs
+   */
+  stopSync(): void {
+    this.sync?.close()
+    this.sync = null
   }
 
   /**
@@ -311,6 +758,77 @@ export class Auth {
       !this.tokenManager.isSessionExpired()
   }
 
+  /**
+   * Store the session of a user sign-in and notify listeners
+   */
+  private async completeSignIn(raw: RawAuthResponse): Promise<AuthResponse> {
+    const user = transformUser(raw.user)
+    const session = tokensToSession(raw.tokens, user)
+    const response: AuthResponse = { user, session }
+
+    await this.handleAuthResponse(response)
+    this.emitEvent('SIGNED_IN', session)
+
+    return response
+  }
+
+  /**
+   * Store an updated user in the session and notify listeners
+   */
+  private async updateSessionUser(user: User): Promise<void> {
+    this.currentUser = user
+
+    const session = this.tokenManager.getSession()
+    if (!session) return
+
+    const updated: Session = { ...session, user }
+    await this.tokenManager.setSession(updated, this.config.persistSession ?? true)
+    this.emitEvent('USER_UPDATED', updated)
+  }
+
+  /**
+   * Restore the admin session kept while impersonating and notify listeners
+   */
+  private async endImpersonation(): Promise<Session | null> {
+    const session = await this.tokenManager.restoreImpersonator(this.config.persistSession ?? true)
+    if (!session) return null
+
+    this.currentUser = session.user ?? null
+    this.currentAdmin = session.admin ?? null
+    this.http.setAuthHeader(session.accessToken)
+
+    if (this.config.autoRefresh) {
+      this.startAutoRefresh()
+    }
+
+    this.emitEvent('IMPERSONATION_ENDED', session)
+    return session
+  }
+
+  /**
+   * Create a PKCE pair and request the provider authorization URL
+   */
+  private async startOAuth(options: SignInWithOAuthOptions, link: boolean): Promise<OAuthResponse> {
+    const { provider, skipBrowserRedirect, ...params } = options
+    const pkce = await createPkcePair()
+    await this.storage.set(STORAGE_KEYS.CODE_VERIFIER, pkce.verifier)
+
+    const { url } = await this.http.post<{ url: string }>(API_ENDPOINTS.AUTH_OAUTH_AUTHORIZE, {
+      provider,
+      redirectTo: isBrowser() ? window.location.href : undefined,
+      ...params,
+      codeChallenge: pkce.challenge,
+      codeChallengeMethod: pkce.method,
+      link,
+    })
+
+    if (isBrowser() && !skipBrowserRedirect) {
+      window.location.assign(url)
+    }
+
+    return { provider, url }
+  }
+
   /**
    * Handle auth response (user login/register)
    */
@@ -355,6 +873,109 @@ export class Auth {
     }
   }
 
+  /**
+   * Exchange the refresh token for new tokens
+   */
+  private async performRefresh(): Promise<Session | null> {
+    // Impersonated sessions are not refreshed; the admin session is
+    // restored instead and only refreshed if it expired as well
+    if (this.tokenManager.getImpersonator()) {
+      const restored = await this.endImpersonation()
+      if (!this.tokenManager.isSessionExpired()) {
+        return restored
+      }
+    }
+
+    const refreshToken = this.tokenManager.getRefreshToken()
+    if (!refreshToken) {
+      return null
+    }
+
+    try {
+      // Admin and user tokens are refreshed by separate endpoints;
+      // backend returns TokenPair with expiresIn (seconds)
+      const isAdmin = Boolean(this.tokenManager.getSession()?.admin)
+      const tokens = await this.http.post<TokenPair>(
+        isAdmin ? API_ENDPOINTS.ADMIN_REFRESH : API_ENDPOINTS.AUTH_REFRESH,
+        { refreshToken }
+      )
+
+      // Convert expiresIn to expiresAt timestamp
+      const expiresAt = Date.now() + tokens.expiresIn * 1000
+
+      await this.tokenManager.updateTokens(
+        tokens.accessToken,
+        tokens.refreshToken,
+        expiresAt
+      )
+
+      this.http.setAuthHeader(tokens.accessToken)
+      this.emitEvent('TOKEN_REFRESHED', this.tokenManager.getSession())
+
+      return this.tokenManager.getSession()
+    } catch {
+      // The refresh token may have been rotated by another tab
+      const adopted = this.sync ? await this.adoptStoredSession() : null
+      if (adopted) {
+        return adopted
+      }
+
+      // Refresh failed, clear session
+      await this.clearSession()
+      this.emitEvent('SESSION_EXPIRED', null)
+      return null
+    }
+  }
+
+  /**
+   * Adopt tokens another tab stored after rotating this tab's refresh token
+   */
+  private async adoptStoredSession(): Promise<Session | null> {
+    const current = this.tokenManager.getSession()
+    const stored = await this.tokenManager.getStoredSession()
+    if (
+      !current ||
+      !stored ||
+      stored.refreshToken === current.refreshToken ||
+      this.tokenManager.isSessionExpired(stored)
+    ) {
+      return null
+    }
+
+    await this.applyRemoteEvent('TOKEN_REFRESHED', stored)
+    return stored
+  }
+
+  /**
+   * Apply an auth state change made by another tab; storage already holds
+   * the result, so only this tab's state is updated
+   */
+  private async applyRemoteEvent(event: AuthEvent, session: Session | null): Promise<void> {
+    if (event === 'IMPERSONATION_STARTED') {
+      await this.tokenManager.setImpersonator(this.tokenManager.getSession(), false)
+    } else if (event === 'IMPERSONATION_ENDED') {
+      await this.tokenManager.setImpersonator(null, false)
+    }
+
+    if (session) {
+      this.currentUser = session.user ?? null
+      this.currentAdmin = session.admin ?? null
+      await this.tokenManager.setSession(session, false)
+      this.http.setAuthHeader(session.accessToken)
+
+      if (this.config.autoRefresh) {
+        this.startAutoRefresh()
+      }
+    } else {
+      await this.tokenManager.clear(false)
+      this.http.setAuthHeader(null)
+      this.currentUser = null
+      this.currentAdmin = null
+    }
+
+    this.emitEvent(event, session, false)
+  }
+
   /**
    * Clear current session
    */
@@ -379,7 +1000,11 @@ export class Auth {
   /**
    * Emit auth state change event
    */
-  private emitEvent(event: AuthEvent, session: Session | null): void {
+  private emitEvent(event: AuthEvent, session: Session | null, broadcast: boolean = true): void {
+    if (broadcast) {
+      this.sync?.post(event, session)
+    }
+
     for (const listener of this.listeners) {
       try {
         listener(event, session)
@@ -389,3 +1014,21 @@ export class Auth {
     }
   }
 }
+
+/**
+ * Read the authorization code from the current URL, surfacing errors the
+ * provider redirected with
+ */
+function readAuthorizationCode(): string {
+  const params = isBrowser() ? new URL(window.location.href).searchParams : null
+  const error = params?.get('error_description') ?? params?.get('error')
+  if (error) {
+    throw new AuthError(error, 'UNAUTHORIZED')
+  }
+
+  const code = params?.get('code')
+  if (!code) {
+    throw new AuthError('No authorization code to exchange', 'UNAUTHORIZED', 400)
+  }
+  return code
+}
@@ -0,0 +1,112 @@
+import type { CookieMethods, CookieOptions } from '../../types/auth.js'
+import { isBrowser } from '../../utils/helpers.js'
+
+/**
+ * Default attributes of session cookies
+ */
+export const DEFAULT_COOKIE_OPTIONS: CookieOptions = {
+  path: '/',
+  sameSite: 'lax',
+  // Browsers cap cookie lifetimes at 400 days
+  maxAge: 400 * 24 * 60 * 60,
+}
+
+/**
+ * Parse a `Cookie` request header into a name/value map
+ */
+export function parseCookieHeader(header: string | null | undefined): Map<string, string> {
+  const cookies = new Map<string, string>()
+  if (!header) return cookies
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=')
+    if (index === -1) continue
+
+    const name = pair.slice(0, index).trim()
+    // The first occurrence is the most specific path
+    if (name && !cookies.has(name)) {
+      cookies.set(name, pair.slice(index + 1).trim())
+    }
+  }
+  return cookies
+}
+
+/**
+ * Serialize a cookie for a `Set-Cookie` response header (or `document.cookie`)
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  let cookie = `${name}=${value}`
+
+  if (options.path !== undefined) cookie += `; Path=${options.path}`
+  if (options.domain !== undefined) cookie += `; Domain=${options.domain}`
+  if (options.maxAge !== undefined) cookie += `; Max-Age=${Math.floor(options.maxAge)}`
+  if (options.sameSite !== undefined) {
+    cookie += `; SameSite=${options.sameSite.charAt(0).toUpperCase()}${options.sameSite.slice(1)}`
+  }
+  if (options.secure) cookie += '; Secure'
+  if (options.httpOnly) cookie += '; HttpOnly'
+
+  return cookie
+}
+
+/**
+ * Cookie access backed by Fetch API headers: reads the `Cookie` header of the
+ * request and appends `Set-Cookie` headers to the response headers. Without
+ * response headers, writes are ignored.
+ *
+ * @example
+ * ```typescript
+ * export async function loader({ request }) {
+ *   const headers = new Headers()
+ *   const sb = createServerClient({
+ *     url: process.env.SWIFTBASE_URL,
+ *     cookies: cookiesFromHeaders(request, headers),
+ *   })
+ *   const orders = await sb.collection('orders').find()
+ *   return json({ orders }, { headers })
+ * }
+ * ```
+ */
+export function cookiesFromHeaders(
+  request: Request | Headers,
+  response?: Headers
+): CookieMethods {
+  const headers = 'headers' in request ? request.headers : request
+  const jar = parseCookieHeader(headers.get('cookie'))
+
+  const methods: CookieMethods = {
+    get: (name) => jar.get(name) ?? null,
+  }
+
+  if (response) {
+    // Later reads within the same request see the written values
+    methods.set = (name, value, options) => {
+      jar.set(name, value)
+      response.append('Set-Cookie', serializeCookie(name, value, options))
+    }
+    methods.remove = (name, options) => {
+      jar.delete(name)
+      response.append('Set-Cookie', serializeCookie(name, '', { ...options, maxAge: 0 }))
+    }
+  }
+
+  return methods
+}
+
+/**
+ * Cookie access backed by `document.cookie` (no-op outside the browser)
+ * @internal
+ */
+export function documentCookies(): CookieMethods {
+  return {
+    get(name) {
+      if (!isBrowser()) return null
+      return parseCookieHeader(document.cookie).get(name) ?? null
+    },
+    set(name, value, options) {
+      if (!isBrowser()) return
+      // Scripts cannot write HttpOnly cookies
+      document.cookie = serializeCookie(name, value, { ...options, httpOnly: false })
+    },
+  }
+}
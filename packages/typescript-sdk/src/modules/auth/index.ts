@@ -1,8 +1,14 @@
-export { Auth, AdminAuth } from './auth.js'
+export { Auth, AdminAuth, AuthMFA } from './auth.js'
 export { TokenManager } from './token.js'
 export {
   MemoryStorage,
   LocalStorageAdapter,
   SessionStorageAdapter,
+  CookieStorage,
   createStorageAdapter,
 } from './storage.js'
+export {
+  cookiesFromHeaders,
+  parseCookieHeader,
+  serializeCookie,
+} from './cookies.js'
@@ -0,0 +1,37 @@
+/**
+ * PKCE (RFC 7636) code verifier and challenge
+ */
+export interface PkcePair {
+  verifier: string
+  challenge: string
+  method: 'S256' | 'plain'
+}
+
+/**
+ * Base64url-encode bytes without padding
+ */
+function base64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Create a random code verifier and its challenge.
+ * Falls back to the `plain` method where `crypto.subtle` is unavailable
+ * (insecure origins).
+ */
+export async function createPkcePair(): Promise<PkcePair> {
+  const random = new Uint8Array(32)
+  crypto.getRandomValues(random)
+  const verifier = base64Url(random)
+
+  if (typeof crypto.subtle === 'undefined') {
+    return { verifier, challenge: verifier, method: 'plain' }
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+  return { verifier, challenge: base64Url(new Uint8Array(digest)), method: 'S256' }
+}
@@ -1,5 +1,12 @@
-import type { StorageAdapter } from '../../types/auth.js'
+import type { CookieMethods, CookieOptions, StorageAdapter } from '../../types/auth.js'
 import { isBrowser } from '../../utils/helpers.js'
+import { DEFAULT_COOKIE_OPTIONS, documentCookies } from './cookies.js'
+
+/**
+ * Longest encoded value written to a single cookie; browsers limit cookies
+ * to about 4KB including name and attributes
+ */
+const MAX_CHUNK_SIZE = 3180
 
 /**
  * Memory storage adapter - works in all environments
@@ -89,11 +96,99 @@ export class SessionStorageAdapter implements StorageAdapter {
   }
 }
 
+/**
+ * Cookie adapter - shares the session between server and browser
+ *
+ * Values are URI-encoded and split across `<key>.0`, `<key>.1`, ... cookies
+ * when they exceed the cookie size limit. Without cookie methods it uses
+ * `document.cookie`. Writes are ignored when the methods have no `set()`.
+ */
+export class CookieStorage implements StorageAdapter {
+  private readonly cookies: CookieMethods
+  private readonly options: CookieOptions
+
+  constructor(cookies: CookieMethods = documentCookies(), options: CookieOptions = {}) {
+    this.cookies = cookies
+    this.options = { ...DEFAULT_COOKIE_OPTIONS, ...options }
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.cookies.get(key)
+    if (value) return decode(value)
+
+    const chunks = await this.readChunks(key)
+    return chunks.length > 0 ? decode(chunks.join('')) : null
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    if (!this.cookies.set) return
+
+    const encoded = encodeURIComponent(value)
+    const previous = (await this.readChunks(key)).length
+
+    if (encoded.length <= MAX_CHUNK_SIZE) {
+      await this.cookies.set(key, encoded, this.options)
+      await this.removeChunks(key, 0, previous)
+      return
+    }
+
+    let count = 0
+    for (let start = 0; start < encoded.length; start += MAX_CHUNK_SIZE) {
+      await this.cookies.set(`${key}.${count++}`, encoded.slice(start, start + MAX_CHUNK_SIZE), this.options)
+    }
+    if (await this.cookies.get(key)) {
+      await this.delete(key)
+    }
+    await this.removeChunks(key, count, previous)
+  }
+
+  async remove(key: string): Promise<void> {
+    if (await this.cookies.get(key)) {
+      await this.delete(key)
+    }
+    await this.removeChunks(key, 0, (await this.readChunks(key)).length)
+  }
+
+  private async readChunks(key: string): Promise<string[]> {
+    const chunks: string[] = []
+    for (;;) {
+      const chunk = await this.cookies.get(`${key}.${chunks.length}`)
+      if (!chunk) return chunks
+      chunks.push(chunk)
+    }
+  }
+
+  private async removeChunks(key: string, from: number, to: number): Promise<void> {
+    for (let index = from; index < to; index++) {
+      await this.delete(`${key}.${index}`)
+    }
+  }
+
+  private async delete(name: string): Promise<void> {
+    if (this.cookies.remove) {
+      await this.cookies.remove(name, this.options)
+    } else if (this.cookies.set) {
+      await this.cookies.set(name, '', { ...this.options, maxAge: 0 })
+    }
+  }
+}
+
+/**
+ * Decode a stored cookie value, null when it is malformed
+ */
+function decode(value: string): string | null {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return null
+  }
+}
+
 /**
  * Create a storage adapter based on configuration
  */
 export function createStorageAdapter(
-  storage: 'localStorage' | 'sessionStorage' | 'memory' | StorageAdapter
+  storage: 'localStorage' | 'sessionStorage' | 'cookie' | 'memory' | StorageAdapter
 ): StorageAdapter {
   if (typeof storage === 'object') {
     return storage
@@ -104,6 +199,8 @@ export function createStorageAdapter(
       return new LocalStorageAdapter()
     case 'sessionStorage':
       return new SessionStorageAdapter()
+    case 'cookie':
+      return new CookieStorage()
     case 'memory':
     default:
       return new MemoryStorage()
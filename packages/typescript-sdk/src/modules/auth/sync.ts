@@ -0,0 +1,110 @@
+import type { AuthEvent, Session } from '../../types/auth.js'
+import { STORAGE_KEYS } from '../../utils/constants.js'
+import { isBrowser } from '../../utils/helpers.js'
+
+/**
+ * Auth state change received from another tab
+ */
+export type SessionSyncCallback = (event: AuthEvent, session: Session | null) => void
+
+/**
+ * Message exchanged between tabs
+ * @internal
+ */
+interface SessionSyncMessage {
+  event: AuthEvent
+  session: Session | null
+}
+
+const CHANNEL_NAME = 'swiftbase_auth'
+const REFRESH_LOCK = 'swiftbase_auth_refresh'
+
+/**
+ * Shares auth state changes between tabs of the same origin and serializes
+ * token refreshes across them.
+ *
+ * Changes are broadcast over a `BroadcastChannel`. Where it is unavailable,
+ * `storage` events of the stored session are used instead, which requires the
+ * session to be kept in localStorage. Refreshes hold a Web Lock, so only one
+ * tab rotates the refresh token at a time.
+ */
+export class SessionSync {
+  private readonly channel: BroadcastChannel | null = null
+  private readonly callback: SessionSyncCallback
+  private localLock: Promise<unknown> = Promise.resolve()
+
+  constructor(callback: SessionSyncCallback) {
+    this.callback = callback
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME)
+      this.channel.onmessage = (message: MessageEvent<SessionSyncMessage>) => {
+        this.callback(message.data.event, message.data.session)
+      }
+      // Node.js: don't keep the process alive for the channel
+      ;(this.channel as { unref?: () => void }).unref?.()
+    } else if (isBrowser()) {
+      window.addEventListener('storage', this.handleStorage)
+    }
+  }
+
+  /**
+   * Tell other tabs about a local auth state change
+   */
+  post(event: AuthEvent, session: Session | null): void {
+    // With the storage fallback, writing the session notifies other tabs
+    this.channel?.postMessage({ event, session } satisfies SessionSyncMessage)
+  }
+
+  /**
+   * Run a refresh while no other tab refreshes
+   */
+  async withRefreshLock<T>(callback: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(REFRESH_LOCK, callback)
+    }
+
+    // Without Web Locks, refreshes are only serialized within this tab
+    const run = this.localLock.then(callback, callback)
+    this.localLock = run.catch(() => {})
+    return run
+  }
+
+  /**
+   * Stop listening to other tabs
+   */
+  close(): void {
+    this.channel?.close()
+    if (!this.channel && isBrowser()) {
+      window.removeEventListener('storage', this.handleStorage)
+    }
+  }
+
+  private handleStorage = (event: StorageEvent): void => {
+    if (event.key !== STORAGE_KEYS.SESSION) return
+
+    const session = parseSession(event.newValue)
+    if (!session) {
+      this.callback('SIGNED_OUT', null)
+      return
+    }
+
+    // Same identity means the tokens were rotated
+    const previous = parseSession(event.oldValue)
+    const sameIdentity = previous !== null &&
+      (previous.user?.id ?? previous.admin?.id) === (session.user?.id ?? session.admin?.id)
+    this.callback(sameIdentity ? 'TOKEN_REFRESHED' : 'SIGNED_IN', session)
+  }
+}
+
+/**
+ * Parse a stored session, null when missing or malformed
+ */
+function parseSession(value: string | null): Session | null {
+  if (!value) return null
+  try {
+    return JSON.parse(value) as Session
+  } catch {
+    return null
+  }
+}
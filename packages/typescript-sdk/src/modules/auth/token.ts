@@ -8,6 +8,7 @@ import { isTokenExpired, decodeJwtPayload } from '../../utils/helpers.js'
 export class TokenManager {
   private storage: StorageAdapter
   private session: Session | null = null
+  private impersonator: Session | null = null
   private refreshTimer: ReturnType<typeof setTimeout> | null = null
 
   constructor(storage: StorageAdapter) {
@@ -15,24 +16,34 @@ export class TokenManager {
   }
 
   /**
-   * Initialize token manager, loading session from storage
+   * Initialize token manager, loading session from storage.
+   * With `keepExpired`, a session whose access token expired is kept so it
+   * can be refreshed with its refresh token.
    */
-  async initialize(): Promise<Session | null> {
+  async initialize(options: { keepExpired?: boolean } = {}): Promise<Session | null> {
     const stored = await this.storage.get(STORAGE_KEYS.SESSION)
     if (stored) {
+      const impersonator = await this.readStoredSession(STORAGE_KEYS.IMPERSONATOR)
       try {
         const session = JSON.parse(stored) as Session
         // Validate session is not expired
-        if (!this.isSessionExpired(session)) {
+        if (this.isUsable(session, options)) {
           this.session = session
+          this.impersonator = impersonator
           return session
         }
-        // Clear expired session
-        await this.clear()
       } catch {
-        // Invalid stored session, clear it
-        await this.clear()
+        // Invalid stored session, cleared below
       }
+
+      // An expired impersonated session hands back to the admin session
+      if (impersonator && this.isUsable(impersonator, options)) {
+        this.impersonator = impersonator
+        return this.restoreImpersonator()
+      }
+
+      // Clear expired or invalid session
+      await this.clear()
     }
     return null
   }
@@ -68,6 +79,39 @@ export class TokenManager {
     }
   }
 
+  /**
+   * Get the session kept while impersonating a user
+   */
+  getImpersonator(): Session | null {
+    return this.impersonator
+  }
+
+  /**
+   * Keep the admin session while impersonating a user, or forget it
+   */
+  async setImpersonator(session: Session | null, persist: boolean = true): Promise<void> {
+    this.impersonator = session
+    if (persist) {
+      if (session) {
+        await this.storage.set(STORAGE_KEYS.IMPERSONATOR, JSON.stringify(session))
+      } else {
+        await this.storage.remove(STORAGE_KEYS.IMPERSONATOR)
+      }
+    }
+  }
+
+  /**
+   * Switch back to the session kept by `setImpersonator()`
+   */
+  async restoreImpersonator(persist: boolean = true): Promise<Session | null> {
+    const session = this.impersonator
+    if (!session) return null
+
+    await this.setImpersonator(null, persist)
+    await this.setSession(session, persist)
+    return session
+  }
+
   /**
    * Update session with new tokens
    */
@@ -88,12 +132,25 @@ export class TokenManager {
   }
 
   /**
-   * Clear session
+   * Read the stored session without adopting it, e.g. to pick up tokens
+   * written by another tab
    */
-  async clear(): Promise<void> {
+  async getStoredSession(): Promise<Session | null> {
+    return this.readStoredSession(STORAGE_KEYS.SESSION)
+  }
+
+  /**
+   * Clear session and any kept admin session (only in memory when
+   * `persist` is false)
+   */
+  async clear(persist: boolean = true): Promise<void> {
     this.session = null
+    this.impersonator = null
     this.stopRefreshTimer()
-    await this.storage.remove(STORAGE_KEYS.SESSION)
+    if (persist) {
+      await this.storage.remove(STORAGE_KEYS.SESSION)
+      await this.storage.remove(STORAGE_KEYS.IMPERSONATOR)
+    }
   }
 
   /**
@@ -159,4 +216,23 @@ export class TokenManager {
       this.refreshTimer = null
     }
   }
+
+  /**
+   * Check if a stored session can be restored, refreshing it if expired
+   */
+  private isUsable(session: Session, options: { keepExpired?: boolean }): boolean {
+    return !this.isSessionExpired(session) || Boolean(options.keepExpired && session.refreshToken)
+  }
+
+  /**
+   * Read a session from storage, ignoring invalid JSON
+   */
+  private async readStoredSession(key: string): Promise<Session | null> {
+    try {
+      const stored = await this.storage.get(key)
+      return stored ? JSON.parse(stored) as Session : null
+    } catch {
+      return null
+    }
+  }
 }
@@ -0,0 +1,368 @@
+import type { StorageAdapter } from '../../types/auth.js'
+import type { CacheConfig } from '../../types/client.js'
+import type { QueryAction, QueryRequest, QueryResponse } from '../../types/query.js'
+import type { Unsubscribe } from '../../types/realtime.js'
+import { STORAGE_KEYS } from '../../utils/constants.js'
+import { stableStringify } from '../../utils/helpers.js'
+import { LocalStorageAdapter, MemoryStorage } from '../auth/index.js'
+import { IndexedDBOfflineStore } from '../offline/index.js'
+import type { QueryBuilder } from '../query/index.js'
+import type { RealtimeManager } from '../realtime/index.js'
+
+/**
+ * Actions whose results are cached
+ */
+const CACHED_ACTIONS: ReadonlySet<QueryAction> = new Set(['find', 'findOne', 'count'])
+
+/**
+ * Key for invalidating every collection
+ */
+const ALL_COLLECTIONS = '*'
+
+/**
+ * Cached query response
+ */
+interface CacheEntry {
+  response: QueryResponse<unknown>
+  /** When the request that produced the response was sent */
+  fetchedAt: number
+}
+
+/**
+ * Create the storage for cached results.
+ * Falls back to memory when IndexedDB is unavailable (e.g. Node.js).
+ */
+export function createCacheStorage(
+  store: 'memory' | 'localStorage' | 'indexedDB' | StorageAdapter
+): StorageAdapter {
+  if (typeof store === 'object') {
+    return store
+  }
+
+  switch (store) {
+    case 'localStorage':
+      return new LocalStorageAdapter()
+    case 'indexedDB':
+      return typeof indexedDB !== 'undefined'
+        ? new IndexedDBOfflineStore('swiftbase_cache')
+        : new MemoryStorage()
+    case 'memory':
+    default:
+      return new MemoryStorage()
+  }
+}
+
+/**
+ * Client-side cache of `find()`, `findOne()` and `count()` results
+ *
+ * @remarks
+ * - Results are keyed by the normalized query request and are fresh for `ttl`
+ *   ms. For `staleWhileRevalidate` ms after that, the stale result is returned
+ *   at once while a background request refreshes it.
+ * - Writes through the query builder, realtime events for a collection and
+ *   sign-in/sign-out invalidate cached results; invalidated results are
+ *   removed and never served.
+ * - At most `maxEntries` results are kept; the least recently used ones are
+ *   removed first. Realtime events of a collection are only followed while
+ *   results of it are cached.
+ * - Requests inside transactions are not cached.
+ *
+ * @example
+ * ```typescript
+ * const sb = createClient({
+ *   url: 'http://localhost:8090',
+ *   cache: { enabled: true, ttl: 10000, store: 'indexedDB' }
+ * })
+ *
+ * await sb.cache.prefetch(sb.collection('products').where({ featured: true }))
+ * sb.cache.invalidate('products')
+ * ```
+ */
+export class QueryCache {
+  private readonly storage: StorageAdapter
+  private readonly enabled: boolean
+  private readonly ttl: number
+  private readonly staleWhileRevalidate: number
+  private readonly maxEntries: number
+  private readonly realtime: RealtimeManager | null
+  private readonly pending = new Map<string, { promise: Promise<QueryResponse<unknown>>; collection: string }>()
+  private readonly subscriptions = new Map<string, Unsubscribe>()
+  private readonly listeners = new Set<(collection: string) => void>()
+  private entries: Map<string, string> | null = null
+  private entriesPromise: Promise<Map<string, string>> | null = null
+  private invalidatedAt: Record<string, number> | null = null
+  private invalidatedAtPromise: Promise<Record<string, number>> | null = null
+  private lastStamp = 0
+
+  constructor(config: CacheConfig = {}, realtime: RealtimeManager | null = null) {
+    this.enabled = config.enabled ?? false
+    this.ttl = config.ttl ?? 30000
+    this.staleWhileRevalidate = config.staleWhileRevalidate ?? 300000
+    this.maxEntries = config.maxEntries ?? 100
+    this.storage = createCacheStorage(config.store ?? 'memory')
+    this.realtime = config.realtime === false ? null : realtime
+  }
+
+  /**
+   * Serve a query from the cache, fetching (or revalidating) as needed
+   * @internal
+   */
+  async execute<R>(
+    request: QueryRequest,
+    fetch: () => Promise<QueryResponse<R>>
+  ): Promise<QueryResponse<R>> {
+    if (!this.enabled || !CACHED_ACTIONS.has(request.action)) {
+      return fetch()
+    }
+
+    const key = `${STORAGE_KEYS.QUERY_CACHE}:${stableStringify(request)}`
+    const entry = await this.read(key, request.collection)
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity
+
+    this.watch(request.collection)
+
+    if (entry && age < this.ttl) {
+      await this.touch(key, request.collection)
+      return entry.response as QueryResponse<R>
+    }
+
+    if (entry && age < this.ttl + this.staleWhileRevalidate) {
+      await this.touch(key, request.collection)
+      this.refresh(key, request.collection, fetch).catch(() => {
+        // The stale result stays until the next read retries
+      })
+      return entry.response as QueryResponse<R>
+    }
+
+    return this.refresh(key, request.collection, fetch)
+  }
+
+  /**
+   * Drop cached results of a collection (default: all collections)
+   */
+  async invalidate(collection: string = ALL_COLLECTIONS): Promise<void> {
+    const invalidatedAt = await this.loadInvalidatedAt()
+    invalidatedAt[collection] = this.stamp()
+
+    // Later reads must not join fetches that may return stale results
+    for (const [key, pending] of this.pending) {
+      if (collection === ALL_COLLECTIONS || pending.collection === collection) {
+        this.pending.delete(key)
+      }
+    }
+
+    await this.storage.set(`${STORAGE_KEYS.QUERY_CACHE}_invalidated`, JSON.stringify(invalidatedAt))
+
+    const entries = await this.loadEntries()
+    await this.remove(
+      [...entries].filter(([, entryCollection]) => collection === ALL_COLLECTIONS || entryCollection === collection)
+        .map(([key]) => key)
+    )
+    this.notify(collection)
+  }
+
+  /**
+   * Run a query so later reads are served from the cache.
+   * Errors are ignored; the next read fetches again.
+   * @example
+   * await sb.cache.prefetch(sb.collection('products').where({ featured: true }).limit(10))
+   */
+  async prefetch<T, R>(builder: QueryBuilder<T, R>): Promise<void> {
+    try {
+      await builder.find()
+    } catch {
+      // Nothing to cache
+    }
+  }
+
+  /**
+   * Listen for cached results of a collection being refreshed or invalidated.
+   * The collection is `'*'` when everything was invalidated.
+   */
+  onChange(callback: (collection: string) => void): Unsubscribe {
+    this.listeners.add(callback)
+    return () => this.listeners.delete(callback)
+  }
+
+  /**
+   * Fetch and store a result, sharing concurrent fetches of the same query
+   */
+  private refresh<R>(
+    key: string,
+    collection: string,
+    fetch: () => Promise<QueryResponse<R>>
+  ): Promise<QueryResponse<R>> {
+    const pending = this.pending.get(key)
+    if (pending) return pending.promise as Promise<QueryResponse<R>>
+
+    const fetchedAt = this.stamp()
+    const promise: Promise<QueryResponse<R>> = fetch()
+      .then(async (response) => {
+        // Fetches detached by an invalidation may have read stale data
+        if (this.pending.get(key)?.promise === promise) {
+          const entry: CacheEntry = { response, fetchedAt }
+          await this.storage.set(key, JSON.stringify(entry))
+          await this.touch(key, collection)
+          this.notify(collection)
+        }
+        return response
+      })
+      .finally(() => {
+        if (this.pending.get(key)?.promise === promise) {
+          this.pending.delete(key)
+        }
+        this.releaseWatches().catch(() => {
+          // Released on the next removal
+        })
+      })
+
+    this.pending.set(key, { promise, collection })
+    return promise
+  }
+
+  /**
+   * Read an entry, removing entries fetched before the last invalidation
+   */
+  private async read(key: string, collection: string): Promise<CacheEntry | null> {
+    const raw = await this.storage.get(key)
+    if (!raw) return null
+
+    let entry: CacheEntry
+    try {
+      entry = JSON.parse(raw) as CacheEntry
+    } catch {
+      return null
+    }
+
+    const invalidatedAt = await this.loadInvalidatedAt()
+    const invalidated = Math.max(invalidatedAt[collection] ?? 0, invalidatedAt[ALL_COLLECTIONS] ?? 0)
+    if (entry.fetchedAt > invalidated) return entry
+
+    await this.remove([key])
+    return null
+  }
+
+  /**
+   * Mark an entry as the most recently used one, removing the least
+   * recently used entries beyond `maxEntries`
+   */
+  private async touch(key: string, collection: string): Promise<void> {
+    const entries = await this.loadEntries()
+    entries.delete(key)
+    entries.set(key, collection)
+
+    await this.remove([...entries.keys()].slice(0, Math.max(0, entries.size - this.maxEntries)))
+  }
+
+  /**
+   * Remove entries from storage and the entry index
+   */
+  private async remove(keys: string[]): Promise<void> {
+    const entries = await this.loadEntries()
+    for (const key of keys) {
+      entries.delete(key)
+    }
+
+    await Promise.all(keys.map((key) => this.storage.remove(key)))
+    await this.storage.set(`${STORAGE_KEYS.QUERY_CACHE}_keys`, JSON.stringify([...entries]))
+    await this.releaseWatches()
+  }
+
+  /**
+   * Load the entry index (key to collection, least recently used first) from storage (once)
+   */
+  private loadEntries(): Promise<Map<string, string>> {
+    if (this.entries) return Promise.resolve(this.entries)
+
+    if (!this.entriesPromise) {
+      this.entriesPromise = Promise.resolve(
+        this.storage.get(`${STORAGE_KEYS.QUERY_CACHE}_keys`)
+      ).then((raw) => {
+        try {
+          this.entries = new Map(raw ? JSON.parse(raw) as [string, string][] : [])
+        } catch {
+          this.entries = new Map()
+        }
+        return this.entries
+      })
+    }
+    return this.entriesPromise
+  }
+
+  /**
+   * Load invalidation times from storage (once)
+   */
+  private loadInvalidatedAt(): Promise<Record<string, number>> {
+    if (this.invalidatedAt) return Promise.resolve(this.invalidatedAt)
+
+    if (!this.invalidatedAtPromise) {
+      this.invalidatedAtPromise = Promise.resolve(
+        this.storage.get(`${STORAGE_KEYS.QUERY_CACHE}_invalidated`)
+      ).then((raw) => {
+        try {
+          this.invalidatedAt = raw ? JSON.parse(raw) as Record<string, number> : {}
+        } catch {
+          this.invalidatedAt = {}
+        }
+        this.lastStamp = Math.max(this.lastStamp, ...Object.values(this.invalidatedAt))
+        return this.invalidatedAt
+      })
+    }
+    return this.invalidatedAtPromise
+  }
+
+  /**
+   * Current time in ms, strictly increasing so that fetches and
+   * invalidations in the same millisecond are still ordered
+   */
+  private stamp(): number {
+    this.lastStamp = Math.max(Date.now(), this.lastStamp + 1)
+    return this.lastStamp
+  }
+
+  /**
+   * Invalidate a collection's results on realtime events for it (once per collection)
+   */
+  private watch(collection: string): void {
+    if (!this.realtime || this.subscriptions.has(collection)) return
+
+    this.subscriptions.set(collection, this.realtime.subscribe(collection, () => {
+      this.invalidate(collection).catch(() => {
+        // Storage errors leave the entries to expire
+      })
+    }))
+  }
+
+  /**
+   * Stop following realtime events of collections without cached or pending results
+   */
+  private async releaseWatches(): Promise<void> {
+    if (this.subscriptions.size === 0) return
+
+    const entries = await this.loadEntries()
+    const used = new Set([
+      ...entries.values(),
+      ...[...this.pending.values()].map((pending) => pending.collection),
+    ])
+
+    for (const [collection, unsubscribe] of this.subscriptions) {
+      if (!used.has(collection)) {
+        unsubscribe()
+        this.subscriptions.delete(collection)
+      }
+    }
+  }
+
+  /**
+   * Notify change listeners
+   */
+  private notify(collection: string): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(collection)
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+}
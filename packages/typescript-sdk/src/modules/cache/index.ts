@@ -0,0 +1 @@
+export { QueryCache, createCacheStorage } from './cache.js'
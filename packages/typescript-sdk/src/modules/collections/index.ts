@@ -1 +1,2 @@
 export { Collections } from './collections.js'
+export { evaluateRule } from './rules.js'
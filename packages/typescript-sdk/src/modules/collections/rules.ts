@@ -0,0 +1,58 @@
+import type { CollectionRule } from '../../types/collections.js'
+import type { WhereClause } from '../../types/query.js'
+import { getFieldValue, isPlainObject, matches } from '../query/matcher.js'
+
+const AUTH_PREFIX = '$auth.'
+
+/**
+ * Replace `'$auth.<field>'` values with fields of the requesting user
+ */
+function resolvePlaceholders(value: unknown, auth: object | null): unknown {
+  if (typeof value === 'string' && value.startsWith(AUTH_PREFIX)) {
+    // null, not undefined: conditions on undefined are skipped
+    return getFieldValue(auth, value.slice(AUTH_PREFIX.length)) ?? null
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolvePlaceholders(item, auth))
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolvePlaceholders(item, auth)])
+    )
+  }
+
+  return value
+}
+
+/**
+ * Check whether a collection rule allows an operation on a document
+ *
+ * @remarks
+ * Rules are evaluated client-side only: the SwiftBase server does not store
+ * or enforce them yet. Use this to decide what to show, not to protect data.
+ *
+ * @param rule - Rule of the operation; `null` or missing allows admins only
+ * @param document - Stored document, or the new document for `create`
+ * @param auth - Requesting user, or null when signed out
+ *
+ * @example
+ * ```typescript
+ * import { evaluateRule } from '@swiftbase/sdk'
+ *
+ * const rule = { $or: [{ ownerId: '$auth.id' }, { '$auth.role': 'editor' }] }
+ * evaluateRule(rule, { ownerId: 'user_1' }, { id: 'user_1', role: 'user' }) // true
+ * evaluateRule(rule, { ownerId: 'user_1' }, null) // false
+ * ```
+ */
+export function evaluateRule(
+  rule: CollectionRule | undefined,
+  document: object,
+  auth: object | null
+): boolean {
+  if (!rule) return false
+
+  const where = resolvePlaceholders(rule, auth) as WhereClause
+  return matches({ ...document, $auth: auth }, where)
+}
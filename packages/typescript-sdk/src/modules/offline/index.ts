@@ -0,0 +1,6 @@
+export { OfflineManager } from './manager.js'
+export {
+  MemoryOfflineStore,
+  IndexedDBOfflineStore,
+  createOfflineStore,
+} from './store.js'
@@ -0,0 +1,354 @@
+import type { HttpClient } from '../../core/http.js'
+import { NetworkError, SwiftBaseError } from '../../core/errors.js'
+import type { OfflineConfig } from '../../types/client.js'
+import type {
+  OfflineStore,
+  QueuedMutation,
+  ConflictHandler,
+  FlushResult,
+  QueueChangeCallback,
+} from '../../types/offline.js'
+import type { QueryAction, QueryRequest, QueryResponse } from '../../types/query.js'
+import type { Unsubscribe } from '../../types/realtime.js'
+import { API_ENDPOINTS, STORAGE_KEYS } from '../../utils/constants.js'
+import { generateId, isBrowser, stableStringify } from '../../utils/helpers.js'
+import { createOfflineStore } from './store.js'
+
+/**
+ * Actions whose results are cached and served while offline
+ */
+const READ_ACTIONS: ReadonlySet<QueryAction> = new Set(['find', 'findOne', 'count', 'aggregate', 'search'])
+
+/**
+ * Actions that are queued while offline and replayed on reconnect
+ */
+const WRITE_ACTIONS: ReadonlySet<QueryAction> = new Set(['create', 'update', 'delete'])
+
+/**
+ * Scope of cached results and queued writes when nobody is signed in
+ */
+const ANONYMOUS_SCOPE = 'anonymous'
+
+/**
+ * Check if an error means the server could not be reached
+ */
+function isOfflineError(error: unknown, includeTimeout: boolean): boolean {
+  if (!(error instanceof NetworkError)) return false
+  if (error.code === 'ABORTED') return false
+  return includeTimeout || error.code !== 'TIMEOUT'
+}
+
+/**
+ * Build the provisional response returned for a queued write
+ */
+function provisionalResponse<T>(mutation: QueuedMutation): QueryResponse<T> {
+  switch (mutation.request.action) {
+    case 'create': {
+      const now = new Date(mutation.queuedAt).toISOString()
+      return {
+        success: true,
+        data: { ...mutation.request.data, id: mutation.id, createdAt: now, updatedAt: now } as T,
+      }
+    }
+    case 'update':
+      return { success: true, data: { modified: 0 } as T }
+    default:
+      return { success: true, data: { deleted: 0 } as T }
+  }
+}
+
+/**
+ * Offline manager - caches query results and queues writes while the
+ * server is unreachable, replaying them in order once it is back
+ *
+ * @remarks
+ * Writes made while offline resolve immediately with a provisional result:
+ * `create()` returns the submitted data with the mutation ID as a temporary `id`,
+ * `update()`/`delete()` report zero affected documents. Cached reads do not
+ * reflect queued writes.
+ *
+ * Cached results and queued writes belong to the user set with `setUser()`;
+ * those of other users are kept but never served or replayed. Only the
+ * `maxEntries` most recently fetched results are kept per user.
+ */
+export class OfflineManager {
+  private http: HttpClient
+  private store: OfflineStore
+  private onConflict: ConflictHandler | undefined
+  private maxEntries: number
+  private online: boolean
+  private scope: string = ANONYMOUS_SCOPE
+  private cacheKeys: Map<string, Promise<string[]>> = new Map()
+  private queue: QueuedMutation[] | null = null
+  private queuePromise: Promise<QueuedMutation[]> | null = null
+  private flushPromise: Promise<FlushResult> | null = null
+  private queueListeners: Set<QueueChangeCallback> = new Set()
+
+  constructor(http: HttpClient, config: OfflineConfig) {
+    this.http = http
+    this.store = createOfflineStore(config.store ?? 'memory')
+    this.onConflict = config.onConflict
+    this.maxEntries = config.maxEntries ?? 100
+    this.online = typeof navigator !== 'undefined' && typeof navigator.onLine === 'boolean'
+      ? navigator.onLine
+      : true
+
+    // Follow browser connectivity events
+    if (isBrowser()) {
+      window.addEventListener('online', () => this.setOnline(true))
+      window.addEventListener('offline', () => this.setOnline(false))
+    }
+  }
+
+  /**
+   * Check if the server is believed to be reachable
+   */
+  isOnline(): boolean {
+    return this.online
+  }
+
+  /**
+   * Update connectivity state; going online replays the mutation queue
+   */
+  setOnline(online: boolean): void {
+    const cameBack = online && !this.online
+    this.online = online
+
+    if (cameBack) {
+      this.flush().catch(() => {
+        // Replay is retried on the next reconnect
+      })
+    }
+  }
+
+  /**
+   * Switch cached results and queued writes to another user (null when
+   * signed out). A replay in progress stops before the next write.
+   */
+  setUser(userId: string | null): void {
+    const scope = userId ?? ANONYMOUS_SCOPE
+    if (scope === this.scope) return
+
+    this.scope = scope
+    this.queue = null
+    this.queuePromise = null
+  }
+
+  /**
+   * Execute a query request, using the cache and queue when offline
+   */
+  async execute<T>(request: QueryRequest): Promise<QueryResponse<T>> {
+    if (READ_ACTIONS.has(request.action)) {
+      return this.executeRead<T>(request)
+    }
+
+    if (WRITE_ACTIONS.has(request.action)) {
+      return this.executeWrite<T>(request)
+    }
+
+    return this.http.post<QueryResponse<T>>(API_ENDPOINTS.QUERY, request)
+  }
+
+  /**
+   * Get writes waiting to be replayed, oldest first
+   */
+  async getPendingMutations(): Promise<QueuedMutation[]> {
+    return [...await this.loadQueue()]
+  }
+
+  /**
+   * Listen to mutation queue changes
+   */
+  onQueueChange(callback: QueueChangeCallback): Unsubscribe {
+    this.queueListeners.add(callback)
+    return () => this.queueListeners.delete(callback)
+  }
+
+  /**
+   * Replay queued writes in order.
+   * Stops at the first network failure, leaving the rest of the queue intact.
+   */
+  async flush(): Promise<FlushResult> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.replayQueue().finally(() => {
+        this.flushPromise = null
+      })
+    }
+    return this.flushPromise
+  }
+
+  /**
+   * Serve a read from the network, falling back to the cache
+   */
+  private async executeRead<T>(request: QueryRequest): Promise<QueryResponse<T>> {
+    const scope = this.scope
+    const key = `${STORAGE_KEYS.OFFLINE_CACHE}:${scope}:${stableStringify(request)}`
+
+    // Skip the network round trip entirely when known to be offline
+    if (!this.online) {
+      const cached = await this.store.get<QueryResponse<T>>(key)
+      if (cached) return cached
+    }
+
+    try {
+      const response = await this.http.post<QueryResponse<T>>(API_ENDPOINTS.QUERY, request)
+      this.setOnline(true)
+      await this.store.set(key, response)
+      await this.rememberCacheKey(scope, key)
+      return response
+    } catch (error) {
+      if (!isOfflineError(error, true)) throw error
+      this.setOnline(false)
+
+      const cached = await this.store.get<QueryResponse<T>>(key)
+      if (cached) return cached
+      throw error
+    }
+  }
+
+  /**
+   * Send a write, queueing it if the server is unreachable
+   */
+  private async executeWrite<T>(request: QueryRequest): Promise<QueryResponse<T>> {
+    const scope = this.scope
+    const queue = await this.loadQueue()
+
+    // Writes must not overtake queued ones
+    if (this.online && queue.length === 0) {
+      try {
+        const response = await this.http.post<QueryResponse<T>>(API_ENDPOINTS.QUERY, request)
+        this.setOnline(true)
+        return response
+      } catch (error) {
+        // A timed out write may have reached the server, so it is not queued
+        if (!isOfflineError(error, false)) throw error
+        this.setOnline(false)
+      }
+    }
+
+    const mutation: QueuedMutation = {
+      id: generateId(),
+      request,
+      queuedAt: Date.now(),
+    }
+    queue.push(mutation)
+    await this.saveQueue(queue, scope)
+
+    return provisionalResponse<T>(mutation)
+  }
+
+  /**
+   * Replay the queue until it is empty or the server is unreachable
+   */
+  private async replayQueue(): Promise<FlushResult> {
+    const scope = this.scope
+    const queue = await this.loadQueue()
+    let replayed = 0
+    let discarded = 0
+
+    while (queue.length > 0) {
+      // Writes of a previous user must not be sent with another user's token
+      if (this.scope !== scope) break
+
+      const mutation = queue[0]!
+
+      try {
+        await this.http.post(API_ENDPOINTS.QUERY, mutation.request)
+        queue.shift()
+        replayed++
+        await this.saveQueue(queue, scope)
+      } catch (error) {
+        if (isOfflineError(error, true)) {
+          this.online = false
+          break
+        }
+
+        if (!(error instanceof SwiftBaseError)) throw error
+
+        const resolution = this.onConflict
+          ? await this.onConflict(mutation, error)
+          : 'discard'
+
+        if (resolution === 'keep') break
+
+        if (resolution === 'discard') {
+          queue.shift()
+          discarded++
+        } else {
+          queue[0] = { ...mutation, request: resolution }
+        }
+        await this.saveQueue(queue, scope)
+      }
+    }
+
+    return { replayed, discarded, remaining: queue.length }
+  }
+
+  /**
+   * Load the queue from the store (once)
+   */
+  private loadQueue(): Promise<QueuedMutation[]> {
+    if (this.queue) return Promise.resolve(this.queue)
+
+    if (!this.queuePromise) {
+      const scope = this.scope
+      const promise: Promise<QueuedMutation[]> = Promise.resolve(
+        this.store.get<QueuedMutation[]>(`${STORAGE_KEYS.OFFLINE_QUEUE}:${scope}`)
+      ).then((stored) => {
+        const queue = Array.isArray(stored) ? stored : []
+        // The user may have changed while loading
+        if (this.queuePromise === promise) {
+          this.queue = queue
+        }
+        return queue
+      })
+      this.queuePromise = promise
+    }
+    return this.queuePromise
+  }
+
+  /**
+   * Persist a user's queue and notify listeners if it is the current one
+   */
+  private async saveQueue(queue: QueuedMutation[], scope: string = this.scope): Promise<void> {
+    await this.store.set(`${STORAGE_KEYS.OFFLINE_QUEUE}:${scope}`, queue)
+    if (scope !== this.scope) return
+
+    for (const listener of this.queueListeners) {
+      try {
+        listener([...queue])
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+
+  /**
+   * Record a cached result as the most recent one of a user, removing the
+   * oldest results beyond `maxEntries`
+   */
+  private async rememberCacheKey(scope: string, key: string): Promise<void> {
+    const keys = await this.loadCacheKeys(scope)
+    const index = keys.indexOf(key)
+    if (index !== -1) keys.splice(index, 1)
+    keys.push(key)
+
+    const evicted = keys.splice(0, Math.max(0, keys.length - this.maxEntries))
+    await Promise.all(evicted.map((evictedKey) => this.store.remove(evictedKey)))
+    await this.store.set(`${STORAGE_KEYS.OFFLINE_CACHE}_keys:${scope}`, keys)
+  }
+
+  /**
+   * Load the cached result keys of a user, oldest first (once per user)
+   */
+  private loadCacheKeys(scope: string): Promise<string[]> {
+    let keys = this.cacheKeys.get(scope)
+    if (!keys) {
+      keys = Promise.resolve(
+        this.store.get<string[]>(`${STORAGE_KEYS.OFFLINE_CACHE}_keys:${scope}`)
+      ).then((stored) => Array.isArray(stored) ? stored : [])
+      this.cacheKeys.set(scope, keys)
+    }
+    return keys
+  }
+}
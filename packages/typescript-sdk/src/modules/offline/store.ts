@@ -0,0 +1,113 @@
+import type { OfflineStore } from '../../types/offline.js'
+
+/**
+ * Memory offline store - works in all environments
+ * Data is lost on page refresh/process restart
+ */
+export class MemoryOfflineStore implements OfflineStore {
+  private store: Map<string, unknown> = new Map()
+
+  get<T = unknown>(key: string): T | null {
+    return (this.store.get(key) as T | undefined) ?? null
+  }
+
+  set<T = unknown>(key: string, value: T): void {
+    this.store.set(key, value)
+  }
+
+  remove(key: string): void {
+    this.store.delete(key)
+  }
+
+  clear(): void {
+    this.store.clear()
+  }
+}
+
+/**
+ * IndexedDB offline store - browser only, persists across sessions
+ */
+export class IndexedDBOfflineStore implements OfflineStore {
+  private readonly dbName: string
+  private readonly storeName: string = 'entries'
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  constructor(dbName: string = 'swiftbase_offline') {
+    this.dbName = dbName
+  }
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    try {
+      const result = await this.run<T | undefined>('readonly', (store) => store.get(key))
+      return result ?? null
+    } catch {
+      return null
+    }
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    try {
+      await this.run('readwrite', (store) => store.put(value, key))
+    } catch {
+      // Storage might be full or disabled
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await this.run('readwrite', (store) => store.delete(key))
+    } catch {
+      // Ignore errors
+    }
+  }
+
+  /**
+   * Open the database (once)
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName)
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.dbPromise
+  }
+
+  /**
+   * Run a single request in its own transaction
+   */
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open()
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName))
+      request.onsuccess = () => resolve(request.result as T)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
+
+/**
+ * Create an offline store based on configuration.
+ * Falls back to memory when IndexedDB is unavailable (e.g. Node.js).
+ */
+export function createOfflineStore(
+  store: 'memory' | 'indexedDB' | OfflineStore
+): OfflineStore {
+  if (typeof store === 'object') {
+    return store
+  }
+
+  if (store === 'indexedDB' && typeof indexedDB !== 'undefined') {
+    return new IndexedDBOfflineStore()
+  }
+
+  return new MemoryOfflineStore()
+}
@@ -0,0 +1,97 @@
+import type {
+  AggregateAccumulator,
+  AggregateStage,
+  Comparable,
+  Document,
+  FieldPathOfType,
+  FieldReference,
+  GroupResult,
+} from '../../types/query.js'
+
+/**
+ * Runs an aggregation pipeline after the query's own `$match` stage
+ * @internal
+ */
+export type PipelineRunner = <R>(pipeline: AggregateStage[]) => Promise<R[]>
+
+/**
+ * Reference a document field in an aggregation expression
+ * @internal
+ */
+export function fieldRef(field: string): FieldReference {
+  return `$${field}`
+}
+
+/**
+ * Grouped aggregation shortcuts, created by `QueryBuilder.groupBy()`.
+ * Groups are returned sorted by key.
+ *
+ * @example
+ * ```typescript
+ * const byStatus = await sb.collection('orders').groupBy('status').count()
+ * // [{ _id: 'open', count: 12 }, { _id: 'paid', count: 40 }]
+ *
+ * const revenue = await sb.collection('orders')
+ *   .where({ status: 'paid' })
+ *   .groupBy('customerId')
+ *   .sum('total')
+ * // [{ _id: 'c1', sum: 310.5 }, ...]
+ * ```
+ */
+export class GroupByBuilder<T = Document> {
+  private field: string
+  private run: PipelineRunner
+
+  constructor(field: string, run: PipelineRunner) {
+    this.field = field
+    this.run = run
+  }
+
+  /**
+   * Count documents in each group
+   */
+  count(): Promise<GroupResult<'count'>[]> {
+    return this.accumulate('count', { $count: {} })
+  }
+
+  /**
+   * Sum a numeric field in each group
+   */
+  sum(field: FieldPathOfType<T, number>): Promise<GroupResult<'sum'>[]> {
+    return this.accumulate('sum', { $sum: fieldRef(field) })
+  }
+
+  /**
+   * Average a numeric field in each group
+   */
+  avg(field: FieldPathOfType<T, number>): Promise<GroupResult<'avg'>[]> {
+    return this.accumulate('avg', { $avg: fieldRef(field) })
+  }
+
+  /**
+   * Minimum of a field in each group
+   */
+  min(field: FieldPathOfType<T, Comparable>): Promise<GroupResult<'min'>[]> {
+    return this.accumulate('min', { $min: fieldRef(field) })
+  }
+
+  /**
+   * Maximum of a field in each group
+   */
+  max(field: FieldPathOfType<T, Comparable>): Promise<GroupResult<'max'>[]> {
+    return this.accumulate('max', { $max: fieldRef(field) })
+  }
+
+  /**
+   * Run a single-accumulator group stage
+   */
+  private accumulate<K extends string>(
+    name: K,
+    accumulator: AggregateAccumulator
+  ): Promise<GroupResult<K>[]> {
+    return this.run<GroupResult<K>>([
+      { $group: { _id: fieldRef(this.field), [name]: accumulator } },
+      { $sort: { _id: 'asc' } },
+    ])
+  }
+}
@@ -10,24 +10,155 @@ import type {
   BulkOperation,
   BulkResult,
   Document,
+  LiveQueryCallback,
+  CursorPage,
+  AggregateStage,
+  FieldPath,
+  PathValue,
+  QueryAction,
+  Selected,
+  SearchOptions,
+  SearchHit,
 } from '../../types/query.js'
-import { API_ENDPOINTS } from '../../utils/constants.js'
+import type { Unsubscribe } from '../../types/realtime.js'
+import { API_ENDPOINTS, HEADERS } from '../../utils/constants.js'
+import { stableStringify } from '../../utils/helpers.js'
+import type { QueryCache } from '../cache/index.js'
+import type { OfflineManager } from '../offline/index.js'
+import type { RealtimeManager } from '../realtime/index.js'
+import type { Relations } from '../relations/index.js'
+import type { Validation } from '../validation/index.js'
+import { GroupByBuilder } from './aggregate.js'
+import { cursorKeys, decodeCursor, encodeCursor, keysetWhere } from './cursor.js'
+import { LiveQuery } from './live.js'
 
 /**
- * Fluent query builder for constructing and executing queries
+ * Page size for cursor pagination when no limit is set
  */
-export class QueryBuilder<T = Document> {
+const DEFAULT_PAGE_SIZE = 100
+
+/**
+ * Actions that only read, and can share identical in-flight requests
+ */
+const DEDUPE_ACTIONS: ReadonlySet<QueryAction> = new Set(['find', 'findOne', 'count', 'aggregate', 'search'])
+
+/**
+ * Actions that change documents, invalidating cached reads of the collection
+ */
+const WRITE_ACTIONS: ReadonlySet<QueryAction> = new Set(['create', 'update', 'delete'])
+
+/**
+ * Optional services a query builder routes its requests through
+ * @internal
+ */
+export interface QueryBuilderOptions {
+  /** Offline cache and mutation queue */
+  offline?: OfflineManager | undefined
+  /** Realtime manager used by live queries */
+  realtime?: RealtimeManager | undefined
+  /** Client-side validation of creates and updates */
+  validation?: Validation | undefined
+  /** Relations resolved by `include()` */
+  relations?: Relations | undefined
+  /** Transaction the builder's requests run in */
+  transactionId?: string | undefined
+  /** Share identical in-flight reads (see `HttpClient` deduplication) */
+  dedupe?: boolean | undefined
+  /** Query result cache */
+  cache?: QueryCache | undefined
+}
+
+/**
+ * Send a query request: inside a transaction directly (no retry, no offline
+ * queue, no cache), otherwise through the query cache when enabled. Writes
+ * invalidate the collection's cached results.
+ * @internal
+ */
+export async function executeQuery<R>(
+  http: HttpClient,
+  options: QueryBuilderOptions,
+  request: QueryRequest
+): Promise<QueryResponse<R>> {
+  if (options.transactionId !== undefined) {
+    return http.post<QueryResponse<R>>(API_ENDPOINTS.QUERY, request, {
+      headers: { [HEADERS.TRANSACTION_ID]: options.transactionId },
+      skipRetry: true,
+    })
+  }
+
+  if (!options.cache) {
+    return sendQuery<R>(http, options, request)
+  }
+
+  if (!WRITE_ACTIONS.has(request.action)) {
+    return options.cache.execute<R>(request, () => sendQuery<R>(http, options, request))
+  }
+
+  try {
+    return await sendQuery<R>(http, options, request)
+  } finally {
+    await options.cache.invalidate(request.collection)
+  }
+}
+
+/**
+ * Send a query request through the offline manager when enabled. With
+ * deduplication, reads are shared and writes invalidate their collection.
+ */
+async function sendQuery<R>(
+  http: HttpClient,
+  options: QueryBuilderOptions,
+  request: QueryRequest
+): Promise<QueryResponse<R>> {
+  if (!options.dedupe) {
+    return options.offline
+      ? options.offline.execute<R>(request)
+      : http.post<QueryResponse<R>>(API_ENDPOINTS.QUERY, request)
+  }
+
+  if (DEDUPE_ACTIONS.has(request.action) && !options.offline) {
+    return http.post<QueryResponse<R>>(API_ENDPOINTS.QUERY, request, {
+      dedupe: true,
+      tags: [request.collection],
+    })
+  }
+
+  try {
+    return options.offline
+      ? await options.offline.execute<R>(request)
+      : await http.post<QueryResponse<R>>(API_ENDPOINTS.QUERY, request)
+  } finally {
+    // Failed writes may still have been applied
+    if (WRITE_ACTIONS.has(request.action)) {
+      http.invalidate(request.collection)
+    }
+  }
+}
+
+/**
+ * Fluent query builder for constructing and executing queries.
+ *
+ * @remarks
+ * For typed documents (see `swiftbase-typegen`), `where`, `orderBy`, `select`
+ * and `update` only accept field paths of T, and operator values are checked
+ * against the field type. `R` is the result type, narrowed by `select()`.
+ */
+export class QueryBuilder<T = Document, R = T> {
   private http: HttpClient
+  private options: QueryBuilderOptions
   private collectionName: string
   private whereClause: WhereClause = {}
   private orderByClause: OrderByClause = {}
   private limitValue: number | undefined
   private offsetValue: number | undefined
   private selectFields: string[] | undefined
+  private cursorValue: string | undefined
+  private includeNames: string[] = []
 
-  constructor(http: HttpClient, collection: string) {
+  constructor(http: HttpClient, collection: string, options: QueryBuilderOptions = {}) {
     this.http = http
     this.collectionName = collection
+    this.options = options
   }
 
   /**
@@ -36,8 +167,8 @@ export class QueryBuilder<T = Document> {
    * .where({ price: { $gte: 50 }, active: true })
    * .where({ $or: [{ status: 'pending' }, { status: 'active' }] })
    */
-  where(conditions: WhereClause): QueryBuilder<T> {
-    this.whereClause = { ...this.whereClause, ...conditions }
+  where(conditions: WhereClause<T>): QueryBuilder<T, R> {
+    this.whereClause = { ...this.whereClause, ...(conditions as WhereClause) }
     return this
   }
 
@@ -47,11 +178,11 @@ export class QueryBuilder<T = Document> {
    * .orderBy('created_at', 'desc')
    * .orderBy({ created_at: 'desc', name: 'asc' })
    */
-  orderBy(field: string | OrderByClause, direction?: OrderDirection): QueryBuilder<T> {
+  orderBy(field: FieldPath<T> | OrderByClause<T>, direction?: OrderDirection): QueryBuilder<T, R> {
     if (typeof field === 'string') {
       this.orderByClause[field] = direction ?? 'asc'
     } else {
-      this.orderByClause = { ...this.orderByClause, ...field }
+      this.orderByClause = { ...this.orderByClause, ...(field as OrderByClause) }
     }
     return this
   }
@@ -59,7 +190,7 @@ export class QueryBuilder<T = Document> {
   /**
    * Limit number of results
    */
-  limit(count: number): QueryBuilder<T> {
+  limit(count: number): QueryBuilder<T, R> {
     this.limitValue = count
     return this
   }
@@ -67,21 +198,109 @@ export class QueryBuilder<T = Document> {
   /**
    * Skip number of results (for pagination)
    */
-  offset(count: number): QueryBuilder<T> {
+  offset(count: number): QueryBuilder<T, R> {
     this.offsetValue = count
     return this
   }
 
   /**
-   * Select specific fields to return
+   * Start after a cursor returned by `paginate()` (keyset pagination).
+   * Replaces `offset`; pass null to start from the beginning.
+   * @example
+   * const page2 = await sb.collection('orders')
+   *   .orderBy('createdAt', 'desc')
+   *   .limit(50)
+   *   .after(page1.nextCursor)
+   *   .paginate()
+   */
+  after(cursor: string | null | undefined): QueryBuilder<T, R> {
+    this.cursorValue = cursor ?? undefined
+    return this
+  }
+
+  /**
+   * Select specific top-level fields to return; `id` is always included.
+   * Narrows the result type to the selected fields.
    * @example
    * .select(['id', 'name', 'price'])
    */
-  select(fields: string[]): QueryBuilder<T> {
+  select<K extends keyof T & string>(fields: K[]): QueryBuilder<T, Selected<T, K>> {
     this.selectFields = fields
+    return this as unknown as QueryBuilder<T, Selected<T, K>>
+  }
+
+  /**
+   * Attach related documents from other collections to the results.
+   * Relations are declared with `sb.relations.define()`; each one is fetched
+   * with a single `$in` query, however many documents are returned.
+   * Pass the related types to type the result.
+   * @example
+   * const posts = await sb.collection<Post>('posts')
+   *   .include<{ author: User; comments: Comment[] }>('author', 'comments')
+   *   .find() // (Post & { author: User; comments: Comment[] })[]
+   * @throws {Error} If a relation is not declared for the collection
+   */
+  include<K extends string>(...relations: K[]): QueryBuilder<T, R & { [P in K]: unknown }>
+  include<I extends object>(...relations: Array<keyof I & string>): QueryBuilder<T, R & I>
+  include(...relations: string[]): unknown {
+    for (const name of relations) {
+      if (!this.options.relations?.get(this.collectionName, name)) {
+        throw new Error(`Unknown relation "${name}" on collection "${this.collectionName}"`)
+      }
+      if (!this.includeNames.includes(name)) {
+        this.includeNames.push(name)
+      }
+    }
     return this
   }
 
+  /**
+   * Reference fields needed by included relations that are not selected
+   */
+  private relationFields(): string[] {
+    const fields = new Set<string>()
+
+    for (const name of this.includeNames) {
+      const field = this.options.relations?.get(this.collectionName, name)?.localField
+      if (field !== undefined && field !== 'id' && !this.selectFields?.includes(field)) {
+        fields.add(field)
+      }
+    }
+
+    return [...fields]
+  }
+
+  /**
+   * Attach included relations to results, dropping reference fields that
+   * were only fetched for them
+   */
+  private async populate(documents: R[]): Promise<R[]> {
+    if (this.includeNames.length === 0 || !this.options.relations || documents.length === 0) {
+      return documents
+    }
+
+    const populated = await this.options.relations.populate(
+      this.collectionName,
+      documents,
+      this.includeNames,
+      async (collection, where) => {
+        const response = await this.execute<Document[]>({ action: 'find', collection, query: { where } })
+        return response.data
+      }
+    )
+
+    const hidden = this.selectFields
+      ? this.relationFields().filter((field) => !this.includeNames.includes(field))
+      : []
+    if (hidden.length === 0) return populated
+
+    return populated.map((document) => {
+      const copy = { ...document } as Record<string, unknown>
+      for (const field of hidden) delete copy[field]
+      return copy as R
+    })
+  }
+
   /**
    * Build query options object
    */
@@ -105,62 +324,168 @@ export class QueryBuilder<T = Document> {
     }
 
     if (this.selectFields !== undefined) {
-      options.select = this.selectFields
+      const relationFields = this.relationFields()
+      options.select = relationFields.length > 0
+        ? [...this.selectFields, ...relationFields]
+        : this.selectFields
     }
 
     return options
   }
 
+  /**
+   * Send a query request
+   */
+  private async execute<R>(request: QueryRequest): Promise<QueryResponse<R>> {
+    return executeQuery<R>(this.http, this.options, request)
+  }
+
   /**
    * Execute query and return multiple documents
    */
-  async find(): Promise<T[]> {
+  async find(): Promise<R[]> {
     const request: QueryRequest = {
       action: 'find',
       collection: this.collectionName,
       query: this.buildQueryOptions(),
     }
 
-    const response = await this.http.post<QueryResponse<T[]>>(
-      API_ENDPOINTS.QUERY,
-      request
-    )
+    const response = await this.execute<R[]>(request)
 
-    return response.data
+    return this.populate(response.data)
+  }
+
+  /**
+   * Fetch one page using keyset pagination.
+   * Pages follow the order by clause (with `id` as tie-breaker); `limit` sets
+   * the page size (default 100).
+   * @example
+   * const { items, nextCursor, hasMore } = await sb.collection('orders')
+   *   .where({ status: 'paid' })
+   *   .orderBy('createdAt', 'desc')
+   *   .limit(50)
+   *   .paginate()
+   */
+  async paginate(): Promise<CursorPage<R>> {
+    return this.fetchPage(this.cursorValue)
+  }
+
+  /**
+   * Iterate over pages lazily, starting at the current cursor
+   * @example
+   * for await (const page of sb.collection('orders').limit(500).pages()) {
+   *   await exportBatch(page.items)
+   * }
+   */
+  async *pages(): AsyncGenerator<CursorPage<R>, void, undefined> {
+    let cursor = this.cursorValue
+
+    while (true) {
+      const page = await this.fetchPage(cursor)
+      yield page
+
+      if (!page.hasMore || page.nextCursor === null) return
+      cursor = page.nextCursor
+    }
+  }
+
+  /**
+   * Iterate over all matching documents, fetching one page at a time
+   * @example
+   * for await (const order of sb.collection('orders').where({ status: 'paid' })) {
+   *   await write(order)
+   * }
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<R, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.items
+    }
+  }
+
+  /**
+   * Fetch the page after a cursor, requesting one extra row to detect more pages
+   */
+  private async fetchPage(cursor: string | undefined): Promise<CursorPage<R>> {
+    const keys = cursorKeys(this.orderByClause)
+    const pageSize = this.limitValue ?? DEFAULT_PAGE_SIZE
+    const query = this.buildQueryOptions()
+
+    query.orderBy = Object.fromEntries(keys.map((key) => [key.field, key.direction]))
+    query.limit = pageSize + 1
+
+    if (cursor !== undefined) {
+      const after = keysetWhere(keys, decodeCursor(keys, cursor))
+      query.where = query.where ? { $and: [query.where, after] } : after
+      delete query.offset
+    }
+
+    // Cursor fields must be in the results even when not selected
+    const selected = query.select
+    const hiddenFields = selected
+      ? keys.map((key) => key.field).filter((field) => field !== 'id' && !selected.includes(field))
+      : []
+    if (selected && hiddenFields.length > 0) {
+      query.select = [...selected, ...hiddenFields]
+    }
+
+    const response = await this.execute<R[]>({
+      action: 'find',
+      collection: this.collectionName,
+      query,
+    })
+
+    const hasMore = response.data.length > pageSize
+    const items = hasMore ? response.data.slice(0, pageSize) : response.data
+    const last = items[items.length - 1]
+    const nextCursor = hasMore && last !== undefined ? encodeCursor(keys, last) : null
+
+    const visible = hiddenFields.length > 0
+      ? items.map((item) => {
+        const copy = { ...item } as Record<string, unknown>
+        for (const field of hiddenFields) delete copy[field]
+        return copy as R
+      })
+      : items
+
+    return {
+      items: await this.populate(visible),
+      nextCursor,
+      hasMore,
+    }
   }
 
   /**
    * Execute query and return single document
    */
-  async findOne(): Promise<T | null> {
+  async findOne(): Promise<R | null> {
     const request: QueryRequest = {
       action: 'findOne',
       collection: this.collectionName,
       query: this.buildQueryOptions(),
     }
 
-    const response = await this.http.post<QueryResponse<T | null>>(
-      API_ENDPOINTS.QUERY,
-      request
-    )
+    const response = await this.execute<R | null>(request)
 
-    return response.data
+    if (response.data === null) return null
+    const [document] = await this.populate([response.data])
+    return document ?? null
   }
 
   /**
    * Create a new document
+   * @throws {ValidationError} If client-side validation is enabled and the document is invalid
    */
   async create(data: Omit<T, 'id' | 'createdAt' | 'updatedAt'>): Promise<T> {
+    const payload = data as Record<string, unknown>
     const request: QueryRequest = {
       action: 'create',
       collection: this.collectionName,
-      data: data as Record<string, unknown>,
+      data: this.options.validation
+        ? await this.options.validation.validateCreate(this.collectionName, payload)
+        : payload,
     }
 
-    const response = await this.http.post<QueryResponse<T>>(
-      API_ENDPOINTS.QUERY,
-      request
-    )
+    const response = await this.execute<T>(request)
 
     return response.data
   }
@@ -170,19 +495,20 @@ export class QueryBuilder<T = Document> {
    * @example
    * .where({ _id: 'doc_123' })
    * .update({ $set: { price: 149.99 } })
+   * @throws {ValidationError} If client-side validation is enabled and the update is invalid
    */
-  async update(data: UpdateOperators | Partial<T>): Promise<{ modified: number }> {
+  async update(data: UpdateOperators<T> | Partial<T>): Promise<{ modified: number }> {
+    const payload = data as Record<string, unknown>
     const request: QueryRequest = {
       action: 'update',
       collection: this.collectionName,
       query: this.buildQueryOptions(),
-      data: data as Record<string, unknown>,
+      data: this.options.validation
+        ? await this.options.validation.validateUpdate(this.collectionName, payload)
+        : payload,
     }
 
-    const response = await this.http.post<QueryResponse<{ modified: number }>>(
-      API_ENDPOINTS.QUERY,
-      request
-    )
+    const response = await this.execute<{ modified: number }>(request)
 
     return response.data
   }
@@ -197,10 +523,7 @@ export class QueryBuilder<T = Document> {
       query: this.buildQueryOptions(),
     }
 
-    const response = await this.http.post<QueryResponse<{ deleted: number }>>(
-      API_ENDPOINTS.QUERY,
-      request
-    )
+    const response = await this.execute<{ deleted: number }>(request)
 
     return response.data
   }
@@ -215,14 +538,180 @@ export class QueryBuilder<T = Document> {
       query: this.buildQueryOptions(),
     }
 
-    const response = await this.http.post<QueryResponse<{ count: number }>>(
-      API_ENDPOINTS.QUERY,
-      request
-    )
+    const response = await this.execute<{ count: number }>(request)
 
     return response.data.count
   }
 
+  /**
+   * Full-text search among documents matching the where clause, most
+   * relevant first. Searches the collection's text index (see
+   * `CollectionIndex.type`); `orderBy` is not applied, while `limit`,
+   * `offset` and `select` are.
+   * @example
+   * const hits = await sb.collection('products')
+   *   .where({ active: true })
+   *   .limit(20)
+   *   .search('wireless headphones', { fuzzy: true, highlight: true })
+   *
+   * for (const { document, score, highlights } of hits) {
+   *   render(document.name, highlights?.description)
+   * }
+   */
+  async search(text: string, options: SearchOptions<T> = {}): Promise<SearchHit<R>[]> {
+    if (text.trim() === '') return []
+
+    const query = this.buildQueryOptions()
+    delete query.orderBy
+
+    const request: QueryRequest = {
+      action: 'search',
+      collection: this.collectionName,
+      query,
+      search: { text, ...options },
+    }
+
+    const response = await this.execute<SearchHit<R>[]>(request)
+
+    return response.data
+  }
+
+  /**
+   * Run an aggregation pipeline on the server.
+   * The where clause becomes a leading `$match` stage; order, limit, offset
+   * and select are not applied — use `$sort`, `$limit` and `$project` stages.
+   * @remarks
+   * Requires a server that implements the `aggregate` action; the SwiftBase
+   * server does not yet and responds with 501 Not Implemented.
+   * @example
+   * const [totals] = await sb.collection('orders')
+   *   .where({ status: 'paid' })
+   *   .aggregate<{ _id: null; revenue: number; orders: number }>([
+   *     { $group: { _id: null, revenue: { $sum: '$total' }, orders: { $count: {} } } }
+   *   ])
+   */
+  async aggregate<R = Record<string, unknown>>(pipeline: AggregateStage[]): Promise<R[]> {
+    const stages: AggregateStage[] = Object.keys(this.whereClause).length > 0
+      ? [{ $match: this.whereClause }, ...pipeline]
+      : pipeline
+
+    const request: QueryRequest = {
+      action: 'aggregate',
+      collection: this.collectionName,
+      pipeline: stages,
+    }
+
+    const response = await this.execute<R[]>(request)
+
+    return response.data
+  }
+
+  /**
+   * Distinct values of a field among matching documents, sorted ascending.
+   * Order, limit, offset and select are not applied; object and array values
+   * are returned as JSON strings.
+   * @example
+   * const categories = await sb.collection('products').distinct('category')
+   */
+  async distinct<P extends FieldPath<T>>(field: P): Promise<PathValue<T, P>[]> {
+    const query: QueryOptions = { distinct: field, orderBy: { [field]: 'asc' } }
+    if (Object.keys(this.whereClause).length > 0) {
+      query.where = this.whereClause
+    }
+
+    const request: QueryRequest = {
+      action: 'find',
+      collection: this.collectionName,
+      query,
+    }
+
+    const response = await this.execute<PathValue<T, P>[]>(request)
+
+    return response.data
+  }
+
+  /**
+   * Group matching documents by a field.
+   * Runs an aggregation pipeline, see `aggregate()` for server support.
+   * @example
+   * const byStatus = await sb.collection('orders').groupBy('status').count()
+   * const revenue = await sb.collection('orders').groupBy('customerId').sum('total')
+   */
+  groupBy(field: FieldPath<T>): GroupByBuilder<T> {
+    return new GroupByBuilder<T>(field, (pipeline) => this.aggregate(pipeline))
+  }
+
+  /**
+   * Name of the collection this builder queries
+   */
+  getCollection(): string {
+    return this.collectionName
+  }
+
+  /**
+   * Stable key identifying this query: equal for builders with the same
+   * collection, conditions, order, paging, selected fields and includes,
+   * regardless of the order they were set in.
+   * Useful for caching results per query, e.g. in UI bindings.
+   * @example
+   * const key = sb.collection('orders').where({ status: 'open' }).limit(20).toKey()
+   */
+  toKey(): string {
+    return stableStringify({
+      collection: this.collectionName,
+      query: this.buildQueryOptions(),
+      cursor: this.cursorValue ?? null,
+      include: this.includeNames,
+    })
+  }
+
+  /**
+   * Create a live query that keeps this query's result set in sync
+   * through realtime events
+   * @example
+   * const live = sb.collection('orders').where({ status: 'open' }).live()
+   * const unsubscribe = live.subscribe(({ data, diff }) => render(data))
+   */
+  live(): LiveQuery<R> {
+    if (!this.options.realtime) {
+      throw new Error('Live queries require a realtime manager')
+    }
+    if (this.includeNames.length > 0) {
+      throw new Error('Live queries do not support include()')
+    }
+
+    const query = this.buildQueryOptions()
+    const request: QueryRequest = {
+      action: 'find',
+      collection: this.collectionName,
+      query,
+    }
+
+    return new LiveQuery<R>(
+      {
+        collection: this.collectionName,
+        where: query.where ?? {},
+        orderBy: query.orderBy ?? {},
+        limit: query.limit,
+        offset: query.offset,
+        select: query.select,
+        fetch: async () => (await this.execute<R[]>(request)).data,
+      },
+      this.options.realtime
+    )
+  }
+
+  /**
+   * Subscribe to this query's result set (shorthand for `.live().subscribe()`)
+   * @example
+   * const unsubscribe = sb.collection('orders')
+   *   .where({ status: 'open' })
+   *   .subscribe(({ data }) => render(data))
+   */
+  subscribe(callback: LiveQueryCallback<R>, onError?: (error: Error) => void): Unsubscribe {
+    return this.live().subscribe(callback, onError)
+  }
+
   /**
    * Execute bulk operations
    * @example
@@ -238,12 +727,23 @@ export class QueryBuilder<T = Document> {
       operations,
     }
 
-    const response = await this.http.post<BulkResult>(
-      API_ENDPOINTS.QUERY,
-      request
-    )
+    if (this.options.transactionId !== undefined) {
+      return this.http.post<BulkResult>(API_ENDPOINTS.QUERY, request, {
+        headers: { [HEADERS.TRANSACTION_ID]: this.options.transactionId },
+        skipRetry: true,
+      })
+    }
+
+    try {
+      const response = await this.http.post<BulkResult>(API_ENDPOINTS.QUERY, request)
 
-    return response
+      return response
+    } finally {
+      if (this.options.dedupe) {
+        this.http.invalidate(this.collectionName)
+      }
+      await this.options.cache?.invalidate(this.collectionName)
+    }
   }
 }
 
@@ -252,16 +752,18 @@ export class QueryBuilder<T = Document> {
  */
 export class QueryService {
   private http: HttpClient
+  private options: QueryBuilderOptions
 
-  constructor(http: HttpClient) {
+  constructor(http: HttpClient, options: QueryBuilderOptions = {}) {
     this.http = http
+    this.options = options
   }
 
   /**
    * Create a query builder for a collection
    */
   collection<T = Document>(name: string): QueryBuilder<T> {
-    return new QueryBuilder<T>(this.http, name)
+    return new QueryBuilder<T>(this.http, name, this.options)
   }
 
   /**
@@ -274,7 +776,7 @@ export class QueryService {
    * })
    */
   async query<T = unknown>(request: QueryRequest): Promise<QueryResponse<T>> {
-    return this.http.post<QueryResponse<T>>(API_ENDPOINTS.QUERY, request)
+    return executeQuery<T>(this.http, this.options, request)
   }
 
   /**
@@ -0,0 +1,123 @@
+import { QueryError } from '../../core/errors.js'
+import type { OrderByClause, OrderDirection, WhereClause } from '../../types/query.js'
+import { getFieldValue } from './matcher.js'
+
+/**
+ * Field a cursor is keyed on
+ * @internal
+ */
+export interface CursorKey {
+  field: string
+  direction: OrderDirection
+}
+
+/**
+ * Serialized cursor payload
+ */
+interface CursorPayload {
+  /** Key fields, used to reject cursors from a differently ordered query */
+  k: string[]
+  /** Key values of the last document on the page */
+  v: unknown[]
+}
+
+/**
+ * Derive cursor keys from an order by clause, with `id` as the tie-breaker
+ * @internal
+ */
+export function cursorKeys(orderBy: OrderByClause): CursorKey[] {
+  const keys = Object.entries(orderBy).map(([field, direction]) => ({ field, direction }))
+  if (!keys.some((key) => key.field === 'id')) {
+    keys.push({ field: 'id', direction: 'asc' })
+  }
+  return keys
+}
+
+/**
+ * Encode a cursor pointing after a document
+ * @internal
+ */
+export function encodeCursor(keys: CursorKey[], document: unknown): string {
+  const payload: CursorPayload = {
+    k: keys.map((key) => key.field),
+    v: keys.map((key) => getFieldValue(document, key.field) ?? null),
+  }
+
+  const bytes = new TextEncoder().encode(JSON.stringify(payload))
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decode a cursor into key values
+ * @internal
+ * @throws {QueryError} If the cursor is malformed or was created for a different order
+ */
+export function decodeCursor(keys: CursorKey[], cursor: string): unknown[] {
+  let payload: CursorPayload
+
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/')
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    payload = JSON.parse(new TextDecoder().decode(bytes)) as CursorPayload
+  } catch {
+    throw new QueryError('Invalid cursor', 'INVALID_QUERY')
+  }
+
+  const fields = keys.map((key) => key.field)
+  if (
+    !Array.isArray(payload.k) || !Array.isArray(payload.v) ||
+    payload.k.length !== fields.length ||
+    payload.k.some((field, i) => field !== fields[i])
+  ) {
+    throw new QueryError('Cursor does not match the query order', 'INVALID_QUERY')
+  }
+
+  return payload.v
+}
+
+/**
+ * Build the keyset condition selecting documents after the cursor values:
+ * `(a > va) OR (a = va AND b > vb) OR ...`
+ *
+ * @remarks
+ * NULLs sort first in ascending order, as on the server and in
+ * `createComparator()`, and need explicit conditions since `a > NULL` and
+ * `a = NULL` never match in SQL.
+ * @internal
+ */
+export function keysetWhere(keys: CursorKey[], values: unknown[]): WhereClause {
+  const branches: WhereClause[] = []
+
+  keys.forEach((key, index) => {
+    const after = afterCondition(key, values[index] ?? null)
+    if (!after) return
+
+    const branch: WhereClause = {}
+    for (let i = 0; i < index; i++) {
+      branch[keys[i]!.field] = values[i] ?? null
+    }
+    branches.push({ ...branch, ...after })
+  })
+
+  return branches.length === 1 ? branches[0]! : { $or: branches }
+}
+
+/**
+ * Condition selecting values of a key that sort after `value`, or null if
+ * none do (NULL in descending order)
+ */
+function afterCondition(key: CursorKey, value: unknown): WhereClause | null {
+  if (key.direction === 'desc') {
+    return value === null
+      ? null
+      : { $or: [{ [key.field]: { $lt: value } }, { [key.field]: null }] }
+  }
+
+  return { [key.field]: value === null ? { $ne: null } : { $gt: value } }
+}
@@ -1 +1,5 @@
-export { QueryBuilder, QueryService } from './builder.js'
+export { QueryBuilder, QueryService, type QueryBuilderOptions } from './builder.js'
+export { GroupByBuilder } from './aggregate.js'
+export { LiveQuery } from './live.js'
+export { matches } from './matcher.js'
+export { applyUpdate } from './update.js'
@@ -0,0 +1,323 @@
+import type {
+  Document,
+  LiveQueryCallback,
+  LiveQueryDiff,
+  OrderByClause,
+  WhereClause,
+} from '../../types/query.js'
+import type { RealtimeEvent, Unsubscribe } from '../../types/realtime.js'
+import type { RealtimeManager } from '../realtime/index.js'
+import { createComparator, getFieldValue, isEqual, matches } from './matcher.js'
+
+/**
+ * Snapshot of the query a live query evaluates
+ * @internal
+ */
+export interface LiveQuerySource<T> {
+  collection: string
+  where: WhereClause
+  orderBy: OrderByClause
+  limit: number | undefined
+  offset: number | undefined
+  select: string[] | undefined
+  fetch: () => Promise<T[]>
+}
+
+/**
+ * Live query listener entry
+ */
+interface LiveQueryListener<T> {
+  callback: LiveQueryCallback<T>
+  onError?: ((error: Error) => void) | undefined
+}
+
+/**
+ * Get the ID of a document
+ */
+function idOf(document: unknown): string {
+  return String((document as { id?: unknown }).id)
+}
+
+/**
+ * Compute added/changed/removed IDs between two result sets
+ */
+function diffResults<T>(previous: T[], next: T[]): LiveQueryDiff {
+  const before = new Map(previous.map((item) => [idOf(item), item]))
+  const after = new Set<string>()
+  const diff: LiveQueryDiff = { added: [], changed: [], removed: [] }
+
+  for (const item of next) {
+    const id = idOf(item)
+    after.add(id)
+
+    if (!before.has(id)) {
+      diff.added.push(id)
+    } else if (!isEqual(before.get(id), item)) {
+      diff.changed.push(id)
+    }
+  }
+
+  for (const id of before.keys()) {
+    if (!after.has(id)) diff.removed.push(id)
+  }
+
+  return diff
+}
+
+/**
+ * Result set that stays in sync with the server through realtime events
+ *
+ * @remarks
+ * Events are evaluated client-side against the builder's where clause and
+ * order. The query is re-fetched when an event cannot be applied locally:
+ * when an offset is set, when a full `limit` window loses a document or its
+ * last position changes, or when an event carries no document.
+ *
+ * @example
+ * ```typescript
+ * const live = sb.collection('orders')
+ *   .where({ status: 'open' })
+ *   .orderBy('createdAt', 'desc')
+ *   .limit(20)
+ *   .live()
+ *
+ * const unsubscribe = live.subscribe(({ data, diff }) => {
+ *   render(data)
+ *   console.log('added', diff.added, 'removed', diff.removed)
+ * })
+ * ```
+ */
+export class LiveQuery<T = Document> {
+  private source: LiveQuerySource<T>
+  private realtime: RealtimeManager
+  private items: T[] = []
+  private loaded: boolean = false
+  private fetching: boolean = false
+  private fetchVersion: number = 0
+  private pendingEvents: RealtimeEvent<T>[] = []
+  private listeners: Set<LiveQueryListener<T>> = new Set()
+  private unsubscribeRealtime: Unsubscribe | null = null
+  private readonly compare: ((a: T, b: T) => number) | null
+
+  constructor(source: LiveQuerySource<T>, realtime: RealtimeManager) {
+    this.source = source
+    this.realtime = realtime
+    this.compare = Object.keys(source.orderBy).length > 0
+      ? createComparator<T>(source.orderBy)
+      : null
+  }
+
+  /**
+   * Listen to result set updates. The first listener starts the query,
+   * the last one to unsubscribe stops it.
+   */
+  subscribe(callback: LiveQueryCallback<T>, onError?: (error: Error) => void): Unsubscribe {
+    const listener: LiveQueryListener<T> = { callback, onError }
+    this.listeners.add(listener)
+
+    if (!this.unsubscribeRealtime) {
+      this.start()
+    } else if (this.loaded) {
+      // Late subscribers get the current result set right away
+      callback({
+        data: [...this.items],
+        diff: { added: this.items.map(idOf), changed: [], removed: [] },
+      })
+    }
+
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) {
+        this.stop()
+      }
+    }
+  }
+
+  /**
+   * Get the current result set
+   */
+  getData(): T[] {
+    return [...this.items]
+  }
+
+  /**
+   * Re-run the query against the server
+   */
+  async refetch(): Promise<T[]> {
+    const version = ++this.fetchVersion
+    this.fetching = true
+
+    try {
+      const data = await this.source.fetch()
+      if (version !== this.fetchVersion) return this.getData()
+
+      this.fetching = false
+      this.update(data, !this.loaded)
+      this.loaded = true
+
+      // Replay events received during the fetch (upserts and deletes are idempotent)
+      const pending = this.pendingEvents
+      this.pendingEvents = []
+      for (const event of pending) {
+        this.handleEvent(event)
+      }
+    } catch (error) {
+      if (version === this.fetchVersion) {
+        this.fetching = false
+        this.emitError(error as Error)
+      }
+    }
+
+    return this.getData()
+  }
+
+  /**
+   * Stop listening to realtime events and remove all listeners
+   */
+  stop(): void {
+    if (this.unsubscribeRealtime) {
+      this.unsubscribeRealtime()
+      this.unsubscribeRealtime = null
+    }
+    this.listeners.clear()
+    this.pendingEvents = []
+    this.fetchVersion++
+    this.fetching = false
+    this.loaded = false
+    this.items = []
+  }
+
+  /**
+   * Subscribe to the collection, then load the initial result set
+   */
+  private start(): void {
+    this.unsubscribeRealtime = this.realtime.subscribe<T>(
+      this.source.collection,
+      (event) => this.handleEvent(event)
+    )
+    void this.refetch()
+  }
+
+  /**
+   * Apply a realtime event to the result set
+   */
+  private handleEvent(event: RealtimeEvent<T>): void {
+    if (this.fetching) {
+      this.pendingEvents.push(event)
+      return
+    }
+
+    const next = this.applyEvent(event)
+    if (next === null) {
+      void this.refetch()
+    } else if (next !== this.items) {
+      this.update(next, false)
+    }
+  }
+
+  /**
+   * Compute the result set after an event.
+   * Returns the current array when nothing changed, or null when a re-fetch is needed.
+   */
+  private applyEvent(event: RealtimeEvent<T>): T[] | null {
+    const { where, limit, offset } = this.source
+    const index = this.items.findIndex((item) => idOf(item) === event.documentId)
+    const inWindow = index !== -1
+
+    if (event.type !== 'delete' && event.document === undefined) {
+      return null
+    }
+
+    const matchesNow = event.type !== 'delete' && matches(event.document, where)
+    if (!inWindow && !matchesNow) {
+      return offset ? null : this.items
+    }
+
+    // Documents before the window can't be tracked locally
+    if (offset) return null
+
+    const next = [...this.items]
+    if (inWindow) next.splice(index, 1)
+
+    let position = -1
+    if (matchesNow) {
+      const document = this.project(event.document as T, event.documentId)
+      position = this.insertionIndex(next, document, inWindow ? index : next.length)
+      next.splice(position, 0, document)
+    }
+
+    if (limit !== undefined) {
+      const wasFull = this.items.length >= limit
+      const lastPosition = limit - 1
+
+      // A full window that lost a document (or whose tail changed) may need backfilling
+      if (wasFull && inWindow && (!matchesNow || position >= lastPosition)) {
+        return null
+      }
+
+      if (next.length > limit) next.length = limit
+    }
+
+    return next
+  }
+
+  /**
+   * Find where a document belongs in the ordered result set
+   */
+  private insertionIndex(items: T[], document: T, fallback: number): number {
+    if (!this.compare) return Math.min(fallback, items.length)
+
+    const compare = this.compare
+    const index = items.findIndex((item) => compare(document, item) < 0)
+    return index === -1 ? items.length : index
+  }
+
+  /**
+   * Apply the builder's select fields to an event document
+   */
+  private project(document: T, documentId: string): T {
+    const withId = { ...document, id: (document as { id?: unknown }).id ?? documentId }
+    const { select } = this.source
+    if (!select) return withId as T
+
+    const projected: Record<string, unknown> = { id: withId.id }
+    for (const field of select) {
+      const value = getFieldValue(withId, field)
+      if (value !== undefined) projected[field] = value
+    }
+    return projected as T
+  }
+
+  /**
+   * Replace the result set and notify listeners of the changes
+   */
+  private update(next: T[], initial: boolean): void {
+    const diff = diffResults(this.items, next)
+    this.items = next
+
+    if (!initial && diff.added.length === 0 && diff.changed.length === 0 && diff.removed.length === 0) {
+      return
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener.callback({ data: [...next], diff })
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+
+  /**
+   * Notify listeners of a fetch error
+   */
+  private emitError(error: Error): void {
+    for (const listener of this.listeners) {
+      try {
+        listener.onError?.(error)
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+}
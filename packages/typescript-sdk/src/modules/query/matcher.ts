@@ -0,0 +1,222 @@
+import type {
+  ComparisonOperators,
+  OrderByClause,
+  WhereClause,
+} from '../../types/query.js'
+
+/**
+ * Check if a value is a plain object (not an array, null or class instance)
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false
+  }
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Read a field from a document, following dotted paths (`address.city`, `items.0.sku`)
+ */
+export function getFieldValue(document: unknown, path: string): unknown {
+  let current: unknown = document
+
+  for (const segment of path.split('.')) {
+    // Only own properties, so paths never reach the prototype chain
+    if (current === null || typeof current !== 'object' || !Object.hasOwn(current, segment)) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+
+  return current
+}
+
+/**
+ * Structural equality for JSON values
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]))
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a)
+    const keysB = Object.keys(b)
+    return keysA.length === keysB.length &&
+      keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) && isEqual(a[key], b[key]))
+  }
+
+  return false
+}
+
+/**
+ * Compare two values of the same primitive type.
+ * Returns null when the values are not comparable (missing, or different types).
+ */
+export function compareValues(a: unknown, b: unknown): number | null {
+  const left = a instanceof Date ? a.getTime() : a
+  const right = b instanceof Date ? b.getTime() : b
+
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return null
+  }
+
+  if (typeof left !== typeof right) return null
+  if (typeof left !== 'number' && typeof left !== 'string' && typeof left !== 'boolean') {
+    return null
+  }
+
+  if (left < (right as typeof left)) return -1
+  if (left > (right as typeof left)) return 1
+  return 0
+}
+
+/**
+ * Evaluate a single operator against a field value
+ */
+function matchesOperator(value: unknown, operator: string, operand: unknown): boolean {
+  switch (operator) {
+    case '$eq':
+      return isEqual(value, operand)
+
+    // Missing fields never satisfy a comparison (mirrors SQL NULL semantics on the server)
+    case '$ne':
+      return value !== undefined && value !== null && !isEqual(value, operand)
+
+    case '$gt': {
+      const result = compareValues(value, operand)
+      return result !== null && result > 0
+    }
+
+    case '$gte': {
+      const result = compareValues(value, operand)
+      return result !== null && result >= 0
+    }
+
+    case '$lt': {
+      const result = compareValues(value, operand)
+      return result !== null && result < 0
+    }
+
+    case '$lte': {
+      const result = compareValues(value, operand)
+      return result !== null && result <= 0
+    }
+
+    case '$in':
+      return Array.isArray(operand) && operand.some((candidate) => isEqual(value, candidate))
+
+    case '$nin':
+      return Array.isArray(operand) &&
+        value !== undefined && value !== null &&
+        !operand.some((candidate) => isEqual(value, candidate))
+
+    case '$exists':
+      return (value !== undefined && value !== null) === Boolean(operand)
+
+    case '$regex': {
+      if (typeof value !== 'string' || typeof operand !== 'string') return false
+      try {
+        // Case-insensitive, as the server matches the pattern with SQL LIKE
+        return new RegExp(operand, 'i').test(value)
+      } catch {
+        return false
+      }
+    }
+
+    default:
+      return false
+  }
+}
+
+/**
+ * Evaluate a field condition: either an operator object or a literal to compare against
+ */
+export function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (isPlainObject(condition)) {
+    const operators = Object.entries(condition as ComparisonOperators)
+    return operators.every(([operator, operand]) => matchesOperator(value, operator, operand))
+  }
+
+  return isEqual(value, condition)
+}
+
+/**
+ * Test a document against a where clause, evaluated client-side like the
+ * server's Query DSL (see the remarks for where `$regex` differs)
+ *
+ * @remarks
+ * - Field names may be dotted paths into nested objects and arrays (`address.city`, `items.0.sku`)
+ * - An object value is treated as a set of operators; any other value is compared by deep equality
+ * - Missing or null fields never satisfy `$ne`, `$nin` or range operators, as in SQL
+ * - `$regex` is case-insensitive like on the server, which converts the pattern to SQL `LIKE`:
+ *   anchors (`^`, `$`), `.` and `.*` match the same way, other JavaScript regular expression
+ *   syntax (classes, alternation, quantifiers) is only supported client-side
+ *
+ * @example
+ * ```typescript
+ * import { matches } from '@swiftbase/sdk'
+ *
+ * matches({ price: 75, address: { city: 'Oslo' } }, {
+ *   price: { $gte: 50 },
+ *   'address.city': { $in: ['Oslo', 'Bergen'] }
+ * }) // true
+ * ```
+ */
+export function matches(document: unknown, where: WhereClause): boolean {
+  for (const [key, condition] of Object.entries(where)) {
+    if (condition === undefined) continue
+
+    switch (key) {
+      case '$and':
+        if (!(condition as WhereClause[]).every((clause) => matches(document, clause))) return false
+        break
+
+      case '$or':
+        if (!(condition as WhereClause[]).some((clause) => matches(document, clause))) return false
+        break
+
+      case '$not':
+        if (matches(document, condition as WhereClause)) return false
+        break
+
+      default:
+        if (!matchesCondition(getFieldValue(document, key), condition)) return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Create a comparator for an order by clause.
+ * Missing values sort first in ascending order, matching the server.
+ */
+export function createComparator<T>(orderBy: OrderByClause): (a: T, b: T) => number {
+  const fields = Object.entries(orderBy)
+
+  return (a, b) => {
+    for (const [field, direction] of fields) {
+      const left = getFieldValue(a, field)
+      const right = getFieldValue(b, field)
+      const leftMissing = left === undefined || left === null
+      const rightMissing = right === undefined || right === null
+
+      let result: number
+      if (leftMissing || rightMissing) {
+        result = leftMissing === rightMissing ? 0 : leftMissing ? -1 : 1
+      } else {
+        result = compareValues(left, right) ?? String(left).localeCompare(String(right))
+      }
+
+      if (result !== 0) {
+        return direction === 'desc' ? -result : result
+      }
+    }
+    return 0
+  }
+}
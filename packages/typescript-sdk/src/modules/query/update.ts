@@ -0,0 +1,175 @@
+import { QueryError } from '../../core/errors.js'
+import type { UpdateOperators } from '../../types/query.js'
+import { getFieldValue, isEqual, isPlainObject, matchesCondition } from './matcher.js'
+
+/**
+ * Update operator names
+ */
+const UPDATE_OPERATORS = ['$set', '$unset', '$inc', '$push', '$pull', '$addToSet'] as const
+
+/**
+ * Path segments that would reach the prototype chain
+ */
+const UNSAFE_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype'])
+
+/**
+ * Split a dotted path, rejecting segments that could pollute prototypes
+ */
+function splitPath(path: string): string[] {
+  const segments = path.split('.')
+  if (segments.some((segment) => UNSAFE_SEGMENTS.has(segment))) {
+    throw new QueryError(`Invalid field path '${path}'`, 'INVALID_QUERY')
+  }
+  return segments
+}
+
+/**
+ * Deep clone a JSON value
+ */
+function clone<V>(value: V): V {
+  if (Array.isArray(value)) {
+    return value.map((item) => clone(item)) as V
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      if (key === '__proto__') continue
+      copy[key] = clone(item)
+    }
+    return copy as V
+  }
+  return value
+}
+
+/**
+ * Set a value at a dotted path, creating intermediate objects
+ */
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = splitPath(path)
+  const last = segments.pop()!
+  let current: Record<string, unknown> = target
+
+  for (const segment of segments) {
+    const next = Object.hasOwn(current, segment) ? current[segment] : undefined
+    if (next === null || typeof next !== 'object') {
+      current[segment] = {}
+    }
+    current = current[segment] as Record<string, unknown>
+  }
+
+  current[last] = value
+}
+
+/**
+ * Remove the value at a dotted path
+ */
+function unsetPath(target: Record<string, unknown>, path: string): void {
+  const segments = splitPath(path)
+  const last = segments.pop()!
+  const parent = segments.length > 0 ? getFieldValue(target, segments.join('.')) : target
+
+  if (parent !== null && typeof parent === 'object') {
+    if (Array.isArray(parent)) {
+      const index = Number(last)
+      if (Number.isInteger(index) && index < parent.length) parent.splice(index, 1)
+    } else if (Object.hasOwn(parent, last)) {
+      delete (parent as Record<string, unknown>)[last]
+    }
+  }
+}
+
+/**
+ * Read an array field for an array operator, treating a missing field as empty
+ */
+function getArray(document: Record<string, unknown>, field: string, operator: string): unknown[] {
+  const current = getFieldValue(document, field)
+  if (current === undefined || current === null) return []
+  if (!Array.isArray(current)) {
+    throw new QueryError(`${operator} expects an array at '${field}'`, 'INVALID_QUERY')
+  }
+  return current
+}
+
+/**
+ * Apply update operators to a document client-side and return the updated copy.
+ * The input document is not modified.
+ *
+ * @remarks
+ * - Field names may be dotted paths; `$set` creates missing intermediate objects
+ * - Paths through `__proto__`, `constructor` or `prototype` are rejected
+ * - An update without operators is treated as `$set`, as on the server
+ * - `$inc` treats a missing field as 0
+ * - `$push` / `$addToSet` create the array if it is missing
+ * - `$pull` removes every element equal to the value, or matching it when the value is an operator object
+ *
+ * @throws {QueryError} If a path is unsafe, `$inc` targets a non-number or an array operator targets a non-array
+ *
+ * @example
+ * ```typescript
+ * import { applyUpdate } from '@swiftbase/sdk'
+ *
+ * const next = applyUpdate(product, {
+ *   $set: { 'stock.warehouse': 12 },
+ *   $inc: { views: 1 },
+ *   $addToSet: { tags: 'sale' }
+ * })
+ * ```
+ */
+export function applyUpdate<T extends object>(
+  document: T,
+  update: UpdateOperators | Record<string, unknown>
+): T {
+  const result = clone(document) as Record<string, unknown>
+  const hasOperators = Object.keys(update).some((key) => key.startsWith('$'))
+  const operators: UpdateOperators = hasOperators
+    ? update as UpdateOperators
+    : { $set: update as Record<string, unknown> }
+
+  for (const operator of UPDATE_OPERATORS) {
+    const fields = operators[operator]
+    if (!fields) continue
+
+    for (const [field, value] of Object.entries(fields)) {
+      switch (operator) {
+        case '$set':
+          setPath(result, field, clone(value))
+          break
+
+        case '$unset':
+          unsetPath(result, field)
+          break
+
+        case '$inc': {
+          const current = getFieldValue(result, field) ?? 0
+          if (typeof current !== 'number' || typeof value !== 'number') {
+            throw new QueryError(`$inc expects a number at '${field}'`, 'INVALID_QUERY')
+          }
+          setPath(result, field, current + value)
+          break
+        }
+
+        case '$push':
+          setPath(result, field, [...getArray(result, field, operator), clone(value)])
+          break
+
+        case '$pull':
+          setPath(
+            result,
+            field,
+            getArray(result, field, operator).filter((item) => !matchesCondition(item, value))
+          )
+          break
+
+        case '$addToSet': {
+          const current = getArray(result, field, operator)
+          if (!current.some((item) => isEqual(item, value))) {
+            setPath(result, field, [...current, clone(value)])
+          }
+          break
+        }
+      }
+    }
+  }
+
+  return result as T
+}
@@ -0,0 +1 @@
+export { Relations, type RelatedFetcher, type ResolvedRelation } from './relations.js'
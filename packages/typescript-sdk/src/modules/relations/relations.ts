@@ -0,0 +1,139 @@
+import type { Document, WhereClause } from '../../types/query.js'
+import type { CollectionRelations, RelationDefinition, RelationsConfig } from '../../types/relations.js'
+
+/**
+ * Fetches the documents of a collection matching a where clause
+ * @internal
+ */
+export type RelatedFetcher = (collection: string, where: WhereClause) => Promise<Document[]>
+
+/**
+ * Relation definition with defaults applied
+ * @internal
+ */
+export interface ResolvedRelation {
+  collection: string
+  localField: string
+  foreignField: string
+  many: boolean
+}
+
+/**
+ * Values of a reference field as a list
+ */
+function referenceValues(value: unknown): unknown[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Relations between collections, used by `QueryBuilder.include()`
+ *
+ * @remarks
+ * Each included relation costs one extra request per query, however many
+ * documents are returned: referenced ids are collected from the results and
+ * fetched together with `$in`.
+ *
+ * @example
+ * ```typescript
+ * sb.relations.define('posts', {
+ *   author: 'users',
+ *   comments: { collection: 'comments', foreignField: 'postId' }
+ * })
+ *
+ * const posts = await sb.collection('posts')
+ *   .include<{ author: User; comments: Comment[] }>('author', 'comments')
+ *   .find()
+ * ```
+ */
+export class Relations {
+  private readonly relations = new Map<string, Map<string, ResolvedRelation>>()
+
+  constructor(config: RelationsConfig = {}) {
+    for (const [collection, relations] of Object.entries(config)) {
+      this.define(collection, relations)
+    }
+  }
+
+  /**
+   * Declare relations of a collection, replacing existing ones with the same name
+   */
+  define(collection: string, relations: CollectionRelations): void {
+    const existing = this.relations.get(collection) ?? new Map<string, ResolvedRelation>()
+
+    for (const [name, definition] of Object.entries(relations)) {
+      const { collection: target, localField, foreignField, many }: RelationDefinition =
+        typeof definition === 'string' ? { collection: definition } : definition
+
+      existing.set(name, {
+        collection: target,
+        localField: localField ?? (foreignField === undefined ? name : 'id'),
+        foreignField: foreignField ?? 'id',
+        many: many ?? foreignField !== undefined,
+      })
+    }
+
+    this.relations.set(collection, existing)
+  }
+
+  /**
+   * Get a relation of a collection
+   * @internal
+   */
+  get(collection: string, name: string): ResolvedRelation | undefined {
+    return this.relations.get(collection)?.get(name)
+  }
+
+  /**
+   * Attach related documents to query results, with one request per relation
+   * @internal
+   */
+  async populate<D>(
+    collection: string,
+    documents: D[],
+    names: string[],
+    fetch: RelatedFetcher
+  ): Promise<D[]> {
+    const resolved = await Promise.all(names.map(async (name) => {
+      const relation = this.get(collection, name)
+      if (!relation) {
+        throw new Error(`Unknown relation "${name}" on collection "${collection}"`)
+      }
+
+      const values = new Set(documents.flatMap((document) =>
+        referenceValues((document as Record<string, unknown>)[relation.localField])
+      ))
+
+      const related = values.size > 0
+        ? await fetch(relation.collection, { [relation.foreignField]: { $in: [...values] } })
+        : []
+
+      const byValue = new Map<unknown, Document[]>()
+      for (const document of related) {
+        const key = (document as Record<string, unknown>)[relation.foreignField]
+        byValue.set(key, [...(byValue.get(key) ?? []), document])
+      }
+
+      return { name, relation, byValue }
+    }))
+
+    return documents.map((document) => {
+      const result = { ...document } as Record<string, unknown>
+
+      for (const { name, relation, byValue } of resolved) {
+        const value = (document as Record<string, unknown>)[relation.localField]
+        const matches = referenceValues(value).map((key) => byValue.get(key) ?? [])
+
+        if (relation.many) {
+          result[name] = matches.flat()
+        } else if (Array.isArray(value)) {
+          result[name] = matches.flatMap((found) => found.slice(0, 1))
+        } else {
+          result[name] = matches[0]?.[0] ?? null
+        }
+      }
+
+      return result as D
+    })
+  }
+}
@@ -0,0 +1 @@
+export { Transaction, runTransaction } from './transaction.js'
@@ -0,0 +1,102 @@
+import { SwiftBaseError } from '../../core/errors.js'
+import type { HttpClient } from '../../core/http.js'
+import { withRetry } from '../../core/retry.js'
+import type { CollectionName, DatabaseSchema } from '../../types/collections.js'
+import type { Document, QueryRequest, QueryResponse } from '../../types/query.js'
+import type { TransactionBeginResponse, TransactionOptions } from '../../types/transaction.js'
+import { API_ENDPOINTS } from '../../utils/constants.js'
+import { QueryService, type QueryBuilder, type QueryBuilderOptions } from '../query/index.js'
+
+/**
+ * Check if an error is a serialization conflict. Other 409 errors, such as
+ * duplicate keys, would fail again on every retry.
+ */
+function isConflict(error: unknown): boolean {
+  return error instanceof SwiftBaseError && error.code === 'TRANSACTION_CONFLICT'
+}
+
+/**
+ * Handle for queries inside `sb.transaction()`.
+ * Reads see the transaction's own writes; writes become visible to others
+ * only when the transaction commits.
+ */
+export class Transaction<DB extends DatabaseSchema = Record<string, Document>> {
+  /** Server-assigned transaction ID */
+  readonly id: string
+  private readonly queryService: QueryService
+
+  constructor(http: HttpClient, id: string, options: QueryBuilderOptions = {}) {
+    this.id = id
+    this.queryService = new QueryService(http, {
+      validation: options.validation,
+      relations: options.relations,
+      transactionId: id,
+    })
+  }
+
+  /**
+   * Create a query builder for a collection within the transaction
+   */
+  collection<K extends CollectionName<DB>>(name: K): QueryBuilder<DB[K]>
+  collection<T = Document>(name: string): QueryBuilder<T>
+  collection(name: string): QueryBuilder<unknown> {
+    return this.queryService.collection(name)
+  }
+
+  /**
+   * Execute a raw query request within the transaction
+   */
+  async query<T = unknown>(request: QueryRequest): Promise<QueryResponse<T>> {
+    return this.queryService.query<T>(request)
+  }
+}
+
+/**
+ * Run a callback in a transaction: begin, run, then commit, or roll back if
+ * the callback throws. The whole callback is re-run on serialization
+ * conflicts, so it should not have side effects outside the transaction.
+ * @internal
+ */
+export async function runTransaction<R, DB extends DatabaseSchema>(
+  http: HttpClient,
+  callback: (tx: Transaction<DB>) => Promise<R>,
+  builderOptions: QueryBuilderOptions = {},
+  options: TransactionOptions = {}
+): Promise<R> {
+  return withRetry(
+    async () => {
+      const { transactionId } = await http.post<TransactionBeginResponse>(
+        API_ENDPOINTS.TRANSACTIONS,
+        {},
+        { skipRetry: true }
+      )
+      const tx = new Transaction<DB>(http, transactionId, builderOptions)
+      const base = `${API_ENDPOINTS.TRANSACTIONS}/${encodeURIComponent(transactionId)}`
+
+      let result: R
+      try {
+        result = await callback(tx)
+      } catch (error) {
+        try {
+          await http.post(`${base}/rollback`, undefined, { skipRetry: true })
+        } catch {
+          // The server expires abandoned transactions
+        }
+        throw error
+      }
+
+      await http.post(`${base}/commit`, undefined, { skipRetry: true })
+      if (builderOptions.dedupe) {
+        http.invalidate()
+      }
+      await builderOptions.cache?.invalidate()
+      return result
+    },
+    {
+      attempts: options.maxRetries ?? 3,
+      backoff: 'exponential',
+      baseDelay: options.retryDelay ?? 100,
+    },
+    isConflict
+  )
+}
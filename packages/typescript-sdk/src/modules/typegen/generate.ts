@@ -0,0 +1,183 @@
+import type { Collection, CollectionSchema } from '../../types/collections.js'
+
+type FieldDefinition = CollectionSchema[string]
+
+/**
+ * TypeScript type for each schema field type
+ */
+const FIELD_TYPES: Record<FieldDefinition['type'], string> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  object: 'Record<string, unknown>',
+  array: 'unknown[]',
+}
+
+/**
+ * Fields the server adds to every document
+ */
+const SYSTEM_FIELDS = ['id', 'createdAt', 'updatedAt']
+
+/**
+ * Check if a key can be emitted without quotes
+ */
+function isIdentifier(key: string): boolean {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)
+}
+
+/**
+ * Emit a property key, quoting it when needed
+ */
+function propertyKey(key: string): string {
+  return isIdentifier(key) ? key : JSON.stringify(key)
+}
+
+/**
+ * Singular PascalCase type name for a collection (`order_items` -> `OrderItem`)
+ */
+export function typeName(collection: string): string {
+  const words = collection.split(/[^A-Za-z0-9]+/).filter(Boolean)
+  const last = words.pop() ?? 'Document'
+
+  let singular = last
+  if (/ies$/i.test(last)) {
+    singular = last.slice(0, -3) + 'y'
+  } else if (/(ss|x|z|ch|sh)es$/i.test(last)) {
+    singular = last.slice(0, -2)
+  } else if (/[^siu]s$/i.test(last)) {
+    singular = last.slice(0, -1)
+  }
+
+  const name = [...words, singular]
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+
+  return /^[0-9]/.test(name) ? `_${name}` : name
+}
+
+/**
+ * Fields covered by a single-field unique index
+ */
+function uniqueFields(collection: Collection): Set<string> {
+  const fields = new Set<string>()
+  for (const index of Object.values(collection.indexes ?? {})) {
+    if (index.unique && index.fields.length === 1) {
+      fields.add(index.fields[0]!)
+    }
+  }
+  return fields
+}
+
+/**
+ * Emit the interface for one collection
+ */
+function generateInterface(collection: Collection, name: string): string {
+  const lines: string[] = []
+  const indexes = Object.entries(collection.indexes ?? {})
+  const unique = uniqueFields(collection)
+
+  lines.push('/**')
+  lines.push(` * Document in the \`${collection.name}\` collection`)
+  if (indexes.length > 0) {
+    lines.push(' *')
+    lines.push(' * Indexes:')
+    for (const [indexName, index] of indexes) {
+      const kind = index.type === 'text' ? ' (text)' : index.unique ? ' (unique)' : ''
+      lines.push(` * - ${indexName}: ${index.fields.join(', ')}${kind}`)
+    }
+  }
+  lines.push(' */')
+  lines.push(`export interface ${name} {`)
+  lines.push('  id: string')
+  lines.push('  createdAt: string')
+  lines.push('  updatedAt: string')
+
+  for (const [field, definition] of Object.entries(collection.schema ?? {})) {
+    if (SYSTEM_FIELDS.includes(field)) continue
+
+    const notes: string[] = []
+    if (unique.has(field)) notes.push('Unique')
+    if (definition.default !== undefined) notes.push(`Default: \`${JSON.stringify(definition.default)}\``)
+    if (notes.length > 0) {
+      lines.push(`  /** ${notes.join('. ')} */`)
+    }
+
+    // Fields with a default are always present once the document is created
+    const optional = definition.required || definition.default !== undefined ? '' : '?'
+    lines.push(`  ${propertyKey(field)}${optional}: ${FIELD_TYPES[definition.type] ?? 'unknown'}`)
+  }
+
+  lines.push('}')
+  return lines.join('\n')
+}
+
+/**
+ * Generate TypeScript declarations for collections: one interface per
+ * collection plus a `Database` map from collection name to document type.
+ *
+ * @param collections - Collections as returned by `sb.collections.list()`
+ * @returns TypeScript source
+ *
+ * @example
+ * ```typescript
+ * import { writeFile } from 'node:fs/promises'
+ * import { generateTypes } from '@swiftbase/sdk'
+ *
+ * const collections = await sb.collections.list()
+ * await writeFile('src/database.types.ts', generateTypes(collections))
+ *
+ * // Later
+ * import type { Database } from './database.types'
+ * const sb = createClient<Database>({ url })
+ * const products = await sb.collection('products').find() // Product[]
+ * ```
+ */
+export function generateTypes(collections: Collection[]): string {
+  const sorted = [...collections].sort((a, b) => a.name.localeCompare(b.name))
+  const names = new Map<string, string>()
+  // An interface named Database would merge with the map below
+  const used = new Set<string>(['Database'])
+
+  for (const collection of sorted) {
+    const base = typeName(collection.name)
+    let name = base
+    for (let i = 2; used.has(name); i++) {
+      name = `${base}${i}`
+    }
+    used.add(name)
+    names.set(collection.name, name)
+  }
+
+  const sections = [
+    '// Generated by swiftbase-typegen. Do not edit.',
+    ...sorted.map((collection) => generateInterface(collection, names.get(collection.name)!)),
+  ]
+
+  const database = ['/**', ' * Document type for each collection', ' */', 'export interface Database {']
+  for (const collection of sorted) {
+    database.push(`  ${propertyKey(collection.name)}: ${names.get(collection.name)}`)
+  }
+  database.push('}')
+  sections.push(database.join('\n'))
+
+  return sections.join('\n\n') + '\n'
+}
+
+/**
+ * Read collections from a saved JSON dump: either the array returned by
+ * `sb.collections.list()` or the raw `{ collections: [...] }` API response
+ *
+ * @throws {Error} If the JSON does not contain a collection list
+ */
+export function parseCollections(json: string): Collection[] {
+  const value = JSON.parse(json) as unknown
+  const list = Array.isArray(value)
+    ? value
+    : (value as { collections?: unknown } | null)?.collections
+
+  if (!Array.isArray(list) || !list.every((item) => typeof item?.name === 'string')) {
+    throw new Error('Expected an array of collections or { collections: [...] }')
+  }
+
+  return list as Collection[]
+}
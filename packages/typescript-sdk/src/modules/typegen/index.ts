@@ -0,0 +1 @@
+export { generateTypes, parseCollections } from './generate.js'
@@ -0,0 +1 @@
+export { Validation } from './validation.js'
@@ -0,0 +1,163 @@
+import type { ValidationFieldError } from '../../core/errors.js'
+import type { CollectionSchema } from '../../types/collections.js'
+import type { SchemaLike } from '../../types/validation.js'
+import { isPlainObject } from '../query/matcher.js'
+
+type FieldType = CollectionSchema[string]['type']
+
+/**
+ * Error messages, matching the server's wording
+ */
+const REQUIRED_MESSAGE = 'This field is required'
+
+const TYPE_MESSAGES: Record<FieldType, string> = {
+  string: 'Must be a string',
+  number: 'Must be a number',
+  boolean: 'Must be a boolean',
+  object: 'Must be an object',
+  array: 'Must be an array',
+}
+
+/**
+ * Field type each type-specific update operator requires
+ */
+const OPERATOR_TYPES: Array<[string, FieldType]> = [
+  ['$inc', 'number'],
+  ['$push', 'array'],
+  ['$pull', 'array'],
+  ['$addToSet', 'array'],
+]
+
+/**
+ * Check a value against a schema field type
+ */
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string'
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'object':
+      return isPlainObject(value)
+    case 'array':
+      return Array.isArray(value)
+    default:
+      return true
+  }
+}
+
+/**
+ * Validate a value for a schema field, returning an error message or null
+ */
+function checkField(schema: CollectionSchema, field: string, value: unknown): string | null {
+  const definition = schema[field]
+  if (!definition) return null
+
+  if (value === undefined || value === null) {
+    return definition.required ? REQUIRED_MESSAGE : null
+  }
+
+  return hasType(value, definition.type) ? null : TYPE_MESSAGES[definition.type]
+}
+
+/**
+ * Validate a new document against a collection schema and fill in defaults.
+ * Fields not declared in the schema are passed through.
+ * @internal
+ */
+export function validateDocument(
+  schema: CollectionSchema,
+  data: Record<string, unknown>
+): { value: Record<string, unknown>; errors: ValidationFieldError[] } {
+  const value = { ...data }
+  const errors: ValidationFieldError[] = []
+
+  for (const [field, definition] of Object.entries(schema)) {
+    if ((value[field] === undefined || value[field] === null) && definition.default !== undefined) {
+      value[field] = structuredClone(definition.default)
+    }
+
+    const message = checkField(schema, field, value[field])
+    if (message) {
+      errors.push({ field, message })
+    }
+  }
+
+  return { value, errors }
+}
+
+/**
+ * Validate an update against a collection schema.
+ * Only top-level schema fields are checked; nested paths are left to the server.
+ * @internal
+ */
+export function validateUpdate(
+  schema: CollectionSchema,
+  update: Record<string, unknown>
+): ValidationFieldError[] {
+  const errors: ValidationFieldError[] = []
+  const hasOperators = Object.keys(update).some((key) => key.startsWith('$'))
+  const operators = (hasOperators ? update : { $set: update }) as Record<string, Record<string, unknown> | undefined>
+
+  for (const [field, value] of Object.entries(operators['$set'] ?? {})) {
+    const message = checkField(schema, field, value)
+    if (message) errors.push({ field, message })
+  }
+
+  for (const field of Object.keys(operators['$unset'] ?? {})) {
+    if (schema[field]?.required) {
+      errors.push({ field, message: REQUIRED_MESSAGE })
+    }
+  }
+
+  for (const [operator, expected] of OPERATOR_TYPES) {
+    for (const field of Object.keys(operators[operator] ?? {})) {
+      const type = schema[field]?.type
+      if (type && type !== expected) {
+        errors.push({ field, message: `Cannot apply ${operator} to a field of type ${type}` })
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Join a Standard Schema / Zod issue path into a dotted field name
+ */
+function issuePath(path: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined): string {
+  return (path ?? [])
+    .map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+    .join('.')
+}
+
+/**
+ * Run a Standard Schema or Zod-style schema, returning the parsed value or field errors
+ * @internal
+ */
+export async function runSchema(
+  schema: SchemaLike,
+  value: unknown
+): Promise<{ value: unknown; errors: ValidationFieldError[] }> {
+  if ('~standard' in schema) {
+    const result = await schema['~standard'].validate(value)
+    if (result.issues) {
+      return {
+        value,
+        errors: result.issues.map((issue) => ({ field: issuePath(issue.path), message: issue.message })),
+      }
+    }
+    return { value: result.value, errors: [] }
+  }
+
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    return {
+      value,
+      errors: result.error.issues.map((issue) => ({ field: issuePath(issue.path), message: issue.message })),
+    }
+  }
+  return { value: result.data, errors: [] }
+}
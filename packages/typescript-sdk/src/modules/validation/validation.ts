@@ -0,0 +1,194 @@
+import { AuthError, NotFoundError, ValidationError, type ValidationFieldError } from '../../core/errors.js'
+import type { ValidationConfig } from '../../types/client.js'
+import type { CollectionSchema } from '../../types/collections.js'
+import type { CollectionValidator, SchemaLike } from '../../types/validation.js'
+import type { Collections } from '../collections/index.js'
+import { runSchema, validateDocument, validateUpdate } from './schema.js'
+
+/**
+ * Cached schema lookup
+ */
+interface CachedSchema {
+  /** Collection schema, or null when none is available to this client */
+  schema: CollectionSchema | null
+  expiresAt: number
+}
+
+/**
+ * Pick the schema a custom validator uses for an operation
+ */
+function validatorFor(validator: CollectionValidator, operation: 'create' | 'update'): SchemaLike | undefined {
+  if ('~standard' in validator || 'safeParse' in validator) {
+    return operation === 'create' ? validator as SchemaLike : undefined
+  }
+  return validator[operation]
+}
+
+/**
+ * Throw a ValidationError when there are field errors
+ */
+function assertValid(errors: ValidationFieldError[]): void {
+  if (errors.length > 0) {
+    throw new ValidationError('Validation failed', errors)
+  }
+}
+
+/**
+ * Client-side validation of writes before they are sent
+ *
+ * @remarks
+ * - With `validation.enabled`, payloads are checked against the collection
+ *   schema from `Collections.get`, cached for `schemaTtl` ms. Schemas the
+ *   client is not allowed to read (non-admin sessions) are skipped and left
+ *   to the server.
+ * - Custom validators (Standard Schema, e.g. Zod 3.24+, Valibot, ArkType, or
+ *   any schema with `safeParse`) replace the server schema for their
+ *   collection and always run. Their parsed output is what gets sent.
+ * - Failures throw a {@link ValidationError} with the same field errors the server returns.
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod'
+ *
+ * const Product = z.object({ name: z.string().min(1), price: z.number().positive() })
+ * sb.validation.register('products', { create: Product, update: Product.partial() })
+ *
+ * await sb.collection('products').create({ name: '', price: 5 }) // throws ValidationError
+ * ```
+ */
+export class Validation {
+  private readonly collections: Collections
+  private readonly enabled: boolean
+  private readonly schemaTtl: number
+  private readonly validators = new Map<string, CollectionValidator>()
+  private readonly schemas = new Map<string, CachedSchema>()
+  private readonly pending = new Map<string, Promise<CollectionSchema | null>>()
+
+  constructor(collections: Collections, config: ValidationConfig = {}) {
+    this.collections = collections
+    this.enabled = config.enabled ?? false
+    this.schemaTtl = config.schemaTtl ?? 300000
+
+    for (const [collection, validator] of Object.entries(config.validators ?? {})) {
+      this.validators.set(collection, validator)
+    }
+  }
+
+  /**
+   * Register a custom validator for a collection
+   */
+  register(collection: string, validator: CollectionValidator): void {
+    this.validators.set(collection, validator)
+  }
+
+  /**
+   * Remove a custom validator
+   */
+  unregister(collection: string): void {
+    this.validators.delete(collection)
+  }
+
+  /**
+   * Drop cached schemas so they are fetched again on the next write
+   * @param collection - Collection to invalidate (default: all)
+   */
+  invalidate(collection?: string): void {
+    if (collection === undefined) {
+      this.schemas.clear()
+    } else {
+      this.schemas.delete(collection)
+    }
+  }
+
+  /**
+   * Validate a new document and apply schema defaults
+   * @returns The document to send
+   * @throws {ValidationError} If the document is invalid
+   */
+  async validateCreate(collection: string, data: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const validator = this.validators.get(collection)
+    if (validator) {
+      const schema = validatorFor(validator, 'create')
+      if (!schema) return data
+
+      const result = await runSchema(schema, data)
+      assertValid(result.errors)
+      return result.value as Record<string, unknown>
+    }
+
+    const schema = await this.getSchema(collection)
+    if (!schema) return data
+
+    const result = validateDocument(schema, data)
+    assertValid(result.errors)
+    return result.value
+  }
+
+  /**
+   * Validate an update (operators or a partial document)
+   * @returns The update to send
+   * @throws {ValidationError} If the update is invalid
+   */
+  async validateUpdate(collection: string, update: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const validator = this.validators.get(collection)
+    if (validator) {
+      const schema = validatorFor(validator, 'update')
+      if (!schema) return update
+
+      const hasOperators = Object.keys(update).some((key) => key.startsWith('$'))
+      const values = hasOperators ? update['$set'] : update
+      if (values === undefined) return update
+
+      const result = await runSchema(schema, values)
+      assertValid(result.errors)
+      return hasOperators
+        ? { ...update, $set: result.value }
+        : result.value as Record<string, unknown>
+    }
+
+    const schema = await this.getSchema(collection)
+    if (!schema) return update
+
+    assertValid(validateUpdate(schema, update))
+    return update
+  }
+
+  /**
+   * Get the cached schema for a collection, fetching it when missing or expired
+   */
+  private async getSchema(collection: string): Promise<CollectionSchema | null> {
+    if (!this.enabled) return null
+
+    const cached = this.schemas.get(collection)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.schema
+    }
+
+    const pending = this.pending.get(collection)
+    if (pending) return pending
+
+    const request = this.fetchSchema(collection).finally(() => {
+      this.pending.delete(collection)
+    })
+    this.pending.set(collection, request)
+    return request
+  }
+
+  /**
+   * Fetch a schema. Collections the client cannot read are cached as having
+   * no schema; other failures are not cached and skip validation this time.
+   */
+  private async fetchSchema(collection: string): Promise<CollectionSchema | null> {
+    try {
+      const { schema } = await this.collections.get(collection)
+      const result = schema && Object.keys(schema).length > 0 ? schema : null
+      this.schemas.set(collection, { schema: result, expiresAt: Date.now() + this.schemaTtl })
+      return result
+    } catch (error) {
+      if (error instanceof AuthError || error instanceof NotFoundError) {
+        this.schemas.set(collection, { schema: null, expiresAt: Date.now() + this.schemaTtl })
+      }
+      return null
+    }
+  }
+}
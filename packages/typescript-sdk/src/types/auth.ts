@@ -7,6 +7,37 @@ export interface StorageAdapter {
   remove(key: string): void | Promise<void>
 }
 
+/**
+ * Attributes of cookies written by `CookieStorage`
+ */
+export interface CookieOptions {
+  /** Cookie path (default: '/') */
+  path?: string
+  /** Cookie domain (default: the current host) */
+  domain?: string
+  /** Lifetime in seconds (default: 400 days) */
+  maxAge?: number
+  /** Only send the cookie over HTTPS */
+  secure?: boolean
+  /** SameSite policy (default: 'lax') */
+  sameSite?: 'strict' | 'lax' | 'none'
+  /** Hide the cookie from `document.cookie` (default: false) */
+  httpOnly?: boolean
+}
+
+/**
+ * Cookie access for `CookieStorage`, usually backed by the cookies of the
+ * incoming request and the headers of the outgoing response
+ */
+export interface CookieMethods {
+  /** Read a cookie value, null or undefined when not set */
+  get(name: string): string | null | undefined | Promise<string | null | undefined>
+  /** Write a cookie; omit where responses are read-only (e.g. React Server Components) */
+  set?(name: string, value: string, options: CookieOptions): void | Promise<void>
+  /** Delete a cookie (default: `set()` with an empty value and `maxAge: 0`) */
+  remove?(name: string, options: CookieOptions): void | Promise<void>
+}
+
 /**
  * User object
  */
@@ -14,6 +45,8 @@ export interface User {
   id: string
   email: string
   emailVerified: boolean
+  /** Role tested by collection rules as `$auth.role` (default: 'user'); not stored by the SwiftBase server yet */
+  role?: string | undefined
   metadata: Record<string, unknown>
   lastLogin?: string | undefined
   createdAt: string
@@ -47,6 +80,8 @@ export interface Session {
   expiresAt: number // timestamp
   user?: User | undefined
   admin?: Admin | undefined
+  /** Admin acting as the user, set on sessions from `auth.admin.impersonate()` */
+  impersonator?: Admin | undefined
 }
 
 /**
@@ -75,6 +110,7 @@ export interface RawUser {
   id: string
   email: string
   email_verified: boolean
+  role?: string
   metadata: Record<string, unknown>
   last_login?: string
   created_at: string
@@ -97,6 +133,8 @@ export interface RawAdmin {
 export interface AuthResponse {
   user: User
   session: Session
+  /** Distinguishes a completed `login()` from an `MfaChallenge` */
+  mfaRequired?: false
 }
 
 /**
@@ -110,7 +148,15 @@ export interface AdminAuthResponse {
 /**
  * Auth event types
  */
-export type AuthEvent = 'SIGNED_IN' | 'SIGNED_OUT' | 'TOKEN_REFRESHED' | 'SESSION_EXPIRED'
+export type AuthEvent =
+  | 'SIGNED_IN'
+  | 'SIGNED_OUT'
+  | 'TOKEN_REFRESHED'
+  | 'SESSION_EXPIRED'
+  | 'USER_UPDATED'
+  | 'MFA_CHALLENGE'
+  | 'IMPERSONATION_STARTED'
+  | 'IMPERSONATION_ENDED'
 
 /**
  * Auth state change callback
@@ -141,3 +187,241 @@ export interface AdminLoginRequest {
   username: string
   password: string
 }
+
+/**
+ * Changes to the signed-in user
+ */
+export interface UpdateUserRequest {
+  /** New email address; the server may require it to be verified first */
+  email?: string
+  /** New password */
+  password?: string
+  /** Current password, required by the server to change email or password */
+  currentPassword?: string
+  /** Replaces the user's metadata */
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Options for requesting a password reset
+ */
+export interface ResetPasswordOptions {
+  /** URL the reset email links to, with a `token` query parameter (default: the server's site URL) */
+  redirectTo?: string
+}
+
+/**
+ * OAuth provider name, as configured on the server
+ */
+export type OAuthProvider =
+  | 'google'
+  | 'github'
+  | 'gitlab'
+  | 'microsoft'
+  | 'apple'
+  | 'discord'
+  | (string & {})
+
+/**
+ * Options for starting an OAuth sign-in or identity link
+ */
+export interface SignInWithOAuthOptions {
+  provider: OAuthProvider
+  /** URL the provider redirects back to with a `code` parameter (default: the current page) */
+  redirectTo?: string
+  /** Provider scopes to request in addition to the server's defaults */
+  scopes?: string[]
+  /** Extra query parameters for the provider's authorization URL */
+  queryParams?: Record<string, string>
+  /** Return the authorization URL instead of redirecting the browser (default: false) */
+  skipBrowserRedirect?: boolean
+}
+
+/**
+ * Started OAuth flow
+ */
+export interface OAuthResponse {
+  provider: OAuthProvider
+  /** Provider authorization URL */
+  url: string
+}
+
+/**
+ * Options for sending a magic link
+ */
+export interface MagicLinkOptions {
+  /** URL the link opens, with `token` and `type` query parameters (default: the server's site URL) */
+  redirectTo?: string
+  /** Create the user when no account exists for the email (default: true) */
+  createUser?: boolean
+  /** Metadata for a newly created user */
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * One-time password verification payload
+ */
+export interface VerifyOtpRequest {
+  email: string
+  /** Token from the magic link or the code from the email */
+  token: string
+  /** Whether the token came from a link or was typed in (default: 'magiclink') */
+  type?: 'magiclink' | 'email'
+}
+
+/**
+ * External identity linked to a user
+ */
+export interface Identity {
+  id: string
+  provider: OAuthProvider
+  /** User id at the provider */
+  providerUserId: string
+  email?: string | undefined
+  lastSignInAt?: string | undefined
+  createdAt: string
+}
+
+/**
+ * Raw identity from server (snake_case)
+ * @internal
+ */
+export interface RawIdentity {
+  id: string
+  provider: string
+  provider_user_id: string
+  email?: string
+  last_sign_in_at?: string
+  created_at: string
+}
+
+/**
+ * Signed-in device of a user, one per refresh token
+ */
+export interface ActiveSession {
+  id: string
+  /** Device description derived from the user agent, e.g. "Chrome on macOS" */
+  device?: string | undefined
+  ipAddress?: string | undefined
+  userAgent?: string | undefined
+  createdAt: string
+  lastUsedAt: string
+  /** Whether this is the session of the calling client */
+  current: boolean
+}
+
+/**
+ * Raw active session from server (snake_case)
+ * @internal
+ */
+export interface RawActiveSession {
+  id: string
+  device?: string
+  ip_address?: string
+  user_agent?: string
+  created_at: string
+  last_used_at: string
+  current: boolean
+}
+
+/**
+ * Multi-factor authentication factor type
+ */
+export type MfaFactorType = 'totp'
+
+/**
+ * Second factor of a user; `unverified` until the enrollment is verified
+ */
+export interface MfaFactor {
+  id: string
+  type: MfaFactorType
+  friendlyName?: string | undefined
+  status: 'verified' | 'unverified'
+  lastUsedAt?: string | undefined
+  createdAt: string
+}
+
+/**
+ * Raw MFA factor from server (snake_case)
+ * @internal
+ */
+export interface RawMfaFactor {
+  id: string
+  type: MfaFactorType
+  friendly_name?: string
+  status: 'verified' | 'unverified'
+  last_used_at?: string
+  created_at: string
+}
+
+/**
+ * Login that needs a second factor, completed with `auth.mfa.verify()`
+ */
+export interface MfaChallenge {
+  mfaRequired: true
+  challengeId: string
+  /** Verified factors the code can come from */
+  factors: MfaFactor[]
+  expiresAt: number // timestamp
+}
+
+/**
+ * Raw MFA challenge from server
+ * @internal
+ */
+export interface RawMfaChallenge {
+  mfa_required: true
+  challenge_id: string
+  factors: RawMfaFactor[]
+  expires_in: number // seconds until expiry
+}
+
+/**
+ * Result of a password login
+ */
+export type LoginResponse = AuthResponse | MfaChallenge
+
+/**
+ * Options for enrolling a TOTP factor
+ */
+export interface MfaEnrollOptions {
+  /** Name shown in factor lists, e.g. the authenticator app */
+  friendlyName?: string
+}
+
+/**
+ * Started TOTP enrollment; the factor is activated by verifying a code
+ * from the authenticator app with `auth.mfa.verify(challengeId, code)`
+ */
+export interface MfaEnrollment {
+  factor: MfaFactor
+  challengeId: string
+  /** Base32 secret for manual entry */
+  secret: string
+  /** `otpauth://` URI, usually rendered as a QR code */
+  uri: string
+}
+
+/**
+ * Raw TOTP enrollment from server
+ * @internal
+ */
+export interface RawMfaEnrollment {
+  factor: RawMfaFactor
+  challenge_id: string
+  secret: string
+  uri: string
+}
+
+/**
+ * Options for impersonating a user
+ */
+export interface ImpersonateOptions {
+  /** Reason recorded with the impersonation in the audit log */
+  reason?: string
+  /**
+   * Switch this client into the user's session. The admin session is kept
+   * and restored by `auth.admin.stopImpersonating()`.
+   */
+  switchSession?: boolean
+}
@@ -1,15 +1,27 @@
-import type { StorageAdapter } from './auth.js'
+import type { CookieMethods, CookieOptions, Session, StorageAdapter } from './auth.js'
+import type { ConflictHandler, OfflineStore } from './offline.js'
+import type { RelationsConfig } from './relations.js'
+import type { CollectionValidator } from './validation.js'
 
 /**
  * Authentication configuration
  */
 export interface AuthConfig {
-  /** Storage adapter for tokens */
-  storage?: 'localStorage' | 'sessionStorage' | 'memory' | StorageAdapter
+  /** Storage adapter for tokens ('cookie' uses `document.cookie`) */
+  storage?: 'localStorage' | 'sessionStorage' | 'cookie' | 'memory' | StorageAdapter
   /** Auto-refresh tokens before expiry (default: true) */
   autoRefresh?: boolean
   /** Persist session across page reloads (default: true) */
   persistSession?: boolean
+  /** Session to start with instead of the stored one, e.g. from server rendering */
+  initialSession?: Session | null
+  /** Refresh a restored session whose access token expired instead of discarding it (default: false) */
+  refreshExpiredSession?: boolean
+  /**
+   * Share sign-in, sign-out and token refreshes with other tabs and refresh
+   * from one tab at a time (default: true in browsers with 'localStorage' or 'cookie' storage)
+   */
+  syncTabs?: boolean
 }
 
 /**
@@ -34,6 +46,12 @@ export interface RequestConfig {
   retry?: RetryConfig | false
   /** Custom headers for all requests */
   headers?: Record<string, string>
+  /**
+   * Coalesce identical concurrent reads (GET requests and queries) into one
+   * request and reuse responses for `ttl` ms; writes through the query
+   * builder invalidate their collection (default: false)
+   */
+  dedupe?: boolean | { ttl?: number }
 }
 
 /**
@@ -50,24 +68,94 @@ export interface RealtimeConfig {
   maxReconnectDelay?: number
 }
 
+/**
+ * Offline mode configuration
+ */
+export interface OfflineConfig {
+  /** Enable the offline cache and mutation queue (default: false) */
+  enabled?: boolean
+  /** Store for cached query results and queued writes (default: 'memory') */
+  store?: 'memory' | 'indexedDB' | OfflineStore
+  /** Called when a queued write is rejected by the server on replay (default: discard) */
+  onConflict?: ConflictHandler
+  /** Most recently fetched results kept per user; older ones are removed (default: 100) */
+  maxEntries?: number
+}
+
+/**
+ * Client-side validation configuration
+ */
+export interface ValidationConfig {
+  /** Validate writes against collection schemas fetched from the server (default: false) */
+  enabled?: boolean
+  /** How long fetched schemas are cached, in ms (default: 300000) */
+  schemaTtl?: number
+  /** Custom validators by collection name, used instead of the server schema */
+  validators?: Record<string, CollectionValidator>
+}
+
+/**
+ * Query result cache configuration
+ */
+export interface CacheConfig {
+  /** Cache `find()`, `findOne()` and `count()` results (default: false) */
+  enabled?: boolean
+  /** How long results are fresh and served without a request, in ms (default: 30000) */
+  ttl?: number
+  /** How long after `ttl` stale results are still served while refetching in the background, in ms (default: 300000) */
+  staleWhileRevalidate?: number
+  /** Where results are stored (default: 'memory') */
+  store?: 'memory' | 'localStorage' | 'indexedDB' | StorageAdapter
+  /** Most results kept; the least recently used ones are removed first (default: 100) */
+  maxEntries?: number
+  /** Invalidate a collection's results on realtime events for it (default: true) */
+  realtime?: boolean
+}
+
 /**
  * Main SwiftBase client configuration
  */
 export interface SwiftBaseConfig {
   /** SwiftBase server URL */
   url: string
+  /**
+   * API key for server-to-server access. Requests and realtime connections
+   * authenticate with the key, and no session is restored or refreshed.
+   * Keep keys out of browser code.
+   */
+  apiKey?: string
   /** Authentication configuration */
   auth?: AuthConfig
   /** Request configuration */
   request?: RequestConfig
   /** Realtime configuration */
   realtime?: RealtimeConfig
+  /** Offline mode configuration */
+  offline?: OfflineConfig
+  /** Client-side validation configuration */
+  validation?: ValidationConfig
+  /** Relations between collections, resolved by `include()` */
+  relations?: RelationsConfig
+  /** Query result cache configuration */
+  cache?: CacheConfig
+}
+
+/**
+ * Configuration of a request-scoped server client
+ */
+export interface ServerClientConfig extends Omit<SwiftBaseConfig, 'auth'> {
+  /** Cookies of the current request/response, see `cookiesFromHeaders()` */
+  cookies: CookieMethods
+  /** Attributes of the session cookies */
+  cookieOptions?: CookieOptions
+  /** Authentication configuration (sessions are always stored in cookies) */
+  auth?: Omit<AuthConfig, 'storage'>
 }
 
 /**
  * Default configuration values
  */
-export const DEFAULT_CONFIG: Required<Omit<SwiftBaseConfig, 'url'>> = {
+export const DEFAULT_CONFIG: Required<Omit<SwiftBaseConfig, 'url' | 'apiKey'>> = {
   auth: {
     storage: 'memory',
     autoRefresh: true,
@@ -80,6 +168,7 @@ export const DEFAULT_CONFIG: Required<Omit<SwiftBaseConfig, 'url'>> = {
       backoff: 'exponential',
     },
     headers: {},
+    dedupe: false,
   },
   realtime: {
     autoConnect: false,
@@ -87,4 +176,22 @@ export const DEFAULT_CONFIG: Required<Omit<SwiftBaseConfig, 'url'>> = {
     reconnectDelay: 1000,
     maxReconnectDelay: 30000,
   },
+  offline: {
+    enabled: false,
+    store: 'memory',
+    maxEntries: 100,
+  },
+  validation: {
+    enabled: false,
+    schemaTtl: 300000,
+  },
+  relations: {},
+  cache: {
+    enabled: false,
+    ttl: 30000,
+    staleWhileRevalidate: 300000,
+    store: 'memory',
+    maxEntries: 100,
+    realtime: true,
+  },
 }
@@ -1,3 +1,5 @@
+import type { WhereClause } from './query.js'
+
 /**
  * Collection schema definition
  */
@@ -11,10 +13,51 @@ export interface CollectionSchema {
 
 /**
  * Collection index definition
+ * @example
+ * // Full-text index used by `QueryBuilder.search()`
+ * { fields: ['name', 'description'], type: 'text', weights: { name: 3 } }
  */
 export interface CollectionIndex {
   fields: string[]
   unique?: boolean
+  /** Index type (default: 'standard') */
+  type?: 'standard' | 'text'
+  /** Relative weight of each field in search relevance (text indexes, default: 1) */
+  weights?: Record<string, number>
+  /** Language used for stemming and stop words (text indexes, default: 'english') */
+  language?: string
+}
+
+/**
+ * Who may perform an operation on a collection's documents, as a where
+ * clause the document must match: `null` allows admins only and `{}`
+ * allows everyone.
+ *
+ * String values `'$auth.<field>'` are replaced by that field of the
+ * requesting user, and `$auth.<field>` keys test the user instead of the
+ * document. Signed-out requests have no user, so both resolve to null.
+ * @example
+ * // Owners, or any editor
+ * { $or: [{ ownerId: '$auth.id' }, { '$auth.role': 'editor' }] }
+ */
+export type CollectionRule = WhereClause | null
+
+/**
+ * Access rules of a collection, one per operation. Operations without a
+ * rule are limited to admins, who bypass all rules.
+ *
+ * @remarks
+ * The SwiftBase server does not store or enforce rules yet; they are only
+ * evaluated client-side with `evaluateRule()`.
+ */
+export interface CollectionRules {
+  /** Documents returned by queries and realtime events */
+  read?: CollectionRule
+  /** Matched against the new document */
+  create?: CollectionRule
+  /** Matched against the stored document */
+  update?: CollectionRule
+  delete?: CollectionRule
 }
 
 /**
@@ -25,6 +68,7 @@ export interface Collection {
   name: string
   schema?: CollectionSchema
   indexes?: Record<string, CollectionIndex>
+  rules?: CollectionRules
   createdAt: string
   updatedAt: string
 }
@@ -36,6 +80,7 @@ export interface CreateCollectionRequest {
   name: string
   schema?: CollectionSchema
   indexes?: Record<string, CollectionIndex>
+  rules?: CollectionRules
 }
 
 /**
@@ -44,6 +89,8 @@ export interface CreateCollectionRequest {
 export interface UpdateCollectionRequest {
   schema?: CollectionSchema
   indexes?: Record<string, CollectionIndex>
+  /** Replaces the rules of the listed operations only */
+  rules?: CollectionRules
 }
 
 /**
@@ -54,3 +101,19 @@ export interface CollectionStats {
   storageSize: number
   avgDocumentSize: number
 }
+
+/**
+ * Map from collection name to document type, such as the `Database`
+ * interface emitted by `swiftbase-typegen`
+ * @example
+ * interface Database {
+ *   products: Product
+ *   orders: Order
+ * }
+ */
+export type DatabaseSchema = object
+
+/**
+ * Collection names of a database schema
+ */
+export type CollectionName<DB extends DatabaseSchema> = Extract<keyof DB, string>
@@ -5,12 +5,18 @@ export type {
   RequestConfig,
   RetryConfig,
   RealtimeConfig,
+  OfflineConfig,
+  ValidationConfig,
+  CacheConfig,
+  ServerClientConfig,
 } from './client.js'
 export { DEFAULT_CONFIG } from './client.js'
 
 // Auth types
 export type {
   StorageAdapter,
+  CookieOptions,
+  CookieMethods,
   User,
   Admin,
   Session,
@@ -22,6 +28,22 @@ export type {
   RegisterRequest,
   LoginRequest,
   AdminLoginRequest,
+  UpdateUserRequest,
+  ResetPasswordOptions,
+  OAuthProvider,
+  SignInWithOAuthOptions,
+  OAuthResponse,
+  MagicLinkOptions,
+  VerifyOtpRequest,
+  Identity,
+  ActiveSession,
+  MfaFactorType,
+  MfaFactor,
+  MfaChallenge,
+  LoginResponse,
+  MfaEnrollOptions,
+  MfaEnrollment,
+  ImpersonateOptions,
 } from './auth.js'
 
 // Query types
@@ -29,9 +51,33 @@ export type {
   ComparisonOperators,
   LogicalOperators,
   WhereClause,
+  FieldPath,
+  PathValue,
+  FieldPathOfType,
+  FieldOperators,
+  FieldCondition,
+  Comparable,
+  Selected,
+  IsUntyped,
   OrderDirection,
   OrderByClause,
   QueryOptions,
+  CursorPage,
+  FieldReference,
+  AggregateAccumulator,
+  GroupKey,
+  MatchStage,
+  GroupStage,
+  SortStage,
+  ProjectStage,
+  LimitStage,
+  UnwindStage,
+  AggregateStage,
+  GroupResult,
+  SearchOptions,
+  HighlightOptions,
+  SearchRequest,
+  SearchHit,
   UpdateOperators,
   QueryAction,
   QueryRequest,
@@ -39,6 +85,9 @@ export type {
   BulkOperation,
   BulkResult,
   Document,
+  LiveQueryDiff,
+  LiveQueryResult,
+  LiveQueryCallback,
 } from './query.js'
 
 // Realtime types
@@ -66,8 +115,45 @@ export type {
 export type {
   CollectionSchema,
   CollectionIndex,
+  CollectionRule,
+  CollectionRules,
   Collection,
   CreateCollectionRequest,
   UpdateCollectionRequest,
   CollectionStats,
+  DatabaseSchema,
+  CollectionName,
 } from './collections.js'
+
+// Offline types
+export type {
+  OfflineStore,
+  QueuedMutation,
+  ConflictResolution,
+  ConflictHandler,
+  FlushResult,
+  QueueChangeCallback,
+} from './offline.js'
+
+// Validation types
+export type {
+  StandardSchemaV1,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+  SafeParseSchema,
+  SchemaLike,
+  CollectionValidator,
+} from './validation.js'
+
+// Relation types
+export type {
+  RelationDefinition,
+  CollectionRelations,
+  RelationsConfig,
+} from './relations.js'
+
+// Transaction types
+export type {
+  TransactionOptions,
+  TransactionBeginResponse,
+} from './transaction.js'
@@ -0,0 +1,57 @@
+import type { SwiftBaseError } from '../core/errors.js'
+import type { QueryRequest } from './query.js'
+
+/**
+ * Storage interface for the offline cache and mutation queue.
+ * Values are plain JSON-compatible objects.
+ */
+export interface OfflineStore {
+  get<T = unknown>(key: string): T | null | Promise<T | null>
+  set<T = unknown>(key: string, value: T): void | Promise<void>
+  remove(key: string): void | Promise<void>
+}
+
+/**
+ * A write that was queued while offline
+ */
+export interface QueuedMutation {
+  /** Unique mutation ID (also used as the provisional document ID for creates) */
+  id: string
+  /** The original query request */
+  request: QueryRequest
+  /** Timestamp when the mutation was queued */
+  queuedAt: number
+}
+
+/**
+ * How to resolve a queued mutation that the server rejected on replay.
+ * - `'discard'` - Drop the mutation and continue replaying
+ * - `'keep'` - Keep the mutation at the head of the queue and stop replaying
+ * - `QueryRequest` - Replace the mutation with a new request and retry it
+ */
+export type ConflictResolution = 'discard' | 'keep' | QueryRequest
+
+/**
+ * Conflict callback, invoked when a replayed mutation fails with a server error
+ */
+export type ConflictHandler = (
+  mutation: QueuedMutation,
+  error: SwiftBaseError
+) => ConflictResolution | Promise<ConflictResolution>
+
+/**
+ * Result of replaying the mutation queue
+ */
+export interface FlushResult {
+  /** Number of mutations successfully sent to the server */
+  replayed: number
+  /** Number of mutations dropped after a conflict */
+  discarded: number
+  /** Number of mutations still waiting in the queue */
+  remaining: number
+}
+
+/**
+ * Callback for offline queue changes
+ */
+export type QueueChangeCallback = (pending: QueuedMutation[]) => void
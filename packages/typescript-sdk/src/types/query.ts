@@ -1,3 +1,67 @@
+/**
+ * Depth limit for nested field paths
+ */
+type PathDepth = [never, 0, 1, 2, 3, 4]
+
+/**
+ * True for document types without declared fields (`unknown`, or an index
+ * signature such as `Document`), where field names cannot be checked
+ */
+export type IsUntyped<T> = unknown extends T ? true : string extends keyof T ? true : false
+
+/**
+ * Dotted paths to the fields of a document type, up to five levels deep
+ * (`name`, `address.city`, `items.${number}.sku`)
+ */
+export type FieldPath<T, Depth extends number = 5> = [Depth] extends [never]
+  ? never
+  : IsUntyped<T> extends true
+    ? string
+    : T extends object
+      ? {
+        [K in keyof T & string]: NonNullable<T[K]> extends infer V
+          ? V extends readonly (infer E)[]
+            ? K | `${K}.${number}` | (NonNullable<E> extends Date ? never : NonNullable<E> extends object
+              ? `${K}.${number}.${FieldPath<NonNullable<E>, PathDepth[Depth]>}`
+              : never)
+            : V extends Date
+              ? K
+              : V extends object
+                ? K | `${K}.${FieldPath<V, PathDepth[Depth]>}`
+                : K
+          : never
+      }[keyof T & string]
+      : never
+
+/**
+ * Type of the value at a dotted field path
+ */
+export type PathValue<T, P extends string> = IsUntyped<T> extends true
+  ? unknown
+  : P extends keyof T
+    ? T[P]
+    : P extends `${infer K}.${infer Rest}`
+      ? K extends keyof T
+        ? PathValue<NonNullable<T[K]>, Rest>
+        : T extends readonly (infer E)[]
+          ? K extends `${number}` ? PathValue<NonNullable<E>, Rest> : never
+          : never
+      : T extends readonly (infer E)[]
+        ? P extends `${number}` ? E : never
+        : never
+
+/**
+ * Field paths whose values are assignable to V
+ */
+export type FieldPathOfType<T, V> = IsUntyped<T> extends true
+  ? string
+  : { [P in FieldPath<T>]: NonNullable<PathValue<T, P>> extends V ? P : never }[FieldPath<T>]
+
+/**
+ * Values that support range operators
+ */
+export type Comparable = number | string | Date
+
 /**
  * MongoDB-style comparison operators
  */
@@ -14,21 +78,40 @@ export interface ComparisonOperators<T = unknown> {
   $regex?: string
 }
 
+/**
+ * Operators allowed on a field of type V: range operators only on
+ * numbers, strings and dates, `$regex` only on strings
+ */
+export type FieldOperators<V> = {
+  $eq?: V | null
+  $ne?: V | null
+  $in?: V[]
+  $nin?: V[]
+  $exists?: boolean
+} & ([V] extends [Comparable] ? { $gt?: V; $gte?: V; $lt?: V; $lte?: V } : unknown)
+  & ([V] extends [string] ? { $regex?: string } : unknown)
+
+/**
+ * Condition on a field of type V: a literal to compare against, or operators
+ */
+export type FieldCondition<V> = V | null | FieldOperators<V>
+
 /**
  * Logical operators for where clause
  */
-export interface LogicalOperators {
-  $and?: WhereClause[]
-  $or?: WhereClause[]
-  $not?: WhereClause
+export interface LogicalOperators<T = Document> {
+  $and?: WhereClause<T>[]
+  $or?: WhereClause<T>[]
+  $not?: WhereClause<T>
 }
 
 /**
- * Where clause with field conditions and operators
+ * Where clause with field conditions and operators.
+ * For typed documents, field paths and operator values are checked against T.
  */
-export type WhereClause = {
-  [field: string]: unknown | ComparisonOperators
-} & LogicalOperators
+export type WhereClause<T = Document> = IsUntyped<T> extends true
+  ? { [field: string]: unknown | ComparisonOperators } & LogicalOperators<T>
+  : { [P in FieldPath<T>]?: FieldCondition<NonNullable<PathValue<T, P>>> } & LogicalOperators<T>
 
 /**
  * Order by direction
@@ -38,7 +121,17 @@ export type OrderDirection = 'asc' | 'desc'
 /**
  * Order by clause
  */
-export type OrderByClause = Record<string, OrderDirection>
+export type OrderByClause<T = Document> = IsUntyped<T> extends true
+  ? Record<string, OrderDirection>
+  : { [P in FieldPath<T>]?: OrderDirection }
+
+/**
+ * Result type of a query that selects top-level fields K of T.
+ * The server always returns `id`.
+ */
+export type Selected<T, K extends string> = IsUntyped<T> extends true
+  ? T
+  : Pick<T, (K | 'id') & keyof T>
 
 /**
  * Query options for find operations
@@ -49,24 +142,196 @@ export interface QueryOptions {
   limit?: number
   offset?: number
   select?: string[]
+  distinct?: string
+}
+
+/**
+ * Page of results from cursor pagination
+ */
+export interface CursorPage<T = Document> {
+  /** Documents on this page */
+  items: T[]
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null
+  /** Whether more documents follow this page */
+  hasMore: boolean
+}
+
+/**
+ * Element type of an array type
+ */
+type ArrayElement<A> = A extends readonly (infer E)[] ? E : never
+
+/**
+ * Update operators for modify operations.
+ * For typed documents, `$set` values must match the field type, `$inc` only
+ * accepts number fields and `$push`/`$pull`/`$addToSet` only array fields.
+ */
+export type UpdateOperators<T = Document> = IsUntyped<T> extends true
+  ? {
+    $set?: Record<string, unknown>
+    $unset?: Record<string, true>
+    $inc?: Record<string, number>
+    $push?: Record<string, unknown>
+    $pull?: Record<string, unknown>
+    $addToSet?: Record<string, unknown>
+  }
+  : {
+    $set?: { [P in FieldPath<T>]?: PathValue<T, P> }
+    $unset?: { [P in FieldPath<T>]?: true }
+    $inc?: { [P in FieldPathOfType<T, number>]?: number }
+    $push?: { [P in FieldPathOfType<T, readonly unknown[]>]?: ArrayElement<NonNullable<PathValue<T, P>>> }
+    $pull?: {
+      [P in FieldPathOfType<T, readonly unknown[]>]?: FieldCondition<ArrayElement<NonNullable<PathValue<T, P>>>>
+    }
+    $addToSet?: { [P in FieldPathOfType<T, readonly unknown[]>]?: ArrayElement<NonNullable<PathValue<T, P>>> }
+  }
+
+/**
+ * Field reference in an aggregation expression (`'$total'`, `'$address.city'`)
+ */
+export type FieldReference = `$${string}`
+
+/**
+ * Group accumulators
+ * @example
+ * { $sum: '$total' }   // sum of a field
+ * { $sum: 1 }          // count, as a sum
+ * { $count: {} }       // count
+ */
+export type AggregateAccumulator =
+  | { $sum: FieldReference | number }
+  | { $avg: FieldReference }
+  | { $min: FieldReference }
+  | { $max: FieldReference }
+  | { $count: Record<string, never> }
+
+/**
+ * Group key: a field reference, a compound key of field references, or null for a single group
+ */
+export type GroupKey = FieldReference | Record<string, FieldReference> | null
+
+/**
+ * Filter documents with a where clause
+ */
+export interface MatchStage {
+  $match: WhereClause
+}
+
+/**
+ * Group documents by `_id`, computing accumulators for each group
+ */
+export interface GroupStage {
+  $group: { _id: GroupKey } & { [field: string]: AggregateAccumulator | GroupKey }
+}
+
+/**
+ * Sort documents
+ */
+export interface SortStage {
+  $sort: OrderByClause
+}
+
+/**
+ * Include (1/true), exclude (0/false) or rename (field reference) fields
+ */
+export interface ProjectStage {
+  $project: Record<string, 0 | 1 | boolean | FieldReference>
+}
+
+/**
+ * Keep the first n documents
+ */
+export interface LimitStage {
+  $limit: number
+}
+
+/**
+ * Output one document per element of an array field
+ */
+export interface UnwindStage {
+  $unwind: FieldReference | {
+    path: FieldReference
+    /** Keep documents whose array is missing or empty */
+    preserveNullAndEmptyArrays?: boolean
+  }
+}
+
+/**
+ * Aggregation pipeline stage
+ */
+export type AggregateStage =
+  | MatchStage
+  | GroupStage
+  | SortStage
+  | ProjectStage
+  | LimitStage
+  | UnwindStage
+
+/**
+ * Row returned by a `groupBy()` shortcut: the group key and the computed value
+ * @example
+ * // .groupBy('status').count()
+ * { _id: 'paid', count: 42 }
+ */
+export type GroupResult<K extends string> = { _id: unknown } & { [P in K]: number }
+
+/**
+ * Options for `QueryBuilder.search()`
+ */
+export interface SearchOptions<T = Document> {
+  /** Fields to search (default: the fields of the collection's text index) */
+  fields?: FieldPathOfType<T, string>[]
+  /** Match misspelled terms: true allows one edit per term, a number sets the maximum edits */
+  fuzzy?: boolean | number
+  /** Return snippets of matching fields with the matched terms wrapped in tags */
+  highlight?: boolean | HighlightOptions
 }
 
 /**
- * Update operators for modify operations
+ * Highlighting options for search snippets
  */
-export interface UpdateOperators {
-  $set?: Record<string, unknown>
-  $unset?: Record<string, true>
-  $inc?: Record<string, number>
-  $push?: Record<string, unknown>
-  $pull?: Record<string, unknown>
-  $addToSet?: Record<string, unknown>
+export interface HighlightOptions {
+  /** Tag inserted before matched terms (default: '<mark>') */
+  preTag?: string
+  /** Tag inserted after matched terms (default: '</mark>') */
+  postTag?: string
+}
+
+/**
+ * Full-text search request (matches server API)
+ */
+export interface SearchRequest {
+  text: string
+  fields?: string[] | undefined
+  fuzzy?: boolean | number | undefined
+  highlight?: boolean | HighlightOptions | undefined
+}
+
+/**
+ * Search result, ranked by relevance
+ */
+export interface SearchHit<T = Document> {
+  document: T
+  /** Relevance score; higher is more relevant */
+  score: number
+  /** Snippets by field, present when `highlight` is set */
+  highlights?: Record<string, string[]>
 }
 
 /**
  * Query action types
  */
-export type QueryAction = 'find' | 'findOne' | 'create' | 'update' | 'delete' | 'count' | 'custom'
+export type QueryAction =
+  | 'find'
+  | 'findOne'
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'count'
+  | 'aggregate'
+  | 'search'
+  | 'custom'
 
 /**
  * Query request structure (matches server API)
@@ -76,6 +341,8 @@ export interface QueryRequest {
   collection: string
   query?: QueryOptions | undefined
   data?: Record<string, unknown> | UpdateOperators | undefined
+  pipeline?: AggregateStage[] | undefined
+  search?: SearchRequest | undefined
   custom?: string | undefined
   params?: Record<string, unknown> | undefined
 }
@@ -119,3 +386,27 @@ export interface Document {
   updatedAt: string
   [key: string]: unknown
 }
+
+/**
+ * Changes between two emissions of a live query, by document ID
+ */
+export interface LiveQueryDiff {
+  added: string[]
+  changed: string[]
+  removed: string[]
+}
+
+/**
+ * Live query emission
+ */
+export interface LiveQueryResult<T = Document> {
+  /** Current result set, in query order */
+  data: T[]
+  /** Changes since the previous emission */
+  diff: LiveQueryDiff
+}
+
+/**
+ * Callback for live query updates
+ */
+export type LiveQueryCallback<T = Document> = (result: LiveQueryResult<T>) => void
@@ -0,0 +1,41 @@
+/**
+ * Reference from one collection to another.
+ *
+ * - Belongs-to (default): `localField` (default: the relation name) holds the
+ *   `id` of the target document, or an array of ids.
+ * - Has-many: set `foreignField` to the target field that holds this
+ *   document's `localField` value (default: `id`).
+ *
+ * @example
+ * // posts.author holds a user id
+ * { collection: 'users' }
+ * // comments.postId holds a post id
+ * { collection: 'comments', foreignField: 'postId' }
+ */
+export interface RelationDefinition {
+  /** Target collection */
+  collection: string
+  /** Field on this collection holding the reference */
+  localField?: string
+  /** Field on the target collection matched against `localField` (default: 'id') */
+  foreignField?: string
+  /** Resolve to an array of all matches (default: true when `foreignField` is set) */
+  many?: boolean
+}
+
+/**
+ * Relations of a collection by name; a string is shorthand for `{ collection }`
+ */
+export type CollectionRelations = Record<string, string | RelationDefinition>
+
+/**
+ * Relation declarations by collection name
+ * @example
+ * {
+ *   posts: {
+ *     author: 'users',
+ *     comments: { collection: 'comments', foreignField: 'postId' }
+ *   }
+ * }
+ */
+export type RelationsConfig = Record<string, CollectionRelations>
@@ -0,0 +1,17 @@
+/**
+ * Options for `sb.transaction()`
+ */
+export interface TransactionOptions {
+  /** Times to re-run the transaction after a serialization conflict (default: 3) */
+  maxRetries?: number
+  /** Base delay before a retry in ms, growing exponentially (default: 100) */
+  retryDelay?: number
+}
+
+/**
+ * Response when beginning a transaction
+ */
+export interface TransactionBeginResponse {
+  success: boolean
+  transactionId: string
+}
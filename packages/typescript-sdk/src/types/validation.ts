@@ -0,0 +1,56 @@
+/**
+ * Validation issue reported by a Standard Schema validator
+ */
+export interface StandardSchemaIssue {
+  readonly message: string
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined
+}
+
+/**
+ * Standard Schema v1 interface, implemented by Zod (3.24+), Valibot, ArkType
+ * and other validation libraries
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (value: unknown) =>
+      | StandardSchemaResult<Output>
+      | Promise<StandardSchemaResult<Output>>
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined
+  }
+}
+
+/**
+ * Result of a Standard Schema validation
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> }
+
+/**
+ * Schema with a Zod-style `safeParse`, for Zod versions before Standard Schema support
+ */
+export interface SafeParseSchema<Output = unknown> {
+  safeParse(value: unknown):
+    | { success: true; data: Output }
+    | { success: false; error: { issues: Array<{ message: string; path: PropertyKey[] }> } }
+}
+
+/**
+ * A schema from a validation library
+ */
+export type SchemaLike = StandardSchemaV1 | SafeParseSchema
+
+/**
+ * Custom validator for a collection: one schema for creates, or separate
+ * schemas for creates and updates (updates validate the `$set` values)
+ * @example
+ * // Zod
+ * { create: Product, update: Product.partial() }
+ */
+export type CollectionValidator = SchemaLike | {
+  create?: SchemaLike | undefined
+  update?: SchemaLike | undefined
+}
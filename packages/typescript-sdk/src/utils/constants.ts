@@ -8,14 +8,33 @@ export const API_ENDPOINTS = {
   AUTH_LOGOUT: '/api/auth/logout',
   AUTH_REFRESH: '/api/auth/refresh',
   AUTH_ME: '/api/auth/me',
+  AUTH_RECOVER: '/api/auth/recover',
+  AUTH_RESET_PASSWORD: '/api/auth/reset-password',
+  AUTH_VERIFY_EMAIL: '/api/auth/verify-email',
+  AUTH_OAUTH_AUTHORIZE: '/api/auth/oauth/authorize',
+  AUTH_OAUTH_TOKEN: '/api/auth/oauth/token',
+  AUTH_MAGIC_LINK: '/api/auth/magic-link',
+  AUTH_OTP_VERIFY: '/api/auth/otp/verify',
+  AUTH_IDENTITIES: '/api/auth/identities',
+  AUTH_SESSIONS: '/api/auth/sessions',
+  AUTH_SESSIONS_REVOKE_OTHERS: '/api/auth/sessions/revoke-others',
+  AUTH_MFA_VERIFY: '/api/auth/mfa/verify',
+  AUTH_MFA_FACTORS: '/api/auth/mfa/factors',
+  AUTH_MFA_RECOVERY_CODES: '/api/auth/mfa/recovery-codes',
 
   // Admin Auth
   ADMIN_LOGIN: '/api/admin/login',
+  ADMIN_LOGOUT: '/api/admin/logout',
+  ADMIN_REFRESH: '/api/admin/refresh',
   ADMIN_ME: '/api/admin/me',
+  ADMIN_USERS: '/api/admin/users',
 
   // Query
   QUERY: '/api/query',
 
+  // Transactions
+  TRANSACTIONS: '/api/transactions',
+
   // Collections
   COLLECTIONS: '/api/admin/collections',
 
@@ -27,12 +46,24 @@ export const API_ENDPOINTS = {
   REALTIME: '/api/realtime',
 } as const
 
+/**
+ * Request headers
+ */
+export const HEADERS = {
+  TRANSACTION_ID: 'X-Transaction-Id',
+} as const
+
 /**
  * Storage keys
  */
 export const STORAGE_KEYS = {
   SESSION: 'swiftbase_session',
+  IMPERSONATOR: 'swiftbase_impersonator',
+  CODE_VERIFIER: 'swiftbase_code_verifier',
   USER: 'swiftbase_user',
+  OFFLINE_QUEUE: 'swiftbase_offline_queue',
+  OFFLINE_CACHE: 'swiftbase_offline_cache',
+  QUERY_CACHE: 'swiftbase_query_cache',
 } as const
 
 /**
@@ -108,3 +108,24 @@ export function generateId(): string {
     return v.toString(16)
   })
 }
+
+/**
+ * Serialize a value to JSON with object keys sorted, so that structurally
+ * equal values always produce the same string (used for cache keys)
+ */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined'
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`
+  }
+
+  const entries = Object.keys(value)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+
+  return `{${entries.join(',')}}`
+}
@@ -1,6 +1,10 @@
-import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll, type Mock } from 'vitest'
+import { createHash } from 'node:crypto'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
 import { Auth } from '../../src/modules/auth/auth'
-import { MemoryStorage } from '../../src/modules/auth/storage'
+import { CookieStorage, MemoryStorage } from '../../src/modules/auth/storage'
+import { cookiesFromHeaders } from '../../src/modules/auth/cookies'
 import { HttpClient } from '../../src/core/http'
 import type { AuthResponse, AdminAuthResponse } from '../../src/types/auth'
 
@@ -104,7 +108,7 @@ describe('Auth', () => {
         '/api/auth/login',
         { email: 'test@example.com', password: 'password123' }
       )
-      expect(result.user.id).toBe('user_123')
+      expect('user' in result && result.user.id).toBe('user_123')
       expect(auth.getSession()).not.toBeNull()
     })
   })
@@ -316,6 +320,622 @@ describe('Auth', () => {
       )
       expect(result.admin.username).toBe('admin')
     })
+
+    it('should refresh and logout admin sessions through the admin endpoints', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({
+        admin: { id: 'admin_123', username: 'admin', created_at: '2024-01-01T00:00:00Z' },
+        tokens: { accessToken: createMockToken(), refreshToken: 'refresh_token', expiresIn: 3600 },
+      })
+      await auth.admin.login({ username: 'admin', password: 'admin123' })
+
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({
+        accessToken: createMockToken(),
+        refreshToken: 'refresh_token_2',
+        expiresIn: 3600,
+      })
+      const session = await auth.refreshSession()
+
+      expect(mockHttp.post).toHaveBeenLastCalledWith('/api/admin/refresh', { refreshToken: 'refresh_token' })
+      expect(session?.admin?.username).toBe('admin')
+
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({})
+      await auth.logout()
+
+      expect(mockHttp.post).toHaveBeenLastCalledWith('/api/admin/logout')
+    })
+  })
+})
+
+describe('Auth session hydration', () => {
+  const user = {
+    id: 'user_123',
+    email: 'test@example.com',
+    emailVerified: true,
+    metadata: {},
+    createdAt: '2024-01-01T00:00:00Z',
+  }
+
+  it('should start with the initial session without a refresh request', async () => {
+    const mockHttp = createMockHttpClient()
+    const storage = new MemoryStorage()
+    const session = { accessToken: createMockToken(), refreshToken: 'refresh_token', expiresAt: Date.now() + 3600000, user }
+    const auth = new Auth(mockHttp, { storage, autoRefresh: false, initialSession: session })
+
+    await auth.initialize()
+
+    expect(auth.getSession()).toEqual(session)
+    expect(JSON.parse(storage.get('swiftbase_session')!)).toEqual(session)
+    expect(mockHttp.setAuthHeader).toHaveBeenCalledWith(session.accessToken)
+    expect(mockHttp.post).not.toHaveBeenCalled()
+  })
+
+  it('should refresh an expired cookie session with refreshExpiredSession', async () => {
+    const mockHttp = createMockHttpClient()
+    const expired = { accessToken: createMockToken(-100), refreshToken: 'refresh_token', expiresAt: Date.now() - 100000, user }
+    const request = new Headers({ cookie: `swiftbase_session=${encodeURIComponent(JSON.stringify(expired))}` })
+    const response = new Headers()
+    const auth = new Auth(mockHttp, {
+      storage: new CookieStorage(cookiesFromHeaders(request, response)),
+      autoRefresh: false,
+      refreshExpiredSession: true,
+    })
+    const fresh = createMockToken()
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({ accessToken: fresh, refreshToken: 'refresh_token_2', expiresIn: 3600 })
+
+    await auth.initialize()
+
+    expect(mockHttp.post).toHaveBeenCalledWith('/api/auth/refresh', { refreshToken: 'refresh_token' })
+    expect(auth.getSession()?.user?.email).toBe('test@example.com')
+    expect(auth.isAuthenticated()).toBe(true)
+    expect(response.get('set-cookie')).toContain(encodeURIComponent(fresh))
+  })
+
+  it('should adopt a session with setSession', async () => {
+    const mockHttp = createMockHttpClient()
+    const auth = new Auth(mockHttp, { storage: 'memory', autoRefresh: false })
+    const listener = vi.fn()
+    auth.onAuthStateChange(listener)
+    const session = { accessToken: createMockToken(), refreshToken: 'refresh_token', expiresAt: Date.now() + 3600000, user }
+
+    await auth.setSession(session)
+
+    expect(auth.isAuthenticated()).toBe(true)
+    expect(mockHttp.setAuthHeader).toHaveBeenCalledWith(session.accessToken)
+    expect(listener).toHaveBeenCalledWith('SIGNED_IN', session)
+  })
+})
+
+describe('Auth cross-tab sync', () => {
+  const user = {
+    id: 'user_123',
+    email: 'test@example.com',
+    email_verified: true,
+    metadata: {},
+    created_at: '2024-01-01T00:00:00Z',
+  }
+  let tabs: Auth[] = []
+
+  function createTab(storage: MemoryStorage) {
+    const http = createMockHttpClient()
+    const auth = new Auth(http, { storage, autoRefresh: false, syncTabs: true })
+    tabs.push(auth)
+    return { auth, http }
+  }
+
+  afterEach(() => {
+    tabs.forEach((auth) => auth.stopSync())
+    tabs = []
+  })
+
+  it('should propagate sign-in, refreshes and sign-out to other tabs', async () => {
+    const storage = new MemoryStorage()
+    const a = createTab(storage)
+    const b = createTab(storage)
+    const listener = vi.fn()
+    b.auth.onAuthStateChange(listener)
+
+    ;(a.http.post as Mock).mockResolvedValueOnce({
+      user,
+      tokens: { accessToken: createMockToken(), refreshToken: 'refresh_1', expiresIn: 3600 },
+    })
+    await a.auth.login({ email: 'test@example.com', password: 'password123' })
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith('SIGNED_IN', expect.any(Object)))
+    expect(b.auth.getSession()?.refreshToken).toBe('refresh_1')
+    expect(b.http.setAuthHeader).toHaveBeenLastCalledWith(a.auth.getSession()?.accessToken)
+
+    ;(a.http.post as Mock).mockResolvedValueOnce({ accessToken: createMockToken(), refreshToken: 'refresh_2', expiresIn: 3600 })
+    await a.auth.refreshSession()
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith('TOKEN_REFRESHED', expect.any(Object)))
+    expect(b.auth.getSession()?.refreshToken).toBe('refresh_2')
+
+    ;(a.http.post as Mock).mockResolvedValueOnce({})
+    await a.auth.logout()
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith('SIGNED_OUT', null))
+    expect(b.auth.getSession()).toBeNull()
+    expect(b.http.post).not.toHaveBeenCalled()
+  })
+
+  it('should adopt tokens rotated by another tab instead of refreshing again', async () => {
+    const storage = new MemoryStorage()
+    const b = createTab(storage)
+    const rotated = { accessToken: createMockToken(), refreshToken: 'refresh_2', expiresAt: Date.now() + 3600000 }
+
+    await b.auth.setSession({ accessToken: createMockToken(), refreshToken: 'refresh_1', expiresAt: Date.now() + 3600000 })
+    // Written by a tab whose broadcast has not arrived yet
+    storage.set('swiftbase_session', JSON.stringify(rotated))
+
+    const session = await b.auth.refreshSession()
+
+    expect(session).toEqual(rotated)
+    expect(b.auth.getSession()?.refreshToken).toBe('refresh_2')
+    expect(b.http.post).not.toHaveBeenCalled()
+  })
+})
+
+describe('Auth OAuth and magic links', () => {
+  // Stub OAuth server: issues a code for a PKCE challenge and checks the verifier on exchange
+  let server: Server
+  let baseUrl: string
+  const challenges = new Map<string, { challenge: string; method: string; link: boolean }>()
+  const requests: Array<{ method: string; url: string; body: Record<string, unknown>; authorization?: string }> = []
+
+  const rawUser = {
+    id: 'user_123',
+    email: 'test@example.com',
+    email_verified: true,
+    metadata: {},
+    created_at: '2024-01-01T00:00:00Z',
+  }
+
+  function tokens() {
+    return { accessToken: createMockToken(), refreshToken: 'refresh_token', expiresIn: 3600 }
+  }
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let data = ''
+      req.on('data', (chunk) => (data += chunk))
+      req.on('end', () => {
+        const body = data ? JSON.parse(data) : {}
+        requests.push({ method: req.method!, url: req.url!, body, authorization: req.headers.authorization })
+        const send = (status: number, payload: unknown) => {
+          res.writeHead(status, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify(payload))
+        }
+
+        if (req.url === '/api/auth/oauth/authorize') {
+          const code = `code_${challenges.size}`
+          challenges.set(code, { challenge: body.codeChallenge, method: body.codeChallengeMethod, link: body.link })
+          return send(200, { url: `https://provider.test/authorize?state=${code}&redirect_uri=${encodeURIComponent(body.redirectTo)}` })
+        }
+        if (req.url === '/api/auth/oauth/token') {
+          const pending = challenges.get(body.code)
+          const hashed = createHash('sha256').update(body.codeVerifier).digest('base64url')
+          if (!pending || pending.challenge !== hashed) {
+            return send(400, { message: 'invalid_grant' })
+          }
+          challenges.delete(body.code)
+          return send(200, { user: rawUser, tokens: tokens() })
+        }
+        if (req.url === '/api/auth/magic-link') {
+          return send(200, {})
+        }
+        if (req.url === '/api/auth/otp/verify') {
+          return body.token === '123456' ? send(200, { user: rawUser, tokens: tokens() }) : send(401, { message: 'Invalid code' })
+        }
+        if (req.url === '/api/auth/identities' && req.method === 'GET') {
+          return send(200, {
+            identities: [{ id: 'identity_1', provider: 'github', provider_user_id: '42', created_at: '2024-01-01T00:00:00Z' }],
+          })
+        }
+        if (req.url === '/api/auth/identities/identity_1' && req.method === 'DELETE') {
+          return send(200, {})
+        }
+        send(404, { message: 'Not found' })
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requests.length = 0
+  })
+
+  function createAuth() {
+    const storage = new MemoryStorage()
+    const http = new HttpClient({ baseUrl, retry: false })
+    return { auth: new Auth(http, { storage, autoRefresh: false }), storage }
+  }
+
+  it('should sign in with OAuth using PKCE', async () => {
+    const { auth, storage } = createAuth()
+    const listener = vi.fn()
+    auth.onAuthStateChange(listener)
+
+    const { provider, url } = await auth.signInWithOAuth({
+      provider: 'github',
+      redirectTo: 'http://app.test/callback',
+      scopes: ['read:user'],
+    })
+
+    expect(provider).toBe('github')
+    expect(url).toContain('redirect_uri=http%3A%2F%2Fapp.test%2Fcallback')
+    expect(requests[0]!.body).toMatchObject({ provider: 'github', scopes: ['read:user'], codeChallengeMethod: 'S256', link: false })
+    expect(requests[0]!.body.codeChallenge).not.toBe(storage.get('swiftbase_code_verifier'))
+
+    const code = new URL(url).searchParams.get('state')!
+    const { user } = await auth.exchangeCodeForSession(code)
+
+    expect(user.email).toBe('test@example.com')
+    expect(auth.isAuthenticated()).toBe(true)
+    expect(listener).toHaveBeenCalledWith('SIGNED_IN', expect.any(Object))
+    expect(storage.get('swiftbase_code_verifier')).toBeNull()
+  })
+
+  it('should reject an exchange without a code verifier', async () => {
+    const { auth } = createAuth()
+
+    await expect(auth.exchangeCodeForSession('code_x')).rejects.toThrow('No code verifier found')
+    expect(requests).toHaveLength(0)
+  })
+
+  it('should link identities for the signed-in user', async () => {
+    const { auth } = createAuth()
+
+    await expect(auth.linkIdentity({ provider: 'google' })).rejects.toThrow('Sign in before linking')
+
+    await auth.signInWithMagicLink('test@example.com', { redirectTo: 'http://app.test/welcome' })
+    await auth.verifyOtp({ email: 'test@example.com', token: '123456', type: 'email' })
+    const { url } = await auth.linkIdentity({ provider: 'google', redirectTo: 'http://app.test/settings' })
+
+    const authorize = requests.find((request) => request.url === '/api/auth/oauth/authorize')!
+    expect(authorize.body.link).toBe(true)
+    expect(authorize.authorization).toMatch(/^Bearer /)
+
+    await auth.exchangeCodeForSession(new URL(url).searchParams.get('state')!)
+
+    expect(await auth.listIdentities()).toEqual([
+      { id: 'identity_1', provider: 'github', providerUserId: '42', email: undefined, lastSignInAt: undefined, createdAt: '2024-01-01T00:00:00Z' },
+    ])
+    await auth.unlinkIdentity('identity_1')
+    expect(requests.at(-1)).toMatchObject({ method: 'DELETE', url: '/api/auth/identities/identity_1' })
+  })
+
+  it('should send magic links and verify one-time codes', async () => {
+    const { auth } = createAuth()
+
+    await auth.signInWithMagicLink('test@example.com', { createUser: false })
+    expect(requests[0]!.body).toEqual({ email: 'test@example.com', createUser: false })
+
+    await expect(auth.verifyOtp({ email: 'test@example.com', token: '000000' })).rejects.toThrow('Invalid code')
+    expect(auth.getSession()).toBeNull()
+
+    const { session } = await auth.verifyOtp({ email: 'test@example.com', token: '123456' })
+    expect(requests.at(-1)!.body).toEqual({ type: 'magiclink', email: 'test@example.com', token: '123456' })
+    expect(auth.getSession()?.accessToken).toBe(session.accessToken)
+  })
+})
+
+describe('Auth account management', () => {
+  const rawUser = {
+    id: 'user_123',
+    email: 'test@example.com',
+    email_verified: false,
+    metadata: {},
+    created_at: '2024-01-01T00:00:00Z',
+  }
+  let auth: Auth
+  let mockHttp: HttpClient
+  let storage: MemoryStorage
+
+  beforeEach(async () => {
+    mockHttp = {
+      post: vi.fn(),
+      get: vi.fn(),
+      patch: vi.fn(),
+      delete: vi.fn(),
+      setAuthHeader: vi.fn(),
+    } as unknown as HttpClient
+    storage = new MemoryStorage()
+    auth = new Auth(mockHttp, { storage, autoRefresh: false })
+
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({
+      user: rawUser,
+      tokens: { accessToken: createMockToken(), refreshToken: 'refresh_token', expiresIn: 3600 },
+    })
+    await auth.login({ email: 'test@example.com', password: 'password123' })
+  })
+
+  it('should request and confirm password resets', async () => {
+    ;(mockHttp.post as Mock).mockResolvedValue({})
+
+    await auth.resetPasswordForEmail('test@example.com', { redirectTo: 'http://app.test/reset' })
+    await auth.confirmPasswordReset('reset_token', 'new-password')
+
+    expect(mockHttp.post).toHaveBeenCalledWith('/api/auth/recover', { email: 'test@example.com', redirectTo: 'http://app.test/reset' })
+    expect(mockHttp.post).toHaveBeenLastCalledWith('/api/auth/reset-password', { token: 'reset_token', password: 'new-password' })
+  })
+
+  it('should update the session user after verifying the email', async () => {
+    const listener = vi.fn()
+    auth.onAuthStateChange(listener)
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({ ...rawUser, email_verified: true })
+
+    const user = await auth.verifyEmail('verify_token')
+
+    expect(mockHttp.post).toHaveBeenLastCalledWith('/api/auth/verify-email', { token: 'verify_token' })
+    expect(user.emailVerified).toBe(true)
+    expect(auth.getSession()?.user?.emailVerified).toBe(true)
+    expect(listener).toHaveBeenCalledWith('USER_UPDATED', expect.objectContaining({ user }))
+  })
+
+  it('should update the user and persist it in the session', async () => {
+    const listener = vi.fn()
+    auth.onAuthStateChange(listener)
+    ;(mockHttp.patch as Mock).mockResolvedValueOnce({ ...rawUser, metadata: { name: 'Test' } })
+
+    const user = await auth.updateUser({ metadata: { name: 'Test' } })
+
+    expect(mockHttp.patch).toHaveBeenCalledWith('/api/auth/me', { metadata: { name: 'Test' } })
+    expect(user.metadata).toEqual({ name: 'Test' })
+    expect(JSON.parse(storage.get('swiftbase_session')!).user.metadata).toEqual({ name: 'Test' })
+    expect(listener).toHaveBeenCalledWith('USER_UPDATED', expect.any(Object))
+  })
+
+  it('should delete the account and sign out', async () => {
+    const listener = vi.fn()
+    auth.onAuthStateChange(listener)
+    ;(mockHttp.delete as Mock).mockResolvedValueOnce({})
+
+    await auth.deleteAccount()
+
+    expect(mockHttp.delete).toHaveBeenCalledWith('/api/auth/me')
+    expect(auth.getSession()).toBeNull()
+    expect(listener).toHaveBeenCalledWith('SIGNED_OUT', null)
+    await expect(auth.updateUser({ password: 'x' })).rejects.toThrow('Sign in before updating the user')
+  })
+
+  it('should list the signed-in devices', async () => {
+    ;(mockHttp.get as Mock).mockResolvedValueOnce({
+      sessions: [{
+        id: 'session_1',
+        device: 'Chrome on macOS',
+        ip_address: '203.0.113.7',
+        user_agent: 'Mozilla/5.0',
+        created_at: '2024-01-01T00:00:00Z',
+        last_used_at: '2024-01-02T00:00:00Z',
+        current: true,
+      }],
+    })
+
+    const sessions = await auth.listSessions()
+
+    expect(mockHttp.get).toHaveBeenCalledWith('/api/auth/sessions')
+    expect(sessions).toEqual([{
+      id: 'session_1',
+      device: 'Chrome on macOS',
+      ipAddress: '203.0.113.7',
+      userAgent: 'Mozilla/5.0',
+      createdAt: '2024-01-01T00:00:00Z',
+      lastUsedAt: '2024-01-02T00:00:00Z',
+      current: true,
+    }])
+  })
+
+  it('should revoke one or all other sessions', async () => {
+    ;(mockHttp.delete as Mock).mockResolvedValueOnce({})
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({})
+
+    await auth.revokeSession('session_2')
+    await auth.revokeOtherSessions()
+
+    expect(mockHttp.delete).toHaveBeenCalledWith('/api/auth/sessions/session_2')
+    expect(mockHttp.post).toHaveBeenLastCalledWith('/api/auth/sessions/revoke-others', { refreshToken: 'refresh_token' })
+    // Revoking other devices keeps this one signed in
+    expect(auth.getSession()).not.toBeNull()
+  })
+})
+
+describe('Auth MFA', () => {
+  const rawUser = {
+    id: 'user_123',
+    email: 'test@example.com',
+    email_verified: true,
+    metadata: {},
+    created_at: '2024-01-01T00:00:00Z',
+  }
+  const rawFactor = {
+    id: 'factor_1',
+    type: 'totp',
+    friendly_name: 'Phone',
+    status: 'verified',
+    created_at: '2024-01-01T00:00:00Z',
+  }
+  let auth: Auth
+  let mockHttp: HttpClient
+
+  beforeEach(() => {
+    mockHttp = {
+      post: vi.fn(),
+      get: vi.fn(),
+      delete: vi.fn(),
+      setAuthHeader: vi.fn(),
+    } as unknown as HttpClient
+    auth = new Auth(mockHttp, { storage: new MemoryStorage(), autoRefresh: false })
+  })
+
+  it('should return a challenge instead of a session when MFA is required', async () => {
+    const listener = vi.fn()
+    auth.onAuthStateChange(listener)
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({
+      mfa_required: true,
+      challenge_id: 'challenge_1',
+      factors: [rawFactor],
+      expires_in: 300,
+    })
+
+    const result = await auth.login({ email: 'test@example.com', password: 'password123' })
+
+    expect(result.mfaRequired).toBe(true)
+    expect(result).toMatchObject({
+      challengeId: 'challenge_1',
+      factors: [{ id: 'factor_1', type: 'totp', friendlyName: 'Phone', status: 'verified' }],
+    })
+    expect(auth.getSession()).toBeNull()
+    expect(listener).toHaveBeenCalledWith('MFA_CHALLENGE', null)
+  })
+
+  it('should sign in after verifying the challenge', async () => {
+    const listener = vi.fn()
+    auth.onAuthStateChange(listener)
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({
+      user: rawUser,
+      tokens: { accessToken: createMockToken(), refreshToken: 'refresh_token', expiresIn: 3600 },
+    })
+
+    const result = await auth.mfa.verify('challenge_1', '123456')
+
+    expect(mockHttp.post).toHaveBeenCalledWith('/api/auth/mfa/verify', { challengeId: 'challenge_1', code: '123456' })
+    expect(result.user.id).toBe('user_123')
+    expect(auth.getSession()?.user?.id).toBe('user_123')
+    expect(listener).toHaveBeenCalledWith('SIGNED_IN', result.session)
+  })
+
+  it('should enroll, list and remove TOTP factors', async () => {
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({
+      factor: { ...rawFactor, status: 'unverified' },
+      challenge_id: 'challenge_2',
+      secret: 'JBSWY3DPEHPK3PXP',
+      uri: 'otpauth://totp/SwiftBase:test@example.com?secret=JBSWY3DPEHPK3PXP',
+    })
+    ;(mockHttp.get as Mock).mockResolvedValueOnce({ factors: [rawFactor] })
+
+    const enrollment = await auth.mfa.enroll({ friendlyName: 'Phone' })
+    const factors = await auth.mfa.listFactors()
+    await auth.mfa.unenroll('factor_1')
+
+    expect(mockHttp.post).toHaveBeenCalledWith('/api/auth/mfa/factors', { type: 'totp', friendlyName: 'Phone' })
+    expect(enrollment).toMatchObject({ challengeId: 'challenge_2', secret: 'JBSWY3DPEHPK3PXP', factor: { status: 'unverified' } })
+    expect(factors).toHaveLength(1)
+    expect(mockHttp.delete).toHaveBeenCalledWith('/api/auth/mfa/factors/factor_1')
+  })
+
+  it('should generate recovery codes', async () => {
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({ codes: ['aaaa-bbbb', 'cccc-dddd'] })
+
+    const codes = await auth.mfa.generateRecoveryCodes()
+
+    expect(mockHttp.post).toHaveBeenCalledWith('/api/auth/mfa/recovery-codes')
+    expect(codes).toEqual(['aaaa-bbbb', 'cccc-dddd'])
+  })
+})
+
+describe('Auth impersonation', () => {
+  const rawAdmin = { id: 'admin_123', username: 'admin', created_at: '2024-01-01T00:00:00Z' }
+  const rawUser = {
+    id: 'user_123',
+    email: 'test@example.com',
+    email_verified: true,
+    metadata: {},
+    created_at: '2024-01-01T00:00:00Z',
+  }
+  let auth: Auth
+  let mockHttp: HttpClient
+  let storage: MemoryStorage
+
+  function impersonationResponse(expiresIn: number = 900) {
+    return {
+      user: rawUser,
+      tokens: { accessToken: createMockToken(expiresIn), refreshToken: '', expiresIn },
+    }
+  }
+
+  beforeEach(async () => {
+    mockHttp = createMockHttpClient()
+    storage = new MemoryStorage()
+    auth = new Auth(mockHttp, { storage, autoRefresh: false })
+
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({
+      admin: rawAdmin,
+      tokens: { accessToken: createMockToken(), refreshToken: 'admin_refresh', expiresIn: 3600 },
+    })
+    await auth.admin.login({ username: 'admin', password: 'admin123' })
+  })
+
+  it('should require an admin session', async () => {
+    const userAuth = new Auth(createMockHttpClient(), { storage: 'memory', autoRefresh: false })
+
+    await expect(userAuth.admin.impersonate('user_123')).rejects.toThrow('Sign in as an admin')
+  })
+
+  it('should return a user session without leaving the admin session', async () => {
+    const adminSession = auth.getSession()
+    ;(mockHttp.post as Mock).mockResolvedValueOnce(impersonationResponse())
+
+    const session = await auth.admin.impersonate('user_123', { reason: 'Ticket #42' })
+
+    expect(mockHttp.post).toHaveBeenLastCalledWith('/api/admin/users/user_123/impersonate', { reason: 'Ticket #42' })
+    expect(session.user?.id).toBe('user_123')
+    expect(session.impersonator?.username).toBe('admin')
+    expect(auth.getSession()).toBe(adminSession)
+    expect(auth.admin.isImpersonating()).toBe(false)
+  })
+
+  it('should switch into the user session and back out of it', async () => {
+    const adminSession = auth.getSession()
+    const listener = vi.fn()
+    auth.onAuthStateChange(listener)
+    ;(mockHttp.post as Mock).mockResolvedValueOnce(impersonationResponse())
+
+    const session = await auth.admin.impersonate('user_123', { switchSession: true })
+
+    expect(auth.getSession()).toBe(session)
+    expect(auth.admin.isImpersonating()).toBe(true)
+    expect(mockHttp.setAuthHeader).toHaveBeenLastCalledWith(session.accessToken)
+    expect(JSON.parse(storage.get('swiftbase_impersonator')!)).toEqual(adminSession)
+    expect(listener).toHaveBeenCalledWith('IMPERSONATION_STARTED', session)
+
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({})
+    const restored = await auth.admin.stopImpersonating()
+
+    expect(mockHttp.post).toHaveBeenLastCalledWith('/api/auth/logout')
+    expect(restored).toEqual(adminSession)
+    expect(auth.getSession()?.admin?.username).toBe('admin')
+    expect(auth.admin.isImpersonating()).toBe(false)
+    expect(storage.get('swiftbase_impersonator')).toBeNull()
+    expect(listener).toHaveBeenLastCalledWith('IMPERSONATION_ENDED', adminSession)
+  })
+
+  it('should switch back to the admin session instead of refreshing', async () => {
+    ;(mockHttp.post as Mock).mockResolvedValueOnce(impersonationResponse())
+    await auth.admin.impersonate('user_123', { switchSession: true })
+    const calls = (mockHttp.post as Mock).mock.calls.length
+
+    const session = await auth.refreshSession()
+
+    expect(mockHttp.post).toHaveBeenCalledTimes(calls)
+    expect(session?.admin?.username).toBe('admin')
+    expect(auth.admin.isImpersonating()).toBe(false)
+  })
+
+  it('should sign out of both sessions on logout', async () => {
+    ;(mockHttp.post as Mock).mockResolvedValueOnce(impersonationResponse())
+    await auth.admin.impersonate('user_123', { switchSession: true })
+
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({})
+    await auth.logout()
+
+    expect(auth.getSession()).toBeNull()
+    expect(await auth.admin.stopImpersonating()).toBeNull()
+    expect(storage.get('swiftbase_impersonator')).toBeNull()
   })
 })
 
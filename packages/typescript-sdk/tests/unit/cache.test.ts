@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest'
+import { QueryCache, createCacheStorage } from '../../src/modules/cache/cache'
+import { MemoryStorage, LocalStorageAdapter } from '../../src/modules/auth/storage'
+import { QueryBuilder } from '../../src/modules/query/builder'
+import { HttpClient } from '../../src/core/http'
+import type { RealtimeManager } from '../../src/modules/realtime/manager'
+import type { QueryRequest, QueryResponse } from '../../src/types/query'
+import type { RealtimeCallback } from '../../src/types/realtime'
+
+const find = (collection: string, where: Record<string, unknown> = {}): QueryRequest => ({
+  action: 'find',
+  collection,
+  query: { where },
+})
+
+function createMockRealtime() {
+  const callbacks = new Map<string, RealtimeCallback>()
+  const realtime = {
+    subscribe: vi.fn((collection: string, callback: RealtimeCallback) => {
+      callbacks.set(collection, callback)
+      return () => callbacks.delete(collection)
+    }),
+  } as unknown as RealtimeManager
+  return { realtime, callbacks }
+}
+
+describe('QueryCache', () => {
+  let storage: MemoryStorage
+  let cache: QueryCache
+  let fetch: Mock<() => Promise<QueryResponse<unknown>>>
+  let version: number
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    storage = new MemoryStorage()
+    cache = new QueryCache({ enabled: true, ttl: 1000, staleWhileRevalidate: 5000, store: storage })
+    version = 0
+    fetch = vi.fn(async () => ({ success: true, data: [{ id: 'p1', version: ++version }] }))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should serve fresh results from the cache', async () => {
+    const first = await cache.execute(find('products'), fetch)
+    const second = await cache.execute(find('products'), fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(second).toEqual(first)
+  })
+
+  it('should key results by the normalized request', async () => {
+    await cache.execute(find('products', { a: 1, b: 2 }), fetch)
+    await cache.execute({ collection: 'products', query: { where: { b: 2, a: 1 } }, action: 'find' }, fetch)
+    await cache.execute(find('products', { a: 2 }), fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should serve stale results while revalidating in the background', async () => {
+    await cache.execute(find('products'), fetch)
+    vi.advanceTimersByTime(2000)
+
+    const stale = await cache.execute(find('products'), fetch)
+    expect(stale.data).toEqual([{ id: 'p1', version: 1 }])
+    expect(fetch).toHaveBeenCalledTimes(2)
+
+    await vi.runAllTimersAsync()
+    const fresh = await cache.execute(find('products'), fetch)
+    expect(fresh.data).toEqual([{ id: 'p1', version: 2 }])
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should fetch again once results are too old to serve', async () => {
+    await cache.execute(find('products'), fetch)
+    vi.advanceTimersByTime(6001)
+
+    const result = await cache.execute(find('products'), fetch)
+
+    expect(result.data).toEqual([{ id: 'p1', version: 2 }])
+  })
+
+  it('should share concurrent fetches of the same query', async () => {
+    await Promise.all([
+      cache.execute(find('products'), fetch),
+      cache.execute(find('products'), fetch),
+    ])
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not cache failures', async () => {
+    fetch.mockRejectedValueOnce(new Error('boom'))
+
+    await expect(cache.execute(find('products'), fetch)).rejects.toThrow('boom')
+    await cache.execute(find('products'), fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should invalidate one collection or all of them', async () => {
+    await cache.execute(find('products'), fetch)
+    await cache.execute(find('orders'), fetch)
+
+    await cache.invalidate('products')
+    await cache.execute(find('products'), fetch)
+    await cache.execute(find('orders'), fetch)
+    expect(fetch).toHaveBeenCalledTimes(3)
+
+    await cache.invalidate()
+    await cache.execute(find('products'), fetch)
+    await cache.execute(find('orders'), fetch)
+    expect(fetch).toHaveBeenCalledTimes(5)
+  })
+
+  it('should not store results of fetches invalidated while in flight', async () => {
+    let resolve!: (response: QueryResponse<unknown>) => void
+    fetch.mockReturnValueOnce(new Promise((res) => { resolve = res }))
+
+    const pending = cache.execute(find('products'), fetch)
+    await Promise.resolve()
+    await cache.invalidate('products')
+    resolve({ success: true, data: 'stale' })
+
+    await expect(pending).resolves.toEqual({ success: true, data: 'stale' })
+    await expect(cache.execute(find('products'), fetch)).resolves.toEqual({
+      success: true,
+      data: [{ id: 'p1', version: 1 }],
+    })
+  })
+
+  it('should keep invalidations across instances sharing a store', async () => {
+    await cache.execute(find('products'), fetch)
+    await cache.invalidate('products')
+
+    const reloaded = new QueryCache({ enabled: true, ttl: 1000, store: storage })
+    await reloaded.execute(find('products'), fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should remove invalidated results from storage', async () => {
+    await cache.execute(find('products'), fetch)
+    await cache.execute(find('orders'), fetch)
+    const key = 'swiftbase_query_cache:{"action":"find","collection":"products","query":{"where":{}}}'
+    expect(storage.get(key)).not.toBeNull()
+
+    await cache.invalidate('products')
+
+    expect(storage.get(key)).toBeNull()
+    expect(JSON.parse(storage.get('swiftbase_query_cache_keys')!)).toHaveLength(1)
+  })
+
+  it('should remove the least recently used results beyond maxEntries', async () => {
+    cache = new QueryCache({ enabled: true, ttl: 1000, store: storage, maxEntries: 2 })
+
+    await cache.execute(find('a'), fetch)
+    await cache.execute(find('b'), fetch)
+    await cache.execute(find('a'), fetch)
+    await cache.execute(find('c'), fetch)
+    expect(fetch).toHaveBeenCalledTimes(3)
+
+    await cache.execute(find('a'), fetch)
+    await cache.execute(find('b'), fetch)
+    expect(fetch).toHaveBeenCalledTimes(4)
+  })
+
+  it('should stop following realtime events once no results of a collection are cached', async () => {
+    const { realtime, callbacks } = createMockRealtime()
+    cache = new QueryCache({ enabled: true, ttl: 1000, store: storage, maxEntries: 1 }, realtime)
+
+    await cache.execute(find('products'), fetch)
+    await cache.execute(find('orders'), fetch)
+    expect(callbacks.has('products')).toBe(false)
+    expect(callbacks.has('orders')).toBe(true)
+
+    await cache.invalidate('orders')
+    expect(callbacks.size).toBe(0)
+
+    await cache.execute(find('orders'), fetch)
+    expect(realtime.subscribe).toHaveBeenCalledTimes(3)
+  })
+
+  it('should invalidate a collection on realtime events', async () => {
+    const { realtime, callbacks } = createMockRealtime()
+    cache = new QueryCache({ enabled: true, ttl: 1000, store: storage }, realtime)
+
+    await cache.execute(find('products'), fetch)
+    await cache.execute(find('products'), fetch)
+    expect(realtime.subscribe).toHaveBeenCalledTimes(1)
+
+    callbacks.get('products')!({ type: 'update', collection: 'products', documentId: 'p1' })
+    await vi.runAllTimersAsync()
+    await cache.execute(find('products'), fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not subscribe to realtime events when disabled', async () => {
+    const { realtime } = createMockRealtime()
+    cache = new QueryCache({ enabled: true, realtime: false }, realtime)
+
+    await cache.execute(find('products'), fetch)
+
+    expect(realtime.subscribe).not.toHaveBeenCalled()
+  })
+
+  it('should pass through uncached actions and disabled caches', async () => {
+    await cache.execute({ action: 'aggregate', collection: 'orders', pipeline: [] }, fetch)
+    await cache.execute({ action: 'aggregate', collection: 'orders', pipeline: [] }, fetch)
+
+    const disabled = new QueryCache({ store: storage })
+    await disabled.execute(find('products'), fetch)
+    await disabled.execute(find('products'), fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(4)
+  })
+
+  it('should notify listeners of refreshed and invalidated collections', async () => {
+    const listener = vi.fn()
+    cache.onChange(listener)
+
+    await cache.execute(find('products'), fetch)
+    await cache.invalidate('orders')
+
+    expect(listener.mock.calls).toEqual([['products'], ['orders']])
+  })
+})
+
+describe('QueryCache with QueryBuilder', () => {
+  let mockHttp: HttpClient
+  let cache: QueryCache
+
+  beforeEach(() => {
+    mockHttp = {
+      post: vi.fn(async (_path: string, request: QueryRequest) => ({
+        success: true,
+        data: request.action === 'find' ? [{ id: 'p1' }] : { modified: 1 },
+      })),
+      get: vi.fn(),
+    } as unknown as HttpClient
+    cache = new QueryCache({ enabled: true })
+  })
+
+  const builder = () => new QueryBuilder(mockHttp, 'products', { cache })
+
+  it('should prefetch queries into the cache', async () => {
+    await cache.prefetch(builder().where({ featured: true }))
+    const result = await builder().where({ featured: true }).find()
+
+    expect(result).toEqual([{ id: 'p1' }])
+    expect(mockHttp.post).toHaveBeenCalledTimes(1)
+  })
+
+  it('should ignore prefetch errors', async () => {
+    ;(mockHttp.post as Mock).mockRejectedValueOnce(new Error('boom'))
+
+    await expect(cache.prefetch(builder())).resolves.toBeUndefined()
+  })
+
+  it('should invalidate the collection on writes', async () => {
+    await builder().find()
+    await builder().where({ id: 'p1' }).update({ $set: { name: 'New' } })
+    await builder().find()
+
+    expect(mockHttp.post).toHaveBeenCalledTimes(3)
+  })
+})
+
+describe('createCacheStorage', () => {
+  it('should create storage adapters by name', () => {
+    expect(createCacheStorage('memory')).toBeInstanceOf(MemoryStorage)
+    expect(createCacheStorage('localStorage')).toBeInstanceOf(LocalStorageAdapter)
+  })
+
+  it('should fall back to memory when IndexedDB is unavailable', () => {
+    expect(createCacheStorage('indexedDB')).toBeInstanceOf(MemoryStorage)
+  })
+
+  it('should return custom adapters as-is', () => {
+    const adapter = new MemoryStorage()
+    expect(createCacheStorage(adapter)).toBe(adapter)
+  })
+})
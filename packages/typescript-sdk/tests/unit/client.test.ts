@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest'
-import { SwiftBaseClient, createClient } from '../../src/client'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { SwiftBaseClient, createClient, createServerClient } from '../../src/client'
+import { CookieStorage } from '../../src/modules/auth/storage'
 
 describe('SwiftBaseClient', () => {
   describe('constructor', () => {
@@ -78,4 +79,67 @@ describe('SwiftBaseClient', () => {
       expect(client._config.realtime.autoConnect).toBe(true)
     })
   })
+
+  describe('createServerClient', () => {
+    it('should restore the session from request cookies', async () => {
+      const payload = btoa(JSON.stringify({ sub: 'user_123', exp: Math.floor(Date.now() / 1000) + 3600 }))
+      const session = { accessToken: `e30.${payload}.sig`, refreshToken: 'refresh_token', expiresAt: Date.now() + 3600000 }
+      const client = createServerClient({
+        url: 'http://localhost:8090',
+        cookies: { get: (name) => (name === 'swiftbase_session' ? encodeURIComponent(JSON.stringify(session)) : null) },
+      })
+
+      await client.ready()
+
+      expect(client.auth.getSession()).toEqual(session)
+      expect(client._config.auth.storage).toBeInstanceOf(CookieStorage)
+      expect(client._config.auth.autoRefresh).toBe(false)
+      expect(client._config.auth.refreshExpiredSession).toBe(true)
+    })
+  })
+
+  describe('offline', () => {
+    it('should switch offline results and queued writes to the signed-in user', async () => {
+      const client = createClient({
+        url: 'http://localhost:8090',
+        auth: { storage: 'memory', autoRefresh: false },
+        offline: { enabled: true },
+      })
+      const setUser = vi.spyOn(client.offline!, 'setUser')
+      await client.ready()
+
+      const payload = btoa(JSON.stringify({ sub: 'user_123', exp: Math.floor(Date.now() / 1000) + 3600 }))
+      await client.auth.setSession({
+        accessToken: `e30.${payload}.sig`,
+        refreshToken: 'refresh_token',
+        expiresAt: Date.now() + 3600000,
+        user: { id: 'user_123', email: 'test@example.com', emailVerified: true, metadata: {}, createdAt: '2024-01-01T00:00:00Z' },
+      })
+
+      expect(setUser).toHaveBeenNthCalledWith(1, null)
+      expect(setUser).toHaveBeenLastCalledWith('user_123')
+    })
+  })
+
+  describe('apiKey', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should authenticate requests and realtime with the key', async () => {
+      const WebSocketMock = vi.fn(function () {
+        return { close: vi.fn() }
+      })
+      vi.stubGlobal('WebSocket', WebSocketMock)
+      const client = createClient({ url: 'http://localhost:8090', apiKey: 'sbk_test' })
+
+      await client.ready()
+      client.realtime.connect()
+
+      expect(client.auth.getSession()).toBeNull()
+      expect(client.auth.isAuthenticated()).toBe(false)
+      expect(WebSocketMock).toHaveBeenCalledWith('ws://localhost:8090/api/realtime?token=sbk_test')
+      client.realtime.disconnect()
+    })
+  })
 })
@@ -216,6 +216,28 @@ describe('Collections', () => {
       )
     })
 
+    it('should create collection with access rules', async () => {
+      const rules = {
+        read: {},
+        create: { ownerId: '$auth.id' },
+        update: { $or: [{ ownerId: '$auth.id' }, { '$auth.role': 'editor' }] },
+        delete: null,
+      }
+      mockHttpClient.request = vi.fn().mockResolvedValue({
+        success: true,
+        collection: { id: 'col_new', name: 'posts', rules, createdAt: '', updatedAt: '' },
+      })
+
+      const result = await collections.create({ name: 'posts', rules })
+
+      expect(result.rules).toEqual(rules)
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: { name: 'posts', rules },
+        })
+      )
+    })
+
     it('should throw AuthError for 401', async () => {
       const error = new SwiftBaseError('Unauthorized', 401)
       mockHttpClient.request = vi.fn().mockRejectedValue(error)
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest'
+import { RequestDeduper } from '../../src/core/dedupe'
+import { HttpClient } from '../../src/core/http'
+import { executeQuery } from '../../src/modules/query/builder'
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  let reject!: (error: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+describe('RequestDeduper', () => {
+  let deduper: RequestDeduper
+
+  beforeEach(() => {
+    deduper = new RequestDeduper({ ttl: 1000 })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should share one in-flight request between identical calls', async () => {
+    const request = vi.fn(async () => ({ items: [1, 2] }))
+
+    const [a, b] = await Promise.all([
+      deduper.run('GET /a', [], request),
+      deduper.run('GET /a', [], request),
+    ])
+
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(a).toEqual({ items: [1, 2] })
+    expect(a).not.toBe(b)
+  })
+
+  it('should reuse responses until the ttl expires', async () => {
+    vi.useFakeTimers()
+    const request = vi.fn(async () => 'data')
+
+    await deduper.run('GET /a', [], request)
+    await deduper.run('GET /a', [], request)
+    expect(request).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(1001)
+    await deduper.run('GET /a', [], request)
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  it('should evict expired responses of other keys when caching', async () => {
+    vi.useFakeTimers()
+    const cache = (deduper as unknown as { cache: Map<string, unknown> }).cache
+
+    await deduper.run('GET /a', [], async () => 'a')
+    await deduper.run('GET /b', [], async () => 'b')
+    vi.advanceTimersByTime(600)
+    await deduper.run('GET /c', [], async () => 'c')
+    expect([...cache.keys()]).toEqual(['GET /a', 'GET /b', 'GET /c'])
+
+    vi.advanceTimersByTime(500)
+    await deduper.run('GET /d', [], async () => 'd')
+
+    expect([...cache.keys()]).toEqual(['GET /c', 'GET /d'])
+  })
+
+  it('should not cache failures', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce('data')
+
+    await expect(deduper.run('GET /a', [], request)).rejects.toThrow('boom')
+    await expect(deduper.run('GET /a', [], request)).resolves.toBe('data')
+  })
+
+  it('should invalidate cached responses by tag', async () => {
+    const request = vi.fn(async () => 'data')
+
+    await deduper.run('products', ['products'], request)
+    await deduper.run('orders', ['orders'], request)
+    deduper.invalidate('products')
+    await deduper.run('products', ['products'], request)
+    await deduper.run('orders', ['orders'], request)
+
+    expect(request).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not cache responses invalidated while in flight', async () => {
+    const pending = deferred<string>()
+    const request = vi.fn()
+      .mockReturnValueOnce(pending.promise)
+      .mockResolvedValueOnce('fresh')
+
+    const first = deduper.run('products', ['products'], request)
+    deduper.invalidate('products')
+    pending.resolve('stale')
+
+    await expect(first).resolves.toBe('stale')
+    await expect(deduper.run('products', ['products'], request)).resolves.toBe('fresh')
+  })
+})
+
+describe('HttpClient deduplication', () => {
+  let mockFetch: Mock
+
+  const jsonResponse = (data: unknown) => ({
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'Content-Type': 'application/json' }),
+    json: async () => data,
+  })
+
+  beforeEach(() => {
+    mockFetch = vi.fn(async () => jsonResponse({ success: true, data: [] }))
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should be disabled by default', async () => {
+    const client = new HttpClient({ baseUrl: 'http://localhost:8090', retry: false })
+
+    await Promise.all([client.get('/api/a'), client.get('/api/a')])
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should coalesce GET requests and opted-in POST requests', async () => {
+    const client = new HttpClient({ baseUrl: 'http://localhost:8090', retry: false, dedupe: {} })
+
+    await Promise.all([
+      client.get('/api/a'),
+      client.get('/api/a'),
+      client.post('/api/query', { action: 'find', collection: 'products' }, { dedupe: true }),
+      client.post('/api/query', { collection: 'products', action: 'find' }, { dedupe: true }),
+      client.post('/api/query', { action: 'find', collection: 'orders' }, { dedupe: true }),
+      client.post('/api/query', { action: 'create', collection: 'orders' }),
+      client.post('/api/query', { action: 'create', collection: 'orders' }),
+    ])
+
+    expect(mockFetch).toHaveBeenCalledTimes(5)
+  })
+
+  it('should not share requests with an abort signal', async () => {
+    const client = new HttpClient({ baseUrl: 'http://localhost:8090', retry: false, dedupe: {} })
+    const controller = new AbortController()
+
+    await Promise.all([
+      client.get('/api/a', { signal: controller.signal }),
+      client.get('/api/a', { signal: controller.signal }),
+    ])
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should drop cached responses when the session changes', async () => {
+    const client = new HttpClient({ baseUrl: 'http://localhost:8090', retry: false, dedupe: {} })
+
+    await client.get('/api/me')
+    client.setAuthHeader('token')
+    await client.get('/api/me')
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('executeQuery with deduplication', () => {
+  let http: HttpClient
+
+  beforeEach(() => {
+    http = {
+      post: vi.fn(async () => ({ success: true, data: [] })),
+      invalidate: vi.fn(),
+    } as unknown as HttpClient
+  })
+
+  it('should tag reads with their collection', async () => {
+    await executeQuery(http, { dedupe: true }, { action: 'find', collection: 'products' })
+
+    expect(http.post).toHaveBeenCalledWith(
+      '/api/query',
+      { action: 'find', collection: 'products' },
+      { dedupe: true, tags: ['products'] }
+    )
+  })
+
+  it('should invalidate the collection after writes, even failed ones', async () => {
+    await executeQuery(http, { dedupe: true }, { action: 'update', collection: 'products', data: {} })
+    ;(http.post as Mock).mockRejectedValueOnce(new Error('boom'))
+    await expect(
+      executeQuery(http, { dedupe: true }, { action: 'delete', collection: 'orders' })
+    ).rejects.toThrow('boom')
+
+    expect(http.invalidate).toHaveBeenNthCalledWith(1, 'products')
+    expect(http.invalidate).toHaveBeenNthCalledWith(2, 'orders')
+  })
+
+  it('should leave requests untouched when disabled', async () => {
+    await executeQuery(http, {}, { action: 'update', collection: 'products', data: {} })
+
+    expect(http.post).toHaveBeenCalledWith('/api/query', { action: 'update', collection: 'products', data: {} })
+    expect(http.invalidate).not.toHaveBeenCalled()
+  })
+})
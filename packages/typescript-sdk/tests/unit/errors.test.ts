@@ -139,6 +139,16 @@ describe('parseErrorResponse', () => {
     expect((error as ValidationError).errors).toEqual(details)
   })
 
+  it('should parse errors nested in the response body', () => {
+    const error = parseErrorResponse(409, {
+      success: false,
+      error: { code: 'TRANSACTION_CONFLICT', message: 'Transaction conflict' },
+    })
+
+    expect(error.message).toBe('Transaction conflict')
+    expect(error.code).toBe('TRANSACTION_CONFLICT')
+  })
+
   it('should handle missing message', () => {
     const error = parseErrorResponse(500, {})
 
@@ -6,6 +6,7 @@ import {
   decodeJwtPayload,
   isTokenExpired,
   generateId,
+  stableStringify,
 } from '../../src/utils/helpers'
 
 describe('deepMerge', () => {
@@ -204,3 +205,17 @@ describe('generateId', () => {
     expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i)
   })
 })
+
+describe('stableStringify', () => {
+  it('should produce the same output regardless of key order', () => {
+    expect(stableStringify({ b: 1, a: { d: 2, c: 3 } })).toBe(stableStringify({ a: { c: 3, d: 2 }, b: 1 }))
+  })
+
+  it('should preserve array order', () => {
+    expect(stableStringify([2, 1])).toBe('[2,1]')
+  })
+
+  it('should omit undefined properties', () => {
+    expect(stableStringify({ a: 1, b: undefined })).toBe('{"a":1}')
+  })
+})
@@ -190,5 +190,24 @@ describe('HttpClient', () => {
       const headers = call[1].headers as Headers
       expect(headers.get('Authorization')).toBeNull()
     })
+
+    it('should send the API key and ignore session tokens', async () => {
+      const keyClient = new HttpClient({ baseUrl: 'http://localhost:8090', retry: false, apiKey: 'sbk_test' })
+      keyClient.setAuthHeader('session-token')
+      keyClient.setAuthHeader(null)
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'Content-Type': 'application/json' }),
+        json: async () => ({}),
+      })
+
+      await keyClient.get('/api/test')
+
+      const call = mockFetch.mock.calls[0] as [string, RequestInit]
+      const headers = call[1].headers as Headers
+      expect(headers.get('Authorization')).toBe('Bearer sbk_test')
+    })
   })
 })
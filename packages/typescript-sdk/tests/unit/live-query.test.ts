@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { QueryBuilder } from '../../src/modules/query/builder'
+import { HttpClient } from '../../src/core/http'
+import type { RealtimeManager } from '../../src/modules/realtime/manager'
+import type { RealtimeCallback, RealtimeEvent } from '../../src/types/realtime'
+import type { LiveQueryResult } from '../../src/types/query'
+
+interface Order {
+  id: string
+  status: string
+  total: number
+}
+
+// Mock HTTP client
+function createMockHttpClient() {
+  return {
+    post: vi.fn(),
+    get: vi.fn(),
+  } as unknown as HttpClient
+}
+
+// Mock realtime manager that lets tests push events
+function createMockRealtime() {
+  const callbacks = new Set<RealtimeCallback>()
+  const unsubscribe = vi.fn()
+  const realtime = {
+    subscribe: vi.fn((_collection: string, callback: RealtimeCallback) => {
+      callbacks.add(callback)
+      return () => {
+        callbacks.delete(callback)
+        unsubscribe()
+      }
+    }),
+  } as unknown as RealtimeManager
+
+  const emit = (event: Partial<RealtimeEvent<Order>> & Pick<RealtimeEvent, 'type' | 'documentId'>) => {
+    for (const callback of callbacks) {
+      callback({ collection: 'orders', ...event })
+    }
+  }
+
+  return { realtime, emit, unsubscribe }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('LiveQuery', () => {
+  let mockHttp: ReturnType<typeof createMockHttpClient>
+  let mock: ReturnType<typeof createMockRealtime>
+  let results: LiveQueryResult<Order>[]
+
+  const builder = () => new QueryBuilder<Order>(mockHttp, 'orders', { realtime: mock.realtime })
+  const last = () => results[results.length - 1]!
+
+  beforeEach(() => {
+    mockHttp = createMockHttpClient()
+    mock = createMockRealtime()
+    results = []
+  })
+
+  it('should throw without a realtime manager', () => {
+    expect(() => new QueryBuilder(mockHttp, 'orders').live()).toThrow('Live queries require a realtime manager')
+  })
+
+  it('should emit the initial result set', async () => {
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({
+      success: true,
+      data: [{ id: 'o1', status: 'open', total: 10 }],
+    })
+
+    builder().where({ status: 'open' }).subscribe((result) => results.push(result))
+    await flush()
+
+    expect(mock.realtime.subscribe).toHaveBeenCalledWith('orders', expect.any(Function))
+    expect(mockHttp.post).toHaveBeenCalledWith('/api/query', expect.objectContaining({
+      action: 'find',
+      query: { where: { status: 'open' } },
+    }))
+    expect(results).toEqual([{
+      data: [{ id: 'o1', status: 'open', total: 10 }],
+      diff: { added: ['o1'], changed: [], removed: [] },
+    }])
+  })
+
+  describe('applying events', () => {
+    beforeEach(async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({
+        success: true,
+        data: [
+          { id: 'o1', status: 'open', total: 30 },
+          { id: 'o2', status: 'open', total: 10 },
+        ],
+      })
+      builder()
+        .where({ status: 'open' })
+        .orderBy('total', 'desc')
+        .subscribe((result) => results.push(result))
+      await flush()
+    })
+
+    it('should insert matching documents in order', () => {
+      mock.emit({ type: 'create', documentId: 'o3', document: { id: 'o3', status: 'open', total: 20 } })
+
+      expect(last().data.map((o) => o.id)).toEqual(['o1', 'o3', 'o2'])
+      expect(last().diff).toEqual({ added: ['o3'], changed: [], removed: [] })
+    })
+
+    it('should ignore documents that do not match', () => {
+      mock.emit({ type: 'create', documentId: 'o3', document: { id: 'o3', status: 'closed', total: 20 } })
+
+      expect(results).toHaveLength(1)
+    })
+
+    it('should move updated documents', () => {
+      mock.emit({ type: 'update', documentId: 'o2', document: { id: 'o2', status: 'open', total: 50 } })
+
+      expect(last().data.map((o) => o.id)).toEqual(['o2', 'o1'])
+      expect(last().diff).toEqual({ added: [], changed: ['o2'], removed: [] })
+    })
+
+    it('should remove documents that stop matching', () => {
+      mock.emit({ type: 'update', documentId: 'o1', document: { id: 'o1', status: 'closed', total: 30 } })
+
+      expect(last().data.map((o) => o.id)).toEqual(['o2'])
+      expect(last().diff).toEqual({ added: [], changed: [], removed: ['o1'] })
+    })
+
+    it('should remove deleted documents', () => {
+      mock.emit({ type: 'delete', documentId: 'o2' })
+
+      expect(last().data.map((o) => o.id)).toEqual(['o1'])
+      expect(last().diff.removed).toEqual(['o2'])
+    })
+
+    it('should not emit for unchanged documents', () => {
+      mock.emit({ type: 'update', documentId: 'o1', document: { id: 'o1', status: 'open', total: 30 } })
+
+      expect(results).toHaveLength(1)
+    })
+  })
+
+  describe('with limit', () => {
+    beforeEach(async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({
+        success: true,
+        data: [
+          { id: 'o1', status: 'open', total: 30 },
+          { id: 'o2', status: 'open', total: 20 },
+        ],
+      })
+      builder()
+        .orderBy('total', 'desc')
+        .limit(2)
+        .subscribe((result) => results.push(result))
+      await flush()
+    })
+
+    it('should push documents out of a full window', () => {
+      mock.emit({ type: 'create', documentId: 'o3', document: { id: 'o3', status: 'open', total: 40 } })
+
+      expect(last().data.map((o) => o.id)).toEqual(['o3', 'o1'])
+      expect(last().diff).toEqual({ added: ['o3'], changed: [], removed: ['o2'] })
+      expect(mockHttp.post).toHaveBeenCalledTimes(1)
+    })
+
+    it('should ignore documents that sort outside the window', () => {
+      mock.emit({ type: 'create', documentId: 'o3', document: { id: 'o3', status: 'open', total: 5 } })
+
+      expect(results).toHaveLength(1)
+    })
+
+    it('should re-fetch to backfill a full window', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({
+        success: true,
+        data: [
+          { id: 'o2', status: 'open', total: 20 },
+          { id: 'o4', status: 'open', total: 15 },
+        ],
+      })
+
+      mock.emit({ type: 'delete', documentId: 'o1' })
+      await flush()
+
+      expect(mockHttp.post).toHaveBeenCalledTimes(2)
+      expect(last().data.map((o) => o.id)).toEqual(['o2', 'o4'])
+      expect(last().diff).toEqual({ added: ['o4'], changed: [], removed: ['o1'] })
+    })
+  })
+
+  it('should re-fetch on every relevant event when an offset is set', async () => {
+    ;(mockHttp.post as Mock).mockResolvedValue({ success: true, data: [] })
+
+    builder().offset(10).subscribe((result) => results.push(result))
+    await flush()
+    mock.emit({ type: 'delete', documentId: 'o1' })
+    await flush()
+
+    expect(mockHttp.post).toHaveBeenCalledTimes(2)
+  })
+
+  it('should apply select fields to event documents', async () => {
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: [] })
+
+    const selected: LiveQueryResult<Pick<Order, 'id' | 'total'>>[] = []
+    builder().select(['total']).subscribe((result) => selected.push(result))
+    await flush()
+    mock.emit({ type: 'create', documentId: 'o1', document: { id: 'o1', status: 'open', total: 10 } })
+
+    expect(selected[selected.length - 1]!.data).toEqual([{ id: 'o1', total: 10 }])
+  })
+
+  it('should replay events received during the initial fetch', async () => {
+    let resolveFetch: (value: unknown) => void = () => {}
+    ;(mockHttp.post as Mock).mockReturnValueOnce(new Promise((resolve) => { resolveFetch = resolve }))
+
+    builder().subscribe((result) => results.push(result))
+    mock.emit({ type: 'create', documentId: 'o2', document: { id: 'o2', status: 'open', total: 1 } })
+    resolveFetch({ success: true, data: [{ id: 'o1', status: 'open', total: 5 }] })
+    await flush()
+
+    expect(last().data.map((o) => o.id)).toEqual(['o1', 'o2'])
+  })
+
+  it('should report fetch errors', async () => {
+    ;(mockHttp.post as Mock).mockRejectedValueOnce(new Error('Boom'))
+    const onError = vi.fn()
+
+    builder().subscribe((result) => results.push(result), onError)
+    await flush()
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Boom' }))
+    expect(results).toHaveLength(0)
+  })
+
+  it('should share one subscription between listeners and stop after the last', async () => {
+    ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: [{ id: 'o1', status: 'open', total: 1 }] })
+
+    const live = builder().live()
+    const first = live.subscribe(() => {})
+    await flush()
+    const second = vi.fn()
+    const unsubscribeSecond = live.subscribe(second)
+
+    expect(second).toHaveBeenCalledWith(expect.objectContaining({ diff: { added: ['o1'], changed: [], removed: [] } }))
+    expect(mock.realtime.subscribe).toHaveBeenCalledTimes(1)
+
+    first()
+    expect(mock.unsubscribe).not.toHaveBeenCalled()
+    unsubscribeSecond()
+    expect(mock.unsubscribe).toHaveBeenCalledTimes(1)
+    expect(live.getData()).toEqual([])
+  })
+})
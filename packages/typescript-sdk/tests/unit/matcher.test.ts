@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest'
+import { matches, getFieldValue, createComparator } from '../../src/modules/query/matcher'
+import { applyUpdate } from '../../src/modules/query/update'
+import { QueryError } from '../../src/core/errors'
+
+const product = {
+  id: 'p1',
+  name: 'Pro Keyboard',
+  price: 75,
+  active: true,
+  tags: ['sale', 'new'],
+  stock: { warehouse: 12, store: 0 },
+  variants: [{ sku: 'kb-1', color: 'black' }],
+  discontinued: null,
+}
+
+describe('getFieldValue', () => {
+  it('should read top-level and dotted paths', () => {
+    expect(getFieldValue(product, 'price')).toBe(75)
+    expect(getFieldValue(product, 'stock.warehouse')).toBe(12)
+    expect(getFieldValue(product, 'variants.0.sku')).toBe('kb-1')
+  })
+
+  it('should return undefined for missing paths', () => {
+    expect(getFieldValue(product, 'stock.online')).toBeUndefined()
+    expect(getFieldValue(product, 'price.amount')).toBeUndefined()
+  })
+
+  it('should not read inherited properties', () => {
+    expect(getFieldValue(product, 'constructor')).toBeUndefined()
+    expect(getFieldValue(product, 'stock.__proto__')).toBeUndefined()
+  })
+})
+
+describe('matches', () => {
+  it('should match literal equality', () => {
+    expect(matches(product, { active: true, name: 'Pro Keyboard' })).toBe(true)
+    expect(matches(product, { active: false })).toBe(false)
+    expect(matches(product, { tags: ['sale', 'new'] })).toBe(true)
+  })
+
+  it('should match an empty where clause', () => {
+    expect(matches(product, {})).toBe(true)
+  })
+
+  describe('comparison operators', () => {
+    it.each([
+      [{ price: { $eq: 75 } }, true],
+      [{ price: { $ne: 75 } }, false],
+      [{ price: { $ne: 80 } }, true],
+      [{ price: { $gt: 74 } }, true],
+      [{ price: { $gt: 75 } }, false],
+      [{ price: { $gte: 75 } }, true],
+      [{ price: { $lt: 75 } }, false],
+      [{ price: { $lte: 75 } }, true],
+      [{ price: { $gte: 50, $lte: 100 } }, true],
+      [{ name: { $gt: 'Alpha' } }, true],
+      [{ price: { $in: [50, 75] } }, true],
+      [{ price: { $in: [50] } }, false],
+      [{ price: { $nin: [50] } }, true],
+      [{ price: { $nin: [75] } }, false],
+      [{ price: { $exists: true } }, true],
+      [{ missing: { $exists: false } }, true],
+      [{ discontinued: { $exists: true } }, false],
+      [{ name: { $regex: '^Pro' } }, true],
+      [{ name: { $regex: 'board$' } }, true],
+      [{ name: { $regex: '^Key' } }, false],
+      [{ name: { $regex: '^pro keyboard$' } }, true],
+    ])('%j -> %s', (where, expected) => {
+      expect(matches(product, where)).toBe(expected)
+    })
+
+    it('should not satisfy comparisons on missing fields', () => {
+      expect(matches(product, { missing: { $ne: 1 } })).toBe(false)
+      expect(matches(product, { missing: { $nin: [1] } })).toBe(false)
+      expect(matches(product, { missing: { $lt: 1 } })).toBe(false)
+    })
+
+    it('should not compare values of different types', () => {
+      expect(matches(product, { price: { $gt: '50' } })).toBe(false)
+    })
+
+    it('should treat an invalid regex as no match', () => {
+      expect(matches(product, { name: { $regex: '(' } })).toBe(false)
+    })
+
+    it('should evaluate operators on dotted paths', () => {
+      expect(matches(product, { 'stock.warehouse': { $gte: 10 } })).toBe(true)
+      expect(matches(product, { 'variants.0.color': 'black' })).toBe(true)
+    })
+  })
+
+  describe('logical operators', () => {
+    it('should evaluate $and', () => {
+      expect(matches(product, { $and: [{ active: true }, { price: { $lt: 100 } }] })).toBe(true)
+      expect(matches(product, { $and: [{ active: true }, { price: { $gt: 100 } }] })).toBe(false)
+    })
+
+    it('should evaluate $or', () => {
+      expect(matches(product, { $or: [{ active: false }, { price: 75 }] })).toBe(true)
+      expect(matches(product, { $or: [{ active: false }, { price: 10 }] })).toBe(false)
+    })
+
+    it('should evaluate $not', () => {
+      expect(matches(product, { $not: { active: false } })).toBe(true)
+      expect(matches(product, { $not: { active: true } })).toBe(false)
+    })
+
+    it('should combine logical operators with field conditions', () => {
+      expect(matches(product, {
+        active: true,
+        $or: [{ 'stock.store': { $gt: 0 } }, { 'stock.warehouse': { $gt: 0 } }],
+        $not: { tags: [] },
+      })).toBe(true)
+    })
+  })
+})
+
+describe('createComparator', () => {
+  it('should sort by multiple fields and directions', () => {
+    const items = [
+      { id: 'a', group: 2, name: 'b' },
+      { id: 'b', group: 1, name: 'z' },
+      { id: 'c', group: 2, name: 'a' },
+    ]
+
+    const sorted = [...items].sort(createComparator({ group: 'desc', name: 'asc' }))
+
+    expect(sorted.map((item) => item.id)).toEqual(['c', 'a', 'b'])
+  })
+
+  it('should sort missing values first in ascending order', () => {
+    const sorted = [{ id: 'a', n: 1 }, { id: 'b' }].sort(createComparator({ n: 'asc' }))
+
+    expect(sorted.map((item) => item.id)).toEqual(['b', 'a'])
+  })
+})
+
+describe('applyUpdate', () => {
+  it('should not modify the input document', () => {
+    const original = structuredClone(product)
+
+    applyUpdate(product, { $set: { 'stock.store': 5 }, $push: { tags: 'x' } })
+
+    expect(product).toEqual(original)
+  })
+
+  it('should apply $set on top-level and dotted paths', () => {
+    const result = applyUpdate(product, { $set: { price: 80, 'stock.store': 3, 'meta.source': 'import' } })
+
+    expect(result.price).toBe(80)
+    expect(result.stock).toEqual({ warehouse: 12, store: 3 })
+    expect((result as Record<string, unknown>).meta).toEqual({ source: 'import' })
+  })
+
+  it('should treat an update without operators as $set', () => {
+    expect(applyUpdate(product, { price: 90 }).price).toBe(90)
+  })
+
+  it('should apply $unset', () => {
+    const result = applyUpdate(product, { $unset: { price: true, 'stock.store': true } })
+
+    expect('price' in result).toBe(false)
+    expect(result.stock).toEqual({ warehouse: 12 })
+  })
+
+  it('should apply $inc, treating missing fields as 0', () => {
+    const result = applyUpdate(product, { $inc: { price: -5, 'stock.store': 2, views: 1 } })
+
+    expect(result.price).toBe(70)
+    expect(result.stock.store).toBe(2)
+    expect((result as Record<string, unknown>).views).toBe(1)
+  })
+
+  it('should reject $inc on non-numbers', () => {
+    expect(() => applyUpdate(product, { $inc: { name: 1 } })).toThrow(QueryError)
+  })
+
+  it('should apply $push, creating missing arrays', () => {
+    const result = applyUpdate(product, { $push: { tags: 'sale', related: 'p2' } })
+
+    expect(result.tags).toEqual(['sale', 'new', 'sale'])
+    expect((result as Record<string, unknown>).related).toEqual(['p2'])
+  })
+
+  it('should reject array operators on non-arrays', () => {
+    expect(() => applyUpdate(product, { $push: { price: 1 } })).toThrow(QueryError)
+  })
+
+  it('should apply $pull by value and by condition', () => {
+    expect(applyUpdate(product, { $pull: { tags: 'sale' } }).tags).toEqual(['new'])
+    expect(applyUpdate({ scores: [1, 5, 9] }, { $pull: { scores: { $gte: 5 } } }).scores).toEqual([1])
+  })
+
+  it('should reject paths that reach the prototype chain', () => {
+    for (const path of ['__proto__.polluted', 'constructor.prototype.polluted', 'stock.__proto__.polluted']) {
+      expect(() => applyUpdate({ stock: {} }, { $set: { [path]: 'yes' } })).toThrow(QueryError)
+    }
+    expect(() => applyUpdate({}, { $unset: { '__proto__.toString': true } })).toThrow(QueryError)
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+
+  it('should not copy __proto__ keys from values', () => {
+    const result = applyUpdate({}, { $set: { meta: JSON.parse('{"__proto__": {"polluted": "yes"}}') } })
+
+    expect((result as { meta: Record<string, unknown> }).meta.polluted).toBeUndefined()
+  })
+
+  it('should apply $addToSet only for new values', () => {
+    expect(applyUpdate(product, { $addToSet: { tags: 'sale' } }).tags).toEqual(['sale', 'new'])
+    expect(applyUpdate(product, { $addToSet: { tags: 'hot' } }).tags).toEqual(['sale', 'new', 'hot'])
+  })
+})
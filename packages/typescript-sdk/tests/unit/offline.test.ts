@@ -0,0 +1,321 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { OfflineManager } from '../../src/modules/offline/manager'
+import { MemoryOfflineStore, createOfflineStore } from '../../src/modules/offline/store'
+import { QueryBuilder } from '../../src/modules/query/builder'
+import { HttpClient } from '../../src/core/http'
+import { NetworkError, SwiftBaseError } from '../../src/core/errors'
+import type { QueuedMutation } from '../../src/types/offline'
+
+// Mock HTTP client
+function createMockHttpClient() {
+  return {
+    post: vi.fn(),
+    get: vi.fn(),
+  } as unknown as HttpClient
+}
+
+const networkError = () => new NetworkError('Network error', 'NETWORK_ERROR')
+
+describe('OfflineManager', () => {
+  let mockHttp: ReturnType<typeof createMockHttpClient>
+  let store: MemoryOfflineStore
+  let offline: OfflineManager
+
+  beforeEach(() => {
+    mockHttp = createMockHttpClient()
+    store = new MemoryOfflineStore()
+    offline = new OfflineManager(mockHttp, { store })
+  })
+
+  describe('reads', () => {
+    const request = { action: 'find' as const, collection: 'products', query: { limit: 10 } }
+
+    it('should cache successful reads', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: [{ id: '1' }] })
+
+      const result = await offline.execute(request)
+
+      expect(result.data).toEqual([{ id: '1' }])
+      expect(offline.isOnline()).toBe(true)
+    })
+
+    it('should serve cached reads when the network is down', async () => {
+      ;(mockHttp.post as Mock)
+        .mockResolvedValueOnce({ success: true, data: [{ id: '1' }] })
+        .mockRejectedValueOnce(networkError())
+
+      await offline.execute(request)
+      const result = await offline.execute(request)
+
+      expect(result.data).toEqual([{ id: '1' }])
+      expect(offline.isOnline()).toBe(false)
+    })
+
+    it('should key the cache by request regardless of property order', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: [{ id: '1' }] })
+      await offline.execute(request)
+
+      offline.setOnline(false)
+      const result = await offline.execute({ query: { limit: 10 }, collection: 'products', action: 'find' })
+
+      expect(result.data).toEqual([{ id: '1' }])
+      expect(mockHttp.post).toHaveBeenCalledTimes(1)
+    })
+
+    it('should rethrow when offline and nothing is cached', async () => {
+      ;(mockHttp.post as Mock).mockRejectedValueOnce(networkError())
+
+      await expect(offline.execute(request)).rejects.toBeInstanceOf(NetworkError)
+    })
+
+    it('should not fall back to the cache on server errors', async () => {
+      ;(mockHttp.post as Mock)
+        .mockResolvedValueOnce({ success: true, data: [] })
+        .mockRejectedValueOnce(new SwiftBaseError('Boom', 500, 'INTERNAL'))
+
+      await offline.execute(request)
+
+      await expect(offline.execute(request)).rejects.toThrow('Boom')
+    })
+  })
+
+  describe('writes', () => {
+    it('should send writes directly when online', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: { id: 'p1', name: 'A' } })
+
+      const result = await offline.execute({ action: 'create', collection: 'products', data: { name: 'A' } })
+
+      expect(result.data).toEqual({ id: 'p1', name: 'A' })
+      expect(await offline.getPendingMutations()).toHaveLength(0)
+    })
+
+    it('should queue writes when the network is down', async () => {
+      ;(mockHttp.post as Mock).mockRejectedValueOnce(networkError())
+
+      const result = await offline.execute<{ id: string; name: string }>({
+        action: 'create',
+        collection: 'products',
+        data: { name: 'A' },
+      })
+
+      const pending = await offline.getPendingMutations()
+      expect(pending).toHaveLength(1)
+      expect(result.data.name).toBe('A')
+      expect(result.data.id).toBe(pending[0]!.id)
+      expect(store.get<QueuedMutation[]>('swiftbase_offline_queue:anonymous')).toHaveLength(1)
+    })
+
+    it('should queue writes without a request when known to be offline', async () => {
+      offline.setOnline(false)
+
+      const result = await offline.execute({
+        action: 'update',
+        collection: 'products',
+        data: { $set: { active: false } },
+      })
+
+      expect(result.data).toEqual({ modified: 0 })
+      expect(mockHttp.post).not.toHaveBeenCalled()
+    })
+
+    it('should not queue timed out writes', async () => {
+      ;(mockHttp.post as Mock).mockRejectedValueOnce(new NetworkError('Request timed out', 'TIMEOUT'))
+
+      await expect(
+        offline.execute({ action: 'delete', collection: 'products' })
+      ).rejects.toBeInstanceOf(NetworkError)
+      expect(await offline.getPendingMutations()).toHaveLength(0)
+    })
+
+    it('should notify queue listeners', async () => {
+      const listener = vi.fn()
+      offline.onQueueChange(listener)
+      offline.setOnline(false)
+
+      await offline.execute({ action: 'delete', collection: 'products' })
+
+      expect(listener).toHaveBeenCalledWith([expect.objectContaining({ request: expect.objectContaining({ action: 'delete' }) })])
+    })
+
+    it('should restore a persisted queue', async () => {
+      const queued: QueuedMutation = {
+        id: 'm1',
+        request: { action: 'delete', collection: 'products' },
+        queuedAt: Date.now(),
+      }
+      store.set('swiftbase_offline_queue:anonymous', [queued])
+
+      const restored = new OfflineManager(mockHttp, { store })
+
+      expect(await restored.getPendingMutations()).toEqual([queued])
+    })
+  })
+
+  describe('users', () => {
+    const request = { action: 'find' as const, collection: 'orders' }
+
+    it('should not serve cached reads of another user', async () => {
+      offline.setUser('user_a')
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: [{ id: 'a1' }] })
+      await offline.execute(request)
+
+      offline.setUser('user_b')
+      offline.setOnline(false)
+      ;(mockHttp.post as Mock).mockRejectedValueOnce(networkError())
+
+      await expect(offline.execute(request)).rejects.toBeInstanceOf(NetworkError)
+
+      offline.setUser('user_a')
+      expect((await offline.execute(request)).data).toEqual([{ id: 'a1' }])
+    })
+
+    it('should keep queued writes with the user who made them', async () => {
+      offline.setUser('user_a')
+      offline.setOnline(false)
+      await offline.execute({ action: 'delete', collection: 'orders', query: { where: { id: 'o1' } } })
+
+      offline.setUser('user_b')
+      expect(await offline.getPendingMutations()).toEqual([])
+      ;(mockHttp.post as Mock).mockResolvedValue({ success: true, data: {} })
+      expect(await offline.flush()).toEqual({ replayed: 0, discarded: 0, remaining: 0 })
+      expect(mockHttp.post).not.toHaveBeenCalled()
+
+      offline.setUser('user_a')
+      expect(await offline.getPendingMutations()).toHaveLength(1)
+    })
+
+    it('should stop replaying when the user changes', async () => {
+      offline.setUser('user_a')
+      offline.setOnline(false)
+      await offline.execute({ action: 'create', collection: 'orders', data: { n: 1 } })
+      await offline.execute({ action: 'create', collection: 'orders', data: { n: 2 } })
+
+      ;(mockHttp.post as Mock).mockImplementationOnce(async () => {
+        offline.setUser('user_b')
+        return { success: true, data: {} }
+      })
+      const result = await offline.flush()
+
+      expect(result).toEqual({ replayed: 1, discarded: 0, remaining: 1 })
+      expect(mockHttp.post).toHaveBeenCalledTimes(1)
+      expect(store.get('swiftbase_offline_queue:user_a')).toHaveLength(1)
+    })
+
+    it('should remove the oldest cached reads beyond maxEntries', async () => {
+      const limited = new OfflineManager(mockHttp, { store, maxEntries: 2 })
+      ;(mockHttp.post as Mock).mockResolvedValue({ success: true, data: [] })
+
+      for (const collection of ['a', 'b', 'c']) {
+        await limited.execute({ action: 'find', collection })
+      }
+
+      expect(store.get('swiftbase_offline_cache:anonymous:{"action":"find","collection":"a"}')).toBeNull()
+      expect(store.get('swiftbase_offline_cache:anonymous:{"action":"find","collection":"c"}')).not.toBeNull()
+      expect(store.get('swiftbase_offline_cache_keys:anonymous')).toHaveLength(2)
+    })
+  })
+
+  describe('flush', () => {
+    beforeEach(async () => {
+      offline.setOnline(false)
+      await offline.execute({ action: 'create', collection: 'products', data: { name: 'A' } })
+      await offline.execute({ action: 'create', collection: 'products', data: { name: 'B' } })
+    })
+
+    it('should replay queued writes in order', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValue({ success: true, data: {} })
+
+      const result = await offline.flush()
+
+      expect(result).toEqual({ replayed: 2, discarded: 0, remaining: 0 })
+      expect((mockHttp.post as Mock).mock.calls.map(([, body]) => body.data.name)).toEqual(['A', 'B'])
+    })
+
+    it('should replay automatically when coming back online', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValue({ success: true, data: {} })
+
+      offline.setOnline(true)
+
+      await vi.waitFor(async () => {
+        expect(await offline.getPendingMutations()).toHaveLength(0)
+      })
+      expect(mockHttp.post).toHaveBeenCalledTimes(2)
+    })
+
+    it('should stop at the first network failure', async () => {
+      ;(mockHttp.post as Mock)
+        .mockResolvedValueOnce({ success: true, data: {} })
+        .mockRejectedValueOnce(networkError())
+
+      const result = await offline.flush()
+
+      expect(result).toEqual({ replayed: 1, discarded: 0, remaining: 1 })
+      expect(offline.isOnline()).toBe(false)
+    })
+
+    it('should discard rejected writes by default', async () => {
+      ;(mockHttp.post as Mock)
+        .mockRejectedValueOnce(new SwiftBaseError('Conflict', 409, 'CONFLICT'))
+        .mockResolvedValueOnce({ success: true, data: {} })
+
+      const result = await offline.flush()
+
+      expect(result).toEqual({ replayed: 1, discarded: 1, remaining: 0 })
+    })
+
+    it('should call the conflict handler and honor its resolution', async () => {
+      const onConflict = vi.fn().mockResolvedValueOnce('keep')
+      const withHandler = new OfflineManager(mockHttp, { store, onConflict })
+      ;(mockHttp.post as Mock).mockRejectedValueOnce(new SwiftBaseError('Conflict', 409, 'CONFLICT'))
+
+      const result = await withHandler.flush()
+
+      expect(onConflict).toHaveBeenCalledWith(
+        expect.objectContaining({ request: expect.objectContaining({ data: { name: 'A' } }) }),
+        expect.any(SwiftBaseError)
+      )
+      expect(result).toEqual({ replayed: 0, discarded: 0, remaining: 2 })
+    })
+
+    it('should retry with a replacement request from the conflict handler', async () => {
+      const onConflict = vi.fn().mockReturnValueOnce({
+        action: 'create',
+        collection: 'products',
+        data: { name: 'A2' },
+      })
+      const withHandler = new OfflineManager(mockHttp, { store, onConflict })
+      ;(mockHttp.post as Mock)
+        .mockRejectedValueOnce(new SwiftBaseError('Conflict', 409, 'CONFLICT'))
+        .mockResolvedValue({ success: true, data: {} })
+
+      const result = await withHandler.flush()
+
+      expect(result).toEqual({ replayed: 2, discarded: 0, remaining: 0 })
+      expect((mockHttp.post as Mock).mock.calls[1]![1].data).toEqual({ name: 'A2' })
+    })
+  })
+})
+
+describe('createOfflineStore', () => {
+  it('should fall back to memory when IndexedDB is unavailable', () => {
+    expect(createOfflineStore('indexedDB')).toBeInstanceOf(MemoryOfflineStore)
+  })
+
+  it('should return custom stores as-is', () => {
+    const custom = { get: () => null, set: () => {}, remove: () => {} }
+    expect(createOfflineStore(custom)).toBe(custom)
+  })
+})
+
+describe('QueryBuilder with offline manager', () => {
+  it('should route requests through the offline manager', async () => {
+    const mockHttp = createMockHttpClient()
+    const offline = new OfflineManager(mockHttp, { store: 'memory' })
+    const execute = vi.spyOn(offline, 'execute').mockResolvedValueOnce({ success: true, data: [] })
+
+    await new QueryBuilder(mockHttp, 'products', { offline }).where({ active: true }).find()
+
+    expect(execute).toHaveBeenCalledWith(expect.objectContaining({ action: 'find', collection: 'products' }))
+    expect(mockHttp.post).not.toHaveBeenCalled()
+  })
+})
@@ -1,6 +1,7 @@
-import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { describe, it, expect, expectTypeOf, vi, beforeEach, type Mock } from 'vitest'
 import { QueryBuilder, QueryService } from '../../src/modules/query/builder'
 import { HttpClient } from '../../src/core/http'
+import type { WhereClause } from '../../src/types/query'
 
 // Mock HTTP client
 function createMockHttpClient() {
@@ -317,6 +318,282 @@ describe('QueryBuilder', () => {
     })
   })
 
+  describe('cursor pagination', () => {
+    const rows = (...ids: number[]) => ids.map((n) => ({ id: `p${n}`, price: n * 10, name: `Product ${n}` }))
+
+    it('should request one extra row and derive the next cursor', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: rows(1, 2, 3) })
+
+      const page = await builder.orderBy('price', 'desc').limit(2).paginate()
+
+      expect(mockHttp.post).toHaveBeenCalledWith('/api/query', {
+        action: 'find',
+        collection: 'products',
+        query: { orderBy: { price: 'desc', id: 'asc' }, limit: 3 },
+      })
+      expect(page.items).toEqual(rows(1, 2))
+      expect(page.hasMore).toBe(true)
+      expect(page.nextCursor).toEqual(expect.any(String))
+    })
+
+    it('should return a null cursor on the last page', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: rows(1) })
+
+      const page = await builder.limit(2).paginate()
+
+      expect(page).toEqual({ items: rows(1), nextCursor: null, hasMore: false })
+    })
+
+    it('should build a keyset condition from the cursor', async () => {
+      ;(mockHttp.post as Mock)
+        .mockResolvedValueOnce({ success: true, data: rows(1, 2, 3) })
+        .mockResolvedValueOnce({ success: true, data: [] })
+
+      const first = await builder.where({ active: true }).orderBy('price', 'desc').limit(2).offset(5).paginate()
+      await builder.after(first.nextCursor).paginate()
+
+      expect((mockHttp.post as Mock).mock.calls[1]![1].query).toEqual({
+        where: {
+          $and: [
+            { active: true },
+            {
+              $or: [
+                { $or: [{ price: { $lt: 20 } }, { price: null }] },
+                { price: 20, id: { $gt: 'p2' } },
+              ],
+            },
+          ],
+        },
+        orderBy: { price: 'desc', id: 'asc' },
+        limit: 3,
+      })
+    })
+
+    it('should match null cursor values explicitly', async () => {
+      const noPrice = [{ id: 'p1', price: null }, { id: 'p2' }]
+      ;(mockHttp.post as Mock).mockResolvedValue({ success: true, data: noPrice })
+
+      const asc = await builder.orderBy('price', 'asc').limit(1).paginate()
+      await builder.orderBy('price', 'asc').after(asc.nextCursor).paginate()
+      const desc = await builder.orderBy('price', 'desc').limit(1).paginate()
+      await builder.orderBy('price', 'desc').after(desc.nextCursor).paginate()
+
+      const where = (call: number) => (mockHttp.post as Mock).mock.calls[call]![1].query.where
+      expect(where(1)).toEqual({
+        $or: [{ price: { $ne: null } }, { price: null, id: { $gt: 'p1' } }],
+      })
+      expect(where(3)).toEqual({ price: null, id: { $gt: 'p1' } })
+    })
+
+    it('should reject cursors from a differently ordered query', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: rows(1, 2) })
+      const { nextCursor } = await builder.orderBy('price', 'asc').limit(1).paginate()
+
+      const other = new QueryBuilder(mockHttp, 'products').orderBy('name', 'asc').after(nextCursor)
+
+      await expect(other.paginate()).rejects.toThrow('Cursor does not match the query order')
+    })
+
+    it('should reject malformed cursors', async () => {
+      await expect(builder.after('not-a-cursor').paginate()).rejects.toThrow('Invalid cursor')
+    })
+
+    it('should fetch cursor fields that are not selected and strip them', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: rows(1, 2) })
+
+      const page = await builder.select(['name']).orderBy('price', 'asc').limit(1).paginate()
+
+      expect((mockHttp.post as Mock).mock.calls[0]![1].query.select).toEqual(['name', 'price'])
+      expect(page.items).toEqual([{ id: 'p1', name: 'Product 1' }])
+      expect(page.nextCursor).toEqual(expect.any(String))
+    })
+  })
+
+  describe('async iteration', () => {
+    it('should stream documents page by page', async () => {
+      ;(mockHttp.post as Mock)
+        .mockResolvedValueOnce({ success: true, data: [{ id: 'a' }, { id: 'b' }, { id: 'c' }] })
+        .mockResolvedValueOnce({ success: true, data: [{ id: 'c' }] })
+
+      const ids: string[] = []
+      for await (const doc of builder.limit(2)) {
+        ids.push((doc as { id: string }).id)
+      }
+
+      expect(ids).toEqual(['a', 'b', 'c'])
+      expect(mockHttp.post).toHaveBeenCalledTimes(2)
+      expect((mockHttp.post as Mock).mock.calls[1]![1].query.where).toEqual({ id: { $gt: 'b' } })
+    })
+
+    it('should fetch pages lazily', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValue({ success: true, data: [{ id: 'a' }, { id: 'b' }] })
+
+      for await (const page of builder.limit(1).pages()) {
+        expect(page.items).toEqual([{ id: 'a' }])
+        break
+      }
+
+      expect(mockHttp.post).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('search', () => {
+    it('should send the search with the query filters and return ranked hits', async () => {
+      const hits = [
+        { document: { id: 'p1', name: 'Wireless headphones' }, score: 2.4, highlights: { name: ['<mark>Wireless</mark> headphones'] } },
+        { document: { id: 'p2', name: 'Wired headphones' }, score: 1.1, highlights: { name: ['Wired <mark>headphones</mark>'] } },
+      ]
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: hits })
+
+      const result = await builder
+        .where({ active: true })
+        .orderBy('price')
+        .limit(20)
+        .search('wireless headphones', { fields: ['name'], fuzzy: true, highlight: true })
+
+      expect(mockHttp.post).toHaveBeenCalledWith('/api/query', {
+        action: 'search',
+        collection: 'products',
+        query: { where: { active: true }, limit: 20 },
+        search: { text: 'wireless headphones', fields: ['name'], fuzzy: true, highlight: true },
+      })
+      expect(result).toEqual(hits)
+    })
+
+    it('should not send empty searches', async () => {
+      const result = await builder.search('  ')
+
+      expect(result).toEqual([])
+      expect(mockHttp.post).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('aggregation', () => {
+    it('should send the pipeline through the query endpoint', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: [{ _id: null, revenue: 120 }] })
+
+      const result = await builder.aggregate([
+        { $group: { _id: null, revenue: { $sum: '$price' } } },
+      ])
+
+      expect(mockHttp.post).toHaveBeenCalledWith('/api/query', {
+        action: 'aggregate',
+        collection: 'products',
+        pipeline: [{ $group: { _id: null, revenue: { $sum: '$price' } } }],
+      })
+      expect(result).toEqual([{ _id: null, revenue: 120 }])
+    })
+
+    it('should prepend the where clause as a $match stage', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: [] })
+
+      await builder.where({ active: true }).aggregate([{ $unwind: '$tags' }, { $limit: 5 }])
+
+      const request = (mockHttp.post as Mock).mock.calls[0]![1]
+      expect(request.pipeline).toEqual([
+        { $match: { active: true } },
+        { $unwind: '$tags' },
+        { $limit: 5 },
+      ])
+    })
+
+    it('should return distinct values through find', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({
+        success: true,
+        data: ['books', 'games'],
+      })
+
+      const categories = await builder.where({ active: true }).limit(5).distinct('category')
+
+      expect(categories).toEqual(['books', 'games'])
+      expect(mockHttp.post).toHaveBeenCalledWith('/api/query', {
+        action: 'find',
+        collection: 'products',
+        query: { distinct: 'category', orderBy: { category: 'asc' }, where: { active: true } },
+      })
+    })
+
+    it('should count documents per group', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({
+        success: true,
+        data: [{ _id: 'books', count: 3 }],
+      })
+
+      const groups = await builder.groupBy('category').count()
+
+      expect(groups).toEqual([{ _id: 'books', count: 3 }])
+      expect((mockHttp.post as Mock).mock.calls[0]![1].pipeline).toEqual([
+        { $group: { _id: '$category', count: { $count: {} } } },
+        { $sort: { _id: 'asc' } },
+      ])
+    })
+
+    it('should compute field accumulators per group', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValue({ success: true, data: [] })
+
+      await builder.groupBy('category').sum('price')
+      await builder.groupBy('category').avg('stock.warehouse')
+
+      const calls = (mockHttp.post as Mock).mock.calls
+      expect(calls[0]![1].pipeline[0]).toEqual({ $group: { _id: '$category', sum: { $sum: '$price' } } })
+      expect(calls[1]![1].pipeline[0]).toEqual({ $group: { _id: '$category', avg: { $avg: '$stock.warehouse' } } })
+    })
+  })
+
+  describe('typed documents', () => {
+    interface Product {
+      id: string
+      name: string
+      price: number
+      active?: boolean
+      tags: string[]
+      address: { city: string }
+    }
+
+    let typed: QueryBuilder<Product>
+
+    beforeEach(() => {
+      typed = new QueryBuilder<Product>(mockHttp, 'products')
+    })
+
+    it('should accept field paths and operators matching the field types', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: [] })
+
+      await typed
+        .where({ price: { $gte: 10 }, 'address.city': 'Oslo', tags: { $exists: true } })
+        .orderBy('address.city')
+        .find()
+
+      expect(mockHttp.post).toHaveBeenCalledWith('/api/query', expect.objectContaining({
+        query: {
+          where: { price: { $gte: 10 }, 'address.city': 'Oslo', tags: { $exists: true } },
+          orderBy: { 'address.city': 'asc' },
+        },
+      }))
+
+      const misspelled: WhereClause<Product> = {
+        // @ts-expect-error unknown field
+        nmae: 'x',
+      }
+      expect(misspelled).toBeDefined()
+      // @ts-expect-error range operator on a boolean
+      expectTypeOf(typed.where).toBeCallableWith({ active: { $gt: true } })
+      // @ts-expect-error $inc on a string field
+      expectTypeOf(typed.update).toBeCallableWith({ $inc: { name: 1 } })
+      // @ts-expect-error $push element type
+      expectTypeOf(typed.update).toBeCallableWith({ $push: { tags: 1 } })
+    })
+
+    it('should narrow the result type with select', async () => {
+      ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: [{ id: 'p1', name: 'Pen' }] })
+
+      const result = await typed.select(['name']).where({ price: { $lt: 5 } }).find()
+
+      expectTypeOf(result).toEqualTypeOf<Pick<Product, 'id' | 'name'>[]>()
+      expect(result).toEqual([{ id: 'p1', name: 'Pen' }])
+    })
+  })
+
   describe('chaining', () => {
     it('should chain all methods together', async () => {
       ;(mockHttp.post as Mock).mockResolvedValueOnce({ success: true, data: [] })
@@ -346,6 +623,24 @@ describe('QueryBuilder', () => {
       )
     })
   })
+
+  describe('toKey', () => {
+    it('should be equal for the same query built in any order', () => {
+      const a = new QueryBuilder(mockHttp, 'products').where({ a: 1, b: 2 }).limit(10)
+      const b = new QueryBuilder(mockHttp, 'products').limit(10).where({ b: 2, a: 1 })
+
+      expect(a.toKey()).toBe(b.toKey())
+      expect(a.getCollection()).toBe('products')
+    })
+
+    it('should differ between queries', () => {
+      const key = builder.where({ a: 1 }).toKey()
+
+      expect(new QueryBuilder(mockHttp, 'orders').where({ a: 1 }).toKey()).not.toBe(key)
+      expect(new QueryBuilder(mockHttp, 'products').where({ a: 2 }).toKey()).not.toBe(key)
+      expect(new QueryBuilder(mockHttp, 'products').where({ a: 1 }).offset(5).toKey()).not.toBe(key)
+    })
+  })
 })
 
 describe('QueryService', () => {
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, expectTypeOf, type Mock } from 'vitest'
+import { QueryBuilder } from '../../src/modules/query/builder'
+import { Relations } from '../../src/modules/relations/relations'
+import { HttpClient } from '../../src/core/http'
+import type { QueryRequest } from '../../src/types/query'
+
+// Mock HTTP client
+function createMockHttpClient() {
+  return {
+    post: vi.fn(),
+    get: vi.fn(),
+  } as unknown as HttpClient
+}
+
+interface Post {
+  id: string
+  title: string
+  author: string
+  tags: string[]
+}
+
+interface User {
+  id: string
+  name: string
+}
+
+const users = [
+  { id: 'u1', name: 'Ada' },
+  { id: 'u2', name: 'Grace' },
+]
+
+const tags = [
+  { id: 't1', label: 'news' },
+  { id: 't2', label: 'tech' },
+]
+
+const comments = [
+  { id: 'c1', postId: 'p1', body: 'First' },
+  { id: 'c2', postId: 'p2', body: 'Nice' },
+  { id: 'c3', postId: 'p1', body: 'Agreed' },
+]
+
+describe('Relations', () => {
+  it('should default belongs-to relations to the relation name and id', () => {
+    const relations = new Relations({ posts: { author: 'users' } })
+
+    expect(relations.get('posts', 'author')).toEqual({
+      collection: 'users',
+      localField: 'author',
+      foreignField: 'id',
+      many: false,
+    })
+  })
+
+  it('should default has-many relations to the local id', () => {
+    const relations = new Relations()
+    relations.define('posts', { comments: { collection: 'comments', foreignField: 'postId' } })
+
+    expect(relations.get('posts', 'comments')).toEqual({
+      collection: 'comments',
+      localField: 'id',
+      foreignField: 'postId',
+      many: true,
+    })
+  })
+
+  it('should keep other relations when defining more', () => {
+    const relations = new Relations({ posts: { author: 'users' } })
+    relations.define('posts', { editor: { collection: 'users', localField: 'editorId' } })
+
+    expect(relations.get('posts', 'author')).toBeDefined()
+    expect(relations.get('posts', 'editor')?.localField).toBe('editorId')
+  })
+})
+
+describe('QueryBuilder.include', () => {
+  let mockHttp: ReturnType<typeof createMockHttpClient>
+  let relations: Relations
+  let posts: Record<string, unknown>[]
+
+  beforeEach(() => {
+    mockHttp = createMockHttpClient()
+    relations = new Relations({
+      posts: {
+        author: 'users',
+        tags: 'tags',
+        comments: { collection: 'comments', foreignField: 'postId' },
+      },
+    })
+    posts = [
+      { id: 'p1', title: 'Hello', author: 'u1', tags: ['t2', 't1'] },
+      { id: 'p2', title: 'Again', author: 'u1', tags: [] },
+      { id: 'p3', title: 'Gone', author: 'u9', tags: ['t1'] },
+    ]
+
+    ;(mockHttp.post as Mock).mockImplementation(async (_path: string, request: QueryRequest) => {
+      const ids = (Object.values(request.query?.where ?? {})[0] as { $in?: unknown[] } | undefined)?.$in
+      const data = {
+        posts,
+        users: users.filter((user) => ids?.includes(user.id)),
+        tags: tags.filter((tag) => ids?.includes(tag.id)),
+        comments: comments.filter((comment) => ids?.includes(comment.postId)),
+      }[request.collection]
+
+      return { success: true, data: request.action === 'findOne' ? data?.[0] ?? null : data }
+    })
+  })
+
+  const builder = () => new QueryBuilder<Post>(mockHttp, 'posts', { relations })
+  const requests = () => (mockHttp.post as Mock).mock.calls.map((call) => call[1] as QueryRequest)
+
+  it('should fetch each relation with one $in query', async () => {
+    const result = await builder().include('author').find()
+
+    expect(requests()).toHaveLength(2)
+    expect(requests()[1]).toEqual({
+      action: 'find',
+      collection: 'users',
+      query: { where: { id: { $in: ['u1', 'u9'] } } },
+    })
+    expect(result.map((post) => post.author)).toEqual([users[0], users[0], null])
+  })
+
+  it('should resolve arrays of references in order', async () => {
+    const result = await builder().include('tags').find()
+
+    expect(result.map((post) => post.tags)).toEqual([
+      [tags[1], tags[0]],
+      [],
+      [tags[0]],
+    ])
+  })
+
+  it('should resolve has-many relations', async () => {
+    const result = await builder().include('author', 'comments').find()
+
+    expect(requests()).toHaveLength(3)
+    expect(result[0]).toMatchObject({ author: users[0], comments: [comments[0], comments[2]] })
+    expect(result[2]).toMatchObject({ author: null, comments: [] })
+  })
+
+  it('should populate findOne results', async () => {
+    const result = await builder().include('author').findOne()
+
+    expect(result).toMatchObject({ id: 'p1', author: users[0] })
+  })
+
+  it('should skip related queries when nothing matches', async () => {
+    posts = []
+
+    const result = await builder().include('author').find()
+
+    expect(result).toEqual([])
+    expect(requests()).toHaveLength(1)
+  })
+
+  it('should fetch unselected reference fields and drop them afterwards', async () => {
+    relations.define('posts', { writer: { collection: 'users', localField: 'author' } })
+
+    const result = await builder().select(['title']).include('writer').find()
+
+    expect(requests()[0]?.query?.select).toEqual(['title', 'author'])
+    expect(result[0]).toEqual({ id: 'p1', title: 'Hello', tags: ['t2', 't1'], writer: users[0] })
+    expect(result[0]).not.toHaveProperty('author')
+  })
+
+  it('should throw for undeclared relations', () => {
+    expect(() => builder().include('publisher')).toThrow('Unknown relation "publisher" on collection "posts"')
+  })
+
+  it('should type included relations', () => {
+    expectTypeOf(builder().include<{ author: User }>('author').find)
+      .returns.resolves.toEqualTypeOf<Array<Post & { author: User }>>()
+    expectTypeOf(builder().include('comments').find)
+      .returns.resolves.toEqualTypeOf<Array<Post & { comments: unknown }>>()
+  })
+})
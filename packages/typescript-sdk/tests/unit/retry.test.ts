@@ -167,4 +167,19 @@ describe('withRetry', () => {
     expect(result).toBe('success')
     expect(fn).toHaveBeenCalledTimes(2)
   })
+
+  it('should use retryIf instead of the default check', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce({ status: 409 })
+      .mockResolvedValue('success')
+
+    const result = await withRetry(fn, { attempts: 3, baseDelay: 10 }, (error) => (error as { status: number }).status === 409)
+
+    expect(result).toBe('success')
+    expect(fn).toHaveBeenCalledTimes(2)
+
+    const network = vi.fn().mockRejectedValue(new NetworkError('timeout', 'TIMEOUT'))
+    await expect(withRetry(network, { attempts: 3, baseDelay: 10 }, () => false)).rejects.toThrow('timeout')
+    expect(network).toHaveBeenCalledTimes(1)
+  })
 })
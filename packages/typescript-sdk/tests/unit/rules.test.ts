@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { evaluateRule } from '../../src/modules/collections/rules'
+
+const post = { id: 'post_1', ownerId: 'user_1', published: true }
+const owner = { id: 'user_1', email: 'owner@example.com', role: 'user' }
+const editor = { id: 'user_3', email: 'editor@example.com', role: 'editor' }
+
+describe('evaluateRule', () => {
+  it('should allow admins only for null or missing rules', () => {
+    expect(evaluateRule(null, post, owner)).toBe(false)
+    expect(evaluateRule(undefined, post, owner)).toBe(false)
+  })
+
+  it('should allow everyone for an empty rule', () => {
+    expect(evaluateRule({}, post, owner)).toBe(true)
+    expect(evaluateRule({}, post, null)).toBe(true)
+  })
+
+  it('should match documents against the rule', () => {
+    expect(evaluateRule({ published: true }, post, null)).toBe(true)
+    expect(evaluateRule({ published: false }, post, null)).toBe(false)
+  })
+
+  it('should replace $auth placeholders with the user', () => {
+    const rule = { ownerId: '$auth.id' }
+
+    expect(evaluateRule(rule, post, owner)).toBe(true)
+    expect(evaluateRule(rule, post, editor)).toBe(false)
+    expect(evaluateRule({ ownerId: { $in: ['$auth.id', 'user_9'] } }, post, owner)).toBe(true)
+  })
+
+  it('should test the user with $auth keys', () => {
+    const rule = { $or: [{ ownerId: '$auth.id' }, { '$auth.role': { $in: ['editor', 'moderator'] } }] }
+
+    expect(evaluateRule(rule, post, owner)).toBe(true)
+    expect(evaluateRule(rule, post, editor)).toBe(true)
+    expect(evaluateRule(rule, post, { id: 'user_4', role: 'user' })).toBe(false)
+  })
+
+  it('should deny placeholder rules to signed-out requests', () => {
+    expect(evaluateRule({ ownerId: '$auth.id' }, post, null)).toBe(false)
+    expect(evaluateRule({ '$auth.id': { $exists: true } }, post, null)).toBe(false)
+    expect(evaluateRule({ '$auth.id': { $exists: true } }, post, owner)).toBe(true)
+  })
+})
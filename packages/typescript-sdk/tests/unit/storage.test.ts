@@ -3,8 +3,14 @@ import {
   MemoryStorage,
   LocalStorageAdapter,
   SessionStorageAdapter,
+  CookieStorage,
   createStorageAdapter,
 } from '../../src/modules/auth/storage'
+import {
+  cookiesFromHeaders,
+  parseCookieHeader,
+  serializeCookie,
+} from '../../src/modules/auth/cookies'
 
 describe('MemoryStorage', () => {
   let storage: MemoryStorage
@@ -168,6 +174,11 @@ describe('createStorageAdapter', () => {
     expect(adapter).toBeInstanceOf(SessionStorageAdapter)
   })
 
+  it('should create CookieStorage for "cookie"', () => {
+    const adapter = createStorageAdapter('cookie')
+    expect(adapter).toBeInstanceOf(CookieStorage)
+  })
+
   it('should return custom adapter when passed as object', () => {
     const customAdapter = {
       get: vi.fn(),
@@ -179,3 +190,110 @@ describe('createStorageAdapter', () => {
     expect(adapter).toBe(customAdapter)
   })
 })
+
+describe('CookieStorage', () => {
+  let request: Headers
+  let response: Headers
+
+  beforeEach(() => {
+    request = new Headers()
+    response = new Headers()
+  })
+
+  it('should store and retrieve URI-encoded values', async () => {
+    const storage = new CookieStorage(cookiesFromHeaders(request, response))
+
+    await storage.set('swiftbase_session', '{"accessToken":"a b;c"}')
+
+    expect(await storage.get('swiftbase_session')).toBe('{"accessToken":"a b;c"}')
+    expect(response.get('set-cookie')).toBe(
+      'swiftbase_session=%7B%22accessToken%22%3A%22a%20b%3Bc%22%7D; Path=/; Max-Age=34560000; SameSite=Lax'
+    )
+  })
+
+  it('should read the session from the request cookies', async () => {
+    request.set('cookie', `theme=dark; swiftbase_session=${encodeURIComponent('{"a":1}')}`)
+    const storage = new CookieStorage(cookiesFromHeaders(request))
+
+    expect(await storage.get('swiftbase_session')).toBe('{"a":1}')
+    expect(await storage.get('missing')).toBeNull()
+  })
+
+  it('should split large values across chunk cookies', async () => {
+    const storage = new CookieStorage(cookiesFromHeaders(request, response))
+    const value = 'x'.repeat(7000)
+
+    await storage.set('key', value)
+
+    expect(await storage.get('key')).toBe(value)
+    expect(response.getSetCookie().map((cookie) => cookie.split('=')[0])).toEqual(['key.0', 'key.1', 'key.2'])
+
+    // Shrinking the value removes the chunks
+    await storage.set('key', 'small')
+
+    expect(await storage.get('key')).toBe('small')
+    expect(response.getSetCookie().slice(3).map((cookie) => cookie.split(';')[0])).toEqual([
+      'key=small',
+      'key.0=',
+      'key.1=',
+      'key.2=',
+    ])
+  })
+
+  it('should remove the cookie and its chunks', async () => {
+    const storage = new CookieStorage(cookiesFromHeaders(request, response))
+    await storage.set('key', 'x'.repeat(4000))
+
+    await storage.remove('key')
+
+    expect(await storage.get('key')).toBeNull()
+    expect(response.getSetCookie().slice(2)).toEqual([
+      'key.0=; Path=/; Max-Age=0; SameSite=Lax',
+      'key.1=; Path=/; Max-Age=0; SameSite=Lax',
+    ])
+  })
+
+  it('should ignore writes without set()', async () => {
+    const storage = new CookieStorage({ get: () => null })
+
+    await expect(storage.set('key', 'value')).resolves.toBeUndefined()
+    expect(await storage.get('key')).toBeNull()
+  })
+
+  it('should apply cookie options', async () => {
+    const set = vi.fn()
+    const storage = new CookieStorage({ get: () => null, set }, { secure: true, maxAge: 60 })
+
+    await storage.set('key', 'value')
+
+    expect(set).toHaveBeenCalledWith('key', 'value', { path: '/', sameSite: 'lax', maxAge: 60, secure: true })
+  })
+})
+
+describe('cookie headers', () => {
+  it('should parse a Cookie header', () => {
+    const cookies = parseCookieHeader('a=1; b = two ; invalid; a=3')
+
+    expect(cookies.get('a')).toBe('1')
+    expect(cookies.get('b')).toBe('two')
+    expect(cookies.has('invalid')).toBe(false)
+  })
+
+  it('should serialize cookie attributes', () => {
+    expect(serializeCookie('name', 'value', {
+      path: '/app',
+      domain: 'example.com',
+      maxAge: 3600,
+      sameSite: 'strict',
+      secure: true,
+      httpOnly: true,
+    })).toBe('name=value; Path=/app; Domain=example.com; Max-Age=3600; SameSite=Strict; Secure; HttpOnly')
+  })
+
+  it('should accept a Request', () => {
+    const cookies = cookiesFromHeaders(new Request('http://localhost', { headers: { cookie: 'a=1' } }))
+
+    expect(cookies.get('a')).toBe('1')
+    expect(cookies.set).toBeUndefined()
+  })
+})
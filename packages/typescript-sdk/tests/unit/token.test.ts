@@ -61,6 +61,29 @@ describe('TokenManager', () => {
       expect(storage.get('swiftbase_session')).toBeNull()
     })
 
+    it('should keep an expired session with keepExpired', async () => {
+      const expiredSession = createMockSession(-100)
+      storage.set('swiftbase_session', JSON.stringify(expiredSession))
+
+      const session = await tokenManager.initialize({ keepExpired: true })
+
+      expect(session?.refreshToken).toBe('refresh_token_123')
+      expect(tokenManager.isSessionExpired()).toBe(true)
+    })
+
+    it('should restore the kept session when the impersonated one expired', async () => {
+      const adminSession = createMockSession()
+      storage.set('swiftbase_session', JSON.stringify(createMockSession(-100)))
+      storage.set('swiftbase_impersonator', JSON.stringify(adminSession))
+
+      const session = await tokenManager.initialize()
+
+      expect(session).toEqual(adminSession)
+      expect(tokenManager.getImpersonator()).toBeNull()
+      expect(JSON.parse(storage.get('swiftbase_session')!)).toEqual(adminSession)
+      expect(storage.get('swiftbase_impersonator')).toBeNull()
+    })
+
     it('should clear invalid JSON from storage', async () => {
       storage.set('swiftbase_session', 'invalid json')
 
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { runTransaction, Transaction } from '../../src/modules/transaction/transaction'
+import { HttpClient } from '../../src/core/http'
+import { NetworkError, SwiftBaseError } from '../../src/core/errors'
+
+// Mock HTTP client
+function createMockHttpClient() {
+  return {
+    post: vi.fn(),
+    get: vi.fn(),
+  } as unknown as HttpClient
+}
+
+const conflict = () => new SwiftBaseError('Transaction conflict', 409, 'TRANSACTION_CONFLICT')
+
+describe('runTransaction', () => {
+  let mockHttp: ReturnType<typeof createMockHttpClient>
+  let begun: number
+
+  beforeEach(() => {
+    mockHttp = createMockHttpClient()
+    begun = 0
+    ;(mockHttp.post as Mock).mockImplementation(async (path: string) => {
+      if (path === '/api/transactions') {
+        begun++
+        return { success: true, transactionId: `tx_${begun}` }
+      }
+      if (path === '/api/query') {
+        return { success: true, data: { modified: 1 } }
+      }
+      return { success: true }
+    })
+  })
+
+  const paths = () => (mockHttp.post as Mock).mock.calls.map((call) => call[0])
+
+  it('should run queries in the transaction and commit', async () => {
+    const result = await runTransaction(mockHttp, async (tx) => {
+      await tx.collection('inventory').where({ sku: 'a' }).update({ $inc: { stock: -1 } })
+      await tx.collection('orders').create({ sku: 'a' })
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(paths()).toEqual([
+      '/api/transactions',
+      '/api/query',
+      '/api/query',
+      '/api/transactions/tx_1/commit',
+    ])
+    expect(mockHttp.post).toHaveBeenNthCalledWith(2, '/api/query', expect.objectContaining({
+      action: 'update',
+      collection: 'inventory',
+    }), {
+      headers: { 'X-Transaction-Id': 'tx_1' },
+      skipRetry: true,
+    })
+  })
+
+  it('should roll back and rethrow when the callback throws', async () => {
+    await expect(runTransaction(mockHttp, async (tx) => {
+      await tx.collection('orders').create({ sku: 'a' })
+      throw new Error('Out of stock')
+    })).rejects.toThrow('Out of stock')
+
+    expect(paths()).toEqual([
+      '/api/transactions',
+      '/api/query',
+      '/api/transactions/tx_1/rollback',
+    ])
+  })
+
+  it('should keep the original error when rollback fails', async () => {
+    ;(mockHttp.post as Mock).mockImplementation(async (path: string) => {
+      if (path === '/api/transactions') return { success: true, transactionId: 'tx_1' }
+      throw new NetworkError('Network request failed', 'NETWORK_ERROR')
+    })
+
+    await expect(runTransaction(mockHttp, async (tx) => {
+      await tx.collection('orders').create({ sku: 'a' })
+    })).rejects.toThrow('Network request failed')
+    expect(paths()).toHaveLength(3)
+  })
+
+  it('should re-run the callback on a conflict at commit', async () => {
+    let commits = 0
+    ;(mockHttp.post as Mock).mockImplementation(async (path: string) => {
+      if (path === '/api/transactions') return { success: true, transactionId: `tx_${++begun}` }
+      if (path.endsWith('/commit') && ++commits === 1) throw conflict()
+      return { success: true, data: {} }
+    })
+    const callback = vi.fn(async (tx: Transaction) => tx.id)
+
+    const result = await runTransaction(mockHttp, callback, {}, { retryDelay: 0 })
+
+    expect(callback).toHaveBeenCalledTimes(2)
+    expect(result).toBe('tx_2')
+  })
+
+  it('should re-run the callback on a conflict inside the transaction', async () => {
+    let queries = 0
+    ;(mockHttp.post as Mock).mockImplementation(async (path: string) => {
+      if (path === '/api/transactions') return { success: true, transactionId: `tx_${++begun}` }
+      if (path === '/api/query' && ++queries === 1) throw conflict()
+      return { success: true, data: {} }
+    })
+
+    await runTransaction(mockHttp, async (tx) => {
+      await tx.collection('orders').create({ sku: 'a' })
+    }, {}, { retryDelay: 0 })
+
+    expect(paths()).toEqual([
+      '/api/transactions',
+      '/api/query',
+      '/api/transactions/tx_1/rollback',
+      '/api/transactions',
+      '/api/query',
+      '/api/transactions/tx_2/commit',
+    ])
+  })
+
+  it('should give up after maxRetries conflicts', async () => {
+    ;(mockHttp.post as Mock).mockImplementation(async (path: string) => {
+      if (path === '/api/transactions') return { success: true, transactionId: `tx_${++begun}` }
+      if (path.endsWith('/commit')) throw conflict()
+      return { success: true }
+    })
+
+    await expect(runTransaction(mockHttp, async () => {}, {}, { maxRetries: 2, retryDelay: 0 }))
+      .rejects.toMatchObject({ status: 409 })
+    expect(begun).toBe(3)
+  })
+
+  it('should not re-run the callback on other 409 errors', async () => {
+    const callback = vi.fn(async () => {
+      throw new SwiftBaseError('Duplicate key', 409, 'CONFLICT')
+    })
+
+    await expect(runTransaction(mockHttp, callback, {}, { retryDelay: 0 })).rejects.toThrow('Duplicate key')
+    expect(callback).toHaveBeenCalledTimes(1)
+    expect(begun).toBe(1)
+  })
+
+  it('should not re-run the callback on other errors', async () => {
+    const callback = vi.fn(async () => {
+      throw new NetworkError('Network request failed', 'NETWORK_ERROR')
+    })
+
+    await expect(runTransaction(mockHttp, callback, {}, { retryDelay: 0 })).rejects.toThrow(NetworkError)
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+})
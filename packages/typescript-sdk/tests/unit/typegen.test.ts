@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import { generateTypes, parseCollections, typeName } from '../../src/modules/typegen/generate'
+import type { Collection } from '../../src/types/collections'
+
+function collection(name: string, overrides: Partial<Collection> = {}): Collection {
+  return {
+    id: `col_${name}`,
+    name,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('typeName', () => {
+  it.each([
+    ['products', 'Product'],
+    ['order_items', 'OrderItem'],
+    ['categories', 'Category'],
+    ['boxes', 'Box'],
+    ['addresses', 'Address'],
+    ['responses', 'Response'],
+    ['status', 'Status'],
+    ['analysis', 'Analysis'],
+    ['user-profile', 'UserProfile'],
+    ['2fa_codes', '_2faCode'],
+  ])('%s -> %s', (name, expected) => {
+    expect(typeName(name)).toBe(expected)
+  })
+})
+
+describe('generateTypes', () => {
+  it('should emit an interface per collection and a Database map', () => {
+    const source = generateTypes([
+      collection('products', {
+        schema: {
+          name: { type: 'string', required: true },
+          price: { type: 'number' },
+          active: { type: 'boolean', default: true },
+          meta: { type: 'object' },
+          tags: { type: 'array' },
+        },
+      }),
+      collection('orders'),
+    ])
+
+    expect(source).toContain([
+      'export interface Product {',
+      '  id: string',
+      '  createdAt: string',
+      '  updatedAt: string',
+      '  name: string',
+      '  price?: number',
+      '  /** Default: `true` */',
+      '  active: boolean',
+      '  meta?: Record<string, unknown>',
+      '  tags?: unknown[]',
+      '}',
+    ].join('\n'))
+    expect(source).toContain('export interface Order {')
+    expect(source).toContain([
+      'export interface Database {',
+      '  orders: Order',
+      '  products: Product',
+      '}',
+    ].join('\n'))
+  })
+
+  it('should document indexes and mark unique fields', () => {
+    const source = generateTypes([
+      collection('products', {
+        schema: { sku: { type: 'string', required: true } },
+        indexes: {
+          sku_idx: { fields: ['sku'], unique: true },
+          category_price: { fields: ['category', 'price'] },
+          search_idx: { fields: ['name', 'description'], type: 'text' },
+        },
+      }),
+    ])
+
+    expect(source).toContain(' * - sku_idx: sku (unique)')
+    expect(source).toContain(' * - category_price: category, price')
+    expect(source).toContain(' * - search_idx: name, description (text)')
+    expect(source).toContain('  /** Unique */\n  sku: string')
+  })
+
+  it('should quote keys that are not identifiers', () => {
+    const source = generateTypes([
+      collection('line-items', { schema: { 'unit-price': { type: 'number' } } }),
+    ])
+
+    expect(source).toContain('  "unit-price"?: number')
+    expect(source).toContain('  "line-items": LineItem')
+  })
+
+  it('should not redeclare system fields', () => {
+    const source = generateTypes([
+      collection('products', { schema: { id: { type: 'string', required: true } } }),
+    ])
+
+    expect(source.match(/ id: string/g)).toHaveLength(1)
+  })
+
+  it('should disambiguate colliding type names', () => {
+    const source = generateTypes([collection('product'), collection('products')])
+
+    expect(source).toContain('  product: Product\n  products: Product2')
+  })
+
+  it('should not name a collection type Database', () => {
+    const source = generateTypes([collection('databases')])
+
+    expect(source).toContain('export interface Database2 {')
+    expect(source).toContain('  databases: Database2')
+    expect(source.match(/export interface Database \{/g)).toHaveLength(1)
+  })
+})
+
+describe('parseCollections', () => {
+  it('should accept a collection array or an API response', () => {
+    const list = [collection('products')]
+
+    expect(parseCollections(JSON.stringify(list))).toEqual(list)
+    expect(parseCollections(JSON.stringify({ success: true, collections: list }))).toEqual(list)
+  })
+
+  it('should reject other JSON', () => {
+    expect(() => parseCollections('{"data": []}')).toThrow('Expected an array of collections')
+    expect(() => parseCollections('[{"id": 1}]')).toThrow('Expected an array of collections')
+  })
+})
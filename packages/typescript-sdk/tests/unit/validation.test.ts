@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { Validation } from '../../src/modules/validation/validation'
+import { QueryBuilder } from '../../src/modules/query/builder'
+import { Collections } from '../../src/modules/collections/collections'
+import { HttpClient } from '../../src/core/http'
+import { AuthError, NetworkError, ValidationError } from '../../src/core/errors'
+import type { CollectionSchema } from '../../src/types/collections'
+import type { StandardSchemaV1 } from '../../src/types/validation'
+
+const productSchema: CollectionSchema = {
+  name: { type: 'string', required: true },
+  price: { type: 'number', required: true },
+  active: { type: 'boolean', default: true },
+  tags: { type: 'array' },
+  meta: { type: 'object' },
+}
+
+// Mock collections module
+function createMockCollections(schema: CollectionSchema | undefined = productSchema) {
+  return {
+    get: vi.fn().mockResolvedValue({ id: 'col_1', name: 'products', schema }),
+  } as unknown as Collections
+}
+
+// Minimal Standard Schema validator requiring a non-empty name
+const nameSchema: StandardSchemaV1 = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => {
+      const data = value as Record<string, unknown>
+      return typeof data.name === 'string' && data.name.length > 0
+        ? { value: { ...data, name: data.name.trim() } }
+        : { issues: [{ message: 'Name is required', path: [{ key: 'name' }] }] }
+    },
+  },
+}
+
+async function catchError(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise
+  } catch (error) {
+    return error
+  }
+  throw new Error('Expected promise to reject')
+}
+
+describe('Validation', () => {
+  let collections: ReturnType<typeof createMockCollections>
+  let validation: Validation
+
+  beforeEach(() => {
+    collections = createMockCollections()
+    validation = new Validation(collections, { enabled: true })
+  })
+
+  describe('validateCreate', () => {
+    it('should apply defaults and pass through unknown fields', async () => {
+      const result = await validation.validateCreate('products', { name: 'Pen', price: 2, sku: 'p-1' })
+
+      expect(result).toEqual({ name: 'Pen', price: 2, active: true, sku: 'p-1' })
+    })
+
+    it('should report missing and mistyped fields', async () => {
+      const error = await catchError(validation.validateCreate('products', { price: '2', tags: 'a' }))
+
+      expect(error).toBeInstanceOf(ValidationError)
+      expect((error as ValidationError).errors).toEqual([
+        { field: 'name', message: 'This field is required' },
+        { field: 'price', message: 'Must be a number' },
+        { field: 'tags', message: 'Must be an array' },
+      ])
+    })
+
+    it('should reject non-plain objects and non-finite numbers', async () => {
+      const error = await catchError(
+        validation.validateCreate('products', { name: 'Pen', price: Number.NaN, meta: [] })
+      ) as ValidationError
+
+      expect(error.errors.map((e) => e.field)).toEqual(['price', 'meta'])
+    })
+
+    it('should skip validation when disabled', async () => {
+      validation = new Validation(collections)
+
+      await expect(validation.validateCreate('products', { price: 'x' })).resolves.toEqual({ price: 'x' })
+      expect(collections.get).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('validateUpdate', () => {
+    it('should check $set values and plain partial updates', async () => {
+      const error = await catchError(
+        validation.validateUpdate('products', { $set: { price: 'free', name: null } })
+      ) as ValidationError
+
+      expect(error.errors).toEqual([
+        { field: 'price', message: 'Must be a number' },
+        { field: 'name', message: 'This field is required' },
+      ])
+      await expect(validation.validateUpdate('products', { active: 'yes' })).rejects.toThrow(ValidationError)
+      await expect(validation.validateUpdate('products', { price: 3 })).resolves.toEqual({ price: 3 })
+    })
+
+    it('should check operator targets', async () => {
+      const error = await catchError(validation.validateUpdate('products', {
+        $unset: { name: true },
+        $inc: { name: 1 },
+        $push: { meta: 'x' },
+      })) as ValidationError
+
+      expect(error.errors).toEqual([
+        { field: 'name', message: 'This field is required' },
+        { field: 'name', message: 'Cannot apply $inc to a field of type string' },
+        { field: 'meta', message: 'Cannot apply $push to a field of type object' },
+      ])
+    })
+
+    it('should not apply defaults to updates', async () => {
+      await expect(validation.validateUpdate('products', { $set: { price: 3 } })).resolves.toEqual({ $set: { price: 3 } })
+    })
+  })
+
+  describe('schema cache', () => {
+    it('should fetch each schema once within the TTL', async () => {
+      await Promise.all([
+        validation.validateCreate('products', { name: 'A', price: 1 }),
+        validation.validateCreate('products', { name: 'B', price: 2 }),
+      ])
+      await validation.validateUpdate('products', { price: 3 })
+
+      expect(collections.get).toHaveBeenCalledTimes(1)
+      expect(collections.get).toHaveBeenCalledWith('products')
+    })
+
+    it('should refetch after the TTL or invalidate()', async () => {
+      vi.useFakeTimers()
+      try {
+        validation = new Validation(collections, { enabled: true, schemaTtl: 1000 })
+        await validation.validateCreate('products', { name: 'A', price: 1 })
+        vi.advanceTimersByTime(1001)
+        await validation.validateCreate('products', { name: 'A', price: 1 })
+        validation.invalidate('products')
+        await validation.validateCreate('products', { name: 'A', price: 1 })
+
+        expect(collections.get).toHaveBeenCalledTimes(3)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should skip and remember collections the client cannot read', async () => {
+      ;(collections.get as Mock).mockRejectedValue(new AuthError('Admin authentication required', 'UNAUTHORIZED'))
+
+      await expect(validation.validateCreate('products', { price: 'x' })).resolves.toEqual({ price: 'x' })
+      await validation.validateCreate('products', { price: 'x' })
+
+      expect(collections.get).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not cache network failures', async () => {
+      ;(collections.get as Mock).mockRejectedValueOnce(new NetworkError('Network request failed', 'NETWORK_ERROR'))
+
+      await expect(validation.validateCreate('products', { price: 'x' })).resolves.toEqual({ price: 'x' })
+      await expect(validation.validateCreate('products', { price: 'x' })).rejects.toThrow(ValidationError)
+    })
+  })
+
+  describe('custom validators', () => {
+    it('should use a Standard Schema instead of the server schema', async () => {
+      validation.register('products', nameSchema)
+
+      await expect(validation.validateCreate('products', { name: '  Pen ' })).resolves.toEqual({ name: 'Pen' })
+      const error = await catchError(validation.validateCreate('products', { name: '' })) as ValidationError
+
+      expect(error.errors).toEqual([{ field: 'name', message: 'Name is required' }])
+      expect(collections.get).not.toHaveBeenCalled()
+    })
+
+    it('should run custom validators when schema validation is disabled', async () => {
+      validation = new Validation(collections, { validators: { products: nameSchema } })
+
+      await expect(validation.validateCreate('products', { name: '' })).rejects.toThrow(ValidationError)
+    })
+
+    it('should support safeParse schemas', async () => {
+      validation.register('products', {
+        safeParse: (value: unknown) => (value as { price?: unknown }).price === 1
+          ? { success: true as const, data: value }
+          : { success: false as const, error: { issues: [{ message: 'Expected 1', path: ['price'] }] } },
+      })
+
+      const error = await catchError(validation.validateCreate('products', { price: 2 })) as ValidationError
+
+      expect(error.errors).toEqual([{ field: 'price', message: 'Expected 1' }])
+    })
+
+    it('should validate $set values with the update schema', async () => {
+      validation.register('products', { update: nameSchema })
+
+      await expect(validation.validateUpdate('products', { $set: { name: ' Pen ' }, $inc: { views: 1 } }))
+        .resolves.toEqual({ $set: { name: 'Pen' }, $inc: { views: 1 } })
+      await expect(validation.validateUpdate('products', { $inc: { views: 1 } }))
+        .resolves.toEqual({ $inc: { views: 1 } })
+      await expect(validation.validateCreate('products', { name: '' })).resolves.toEqual({ name: '' })
+    })
+  })
+
+  describe('QueryBuilder integration', () => {
+    it('should validate before sending writes', async () => {
+      const http = { post: vi.fn().mockResolvedValue({ success: true, data: {} }), get: vi.fn() } as unknown as HttpClient
+      const builder = new QueryBuilder(http, 'products', { validation })
+
+      await expect(builder.create({ price: 1 })).rejects.toThrow(ValidationError)
+      expect(http.post).not.toHaveBeenCalled()
+
+      await builder.create({ name: 'Pen', price: 1 })
+      expect(http.post).toHaveBeenCalledWith('/api/query', {
+        action: 'create',
+        collection: 'products',
+        data: { name: 'Pen', price: 1, active: true },
+      })
+    })
+  })
+})
@@ -1,14 +1,27 @@
 import { defineConfig } from 'tsup'
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['esm', 'cjs'],
-  dts: true,
-  splitting: false,
-  sourcemap: true,
-  clean: true,
-  minify: false,
-  treeshake: true,
-  target: 'es2022',
-  outDir: 'dist',
-})
+export default defineConfig([
+  {
+    entry: ['src/index.ts'],
+    format: ['esm', 'cjs'],
+    dts: true,
+    splitting: false,
+    sourcemap: true,
+    clean: true,
+    minify: false,
+    treeshake: true,
+    target: 'es2022',
+    outDir: 'dist',
+  },
+  {
+    entry: ['src/cli.ts'],
+    format: ['esm'],
+    platform: 'node',
+    splitting: false,
+    sourcemap: false,
+    minify: false,
+    treeshake: true,
+    target: 'es2022',
+    outDir: 'dist',
+  },
+])